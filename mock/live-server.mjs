@@ -0,0 +1,83 @@
+/* Mock live feed for development and tests: replays a scripted event file as Server-Sent Events.
+ *
+ *   node mock/live-server.mjs [--port 4010] [--file mock/live-events.json] [--once] [--drop-after N]
+ *
+ * Each script entry is a live event plus `afterMs`, the wait since the previous one. Connect to
+ * `/live?site=<layout id>`; only that site's events are sent, stamped with the current time. Event
+ * ids count up across loops, and `lastEventId` (or the Last-Event-ID header) resumes after one.
+ * `--drop-after N` closes every connection after N events, to exercise reconnecting. */
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+function option(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i === -1 ? fallback : process.argv[i + 1];
+}
+
+const port = Number(option("port", 4010));
+const file = path.resolve(option("file", path.join(path.dirname(fileURLToPath(import.meta.url)), "live-events.json")));
+const once = process.argv.includes("--once");
+const dropAfter = Number(option("drop-after", 0));
+const script = JSON.parse(fs.readFileSync(file, "utf8"));
+if (!Array.isArray(script) || !script.length) throw new Error(`${file} must contain a non-empty JSON array.`);
+
+const HEARTBEAT_MS = 15_000;
+
+function replay(req, res, site, startAfter) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.write("retry: 1000\n\n");
+
+  let next = startAfter + 1;
+  let sent = 0;
+  let timer;
+  // Comments keep proxies from closing an idle stream.
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_MS);
+  const stop = () => {
+    clearTimeout(timer);
+    clearInterval(heartbeat);
+  };
+  req.on("close", stop);
+
+  const schedule = () => {
+    if (once && next >= script.length) {
+      stop();
+      res.end();
+      return;
+    }
+    const { afterMs = 1000, ...event } = script[next % script.length];
+    timer = setTimeout(() => {
+      const id = next++;
+      if (!site || event.layoutId === site) {
+        res.write(`id: ${id}\ndata: ${JSON.stringify({ ...event, at: new Date().toISOString() })}\n\n`);
+        console.log(`${id} ${event.layoutId} ${event.kind} ${event.code}`);
+        if (dropAfter && ++sent >= dropAfter) {
+          stop();
+          res.end();
+          return;
+        }
+      }
+      schedule();
+    }, afterMs);
+  };
+  schedule();
+}
+
+http
+  .createServer((req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host}`);
+    if (url.pathname !== "/live") {
+      res.writeHead(404, { "Access-Control-Allow-Origin": "*" }).end("Not found\n");
+      return;
+    }
+    const lastId = url.searchParams.get("lastEventId") ?? req.headers["last-event-id"];
+    const startAfter = Number.isInteger(Number(lastId)) && lastId !== null && lastId !== "" ? Number(lastId) : -1;
+    replay(req, res, url.searchParams.get("site"), startAfter);
+  })
+  .listen(port, () => console.log(`Replaying ${path.relative(process.cwd(), file)} on http://localhost:${port}/live`));
@@ -0,0 +1,49 @@
+import * as React from "react";
+import { LogIn, LogOut, UserRound } from "lucide-react";
+
+import { ROLE_LABEL, type Identity } from "../lib/auth";
+
+const buttonClass =
+  "inline-flex items-center gap-1.5 rounded-[10px] border border-[#e2e8f0] bg-white px-3 py-1 text-xs font-medium text-slate-700 transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]";
+
+/** Who is signed in and with which role, for the header. Signed-out visitors are viewers. */
+export function AccountMenu({
+  identity,
+  error,
+  onSignIn,
+  onSignOut,
+}: {
+  identity: Identity | null;
+  error: string | null;
+  /** Left out when there is no login to go to, e.g. when an embedding host owns sign-in. */
+  onSignIn: (() => void) | null;
+  onSignOut: (() => void) | null;
+}) {
+  return (
+    <span className="inline-flex items-center gap-2">
+      <span
+        className="inline-flex items-center gap-1 text-xs text-slate-600"
+        title={identity ? `Signed in until ${new Date(identity.expiresAt).toLocaleString()}` : (error ?? undefined)}
+      >
+        <UserRound className="h-3.5 w-3.5" aria-hidden="true" />
+        {identity ? <span className="font-medium text-[#0f172b]">{identity.name}</span> : null}
+        <span className="rounded-full border border-slate-200 bg-slate-50 px-2 py-0.5 text-[11px] font-semibold text-slate-600">
+          {ROLE_LABEL[identity?.role ?? "viewer"]}
+        </span>
+      </span>
+      {error ? <span className="text-xs text-red-600">{error}</span> : null}
+      {identity && onSignOut ? (
+        <button type="button" onClick={onSignOut} className={buttonClass}>
+          <LogOut className="h-3.5 w-3.5" aria-hidden="true" />
+          Sign out
+        </button>
+      ) : null}
+      {!identity && onSignIn ? (
+        <button type="button" onClick={onSignIn} className={buttonClass}>
+          <LogIn className="h-3.5 w-3.5" aria-hidden="true" />
+          Sign in
+        </button>
+      ) : null}
+    </span>
+  );
+}
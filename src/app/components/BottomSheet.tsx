@@ -0,0 +1,61 @@
+import * as React from "react";
+import { ChevronUp } from "lucide-react";
+
+// Vertical travel on the handle that counts as dragging the sheet up or down.
+const DRAG_MIN_PX = 30;
+
+/**
+ * Phone version of a side panel: pinned to the bottom of the screen, showing only `summary` until
+ * it is tapped or dragged up. It keeps the selection it describes, like the panel does.
+ */
+export function BottomSheet({
+  label,
+  summary,
+  expanded,
+  onExpandedChange,
+  children,
+}: {
+  label: string;
+  summary: React.ReactNode;
+  expanded: boolean;
+  onExpandedChange: (expanded: boolean) => void;
+  children: React.ReactNode;
+}) {
+  const dragStartRef = React.useRef<number | null>(null);
+
+  return (
+    <section
+      aria-label={label}
+      data-keep-selection="true"
+      className="fixed inset-x-0 bottom-0 z-[800] flex max-h-[75vh] flex-col rounded-t-[20px] border-t border-[#e2e8f0] bg-white shadow-[0px_-10px_25px_-5px_rgba(0,0,0,0.15)]"
+    >
+      <button
+        type="button"
+        onClick={() => onExpandedChange(!expanded)}
+        onTouchStart={(e) => {
+          dragStartRef.current = e.touches[0].clientY;
+        }}
+        onTouchEnd={(e) => {
+          const start = dragStartRef.current;
+          dragStartRef.current = null;
+          if (start === null) return;
+          const dy = e.changedTouches[0].clientY - start;
+          if (dy <= -DRAG_MIN_PX) onExpandedChange(true);
+          else if (dy >= DRAG_MIN_PX) onExpandedChange(false);
+        }}
+        aria-expanded={expanded}
+        className="flex w-full shrink-0 flex-col items-center gap-2 px-4 pb-3 pt-2 focus:outline-none focus-visible:ring-2 focus-visible:ring-[#93c5fd]"
+      >
+        <span className="h-1 w-10 rounded-full bg-slate-300" aria-hidden="true" />
+        <span className="flex w-full items-center justify-between gap-2 text-left text-sm font-semibold text-[#0f172b]">
+          {summary}
+          <ChevronUp
+            className={`h-4 w-4 shrink-0 text-slate-500 transition-transform ${expanded ? "rotate-180" : ""}`}
+            aria-hidden="true"
+          />
+        </span>
+      </button>
+      {expanded ? <div className="overflow-y-auto px-4 pb-4">{children}</div> : null}
+    </section>
+  );
+}
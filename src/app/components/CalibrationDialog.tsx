@@ -0,0 +1,249 @@
+import * as React from "react";
+import { Gauge, Trash2, X } from "lucide-react";
+
+import { distanceFromEntrance, shortestPaths, type AisleGraph } from "../lib/aisleGraph";
+import { buildCode, parseLocationCode } from "../lib/layout";
+import {
+  estimateTravelSeconds,
+  fitTravelModel,
+  travelErrorStats,
+  type TravelCalibration,
+  type TravelMeasurement,
+  type TravelModel,
+} from "../lib/travelTime";
+
+const inputClass =
+  "h-9 rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-sm outline-none focus:ring-2 focus:ring-[#93c5fd]";
+
+export function CalibrationDialog({
+  graph,
+  calibration,
+  onSave,
+  onClose,
+}: {
+  graph: AisleGraph;
+  calibration: TravelCalibration;
+  /** `null` resets the site to the layout's own model and measurements. */
+  onSave: (calibration: TravelCalibration | null) => void;
+  onClose: () => void;
+}) {
+  const [measurements, setMeasurements] = React.useState<TravelMeasurement[]>(calibration.measurements);
+  const [model, setModel] = React.useState<TravelModel>(calibration.model);
+  const [newCode, setNewCode] = React.useState("");
+  const [newSeconds, setNewSeconds] = React.useState("");
+  const [error, setError] = React.useState<string | null>(null);
+
+  const paths = React.useMemo(() => shortestPaths(graph, graph.entrance), [graph]);
+  const stats = React.useMemo(() => travelErrorStats(graph, model, measurements), [graph, model, measurements]);
+
+  React.useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const addMeasurement = () => {
+    const loc = parseLocationCode(graph.layout, newCode);
+    const seconds = Number(newSeconds);
+    if (!loc) return setError(`${newCode || "Code"} is not a storage spot (use ROW-AISLE-SPOT).`);
+    if (!newSeconds.trim() || !Number.isFinite(seconds) || seconds < 0) return setError("Enter the measured seconds.");
+    const code = buildCode(loc.row, loc.aisle, loc.spot);
+    setMeasurements((prev) => [...prev.filter((m) => m.code !== code), { code, seconds }]);
+    setNewCode("");
+    setNewSeconds("");
+    setError(null);
+  };
+
+  const setModelField = (key: keyof TravelModel, value: string) => {
+    const n = Number(value);
+    if (Number.isFinite(n) && (key === "handlingSeconds" ? n >= 0 : n > 0)) setModel((m) => ({ ...m, [key]: n }));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[900] flex items-center justify-center bg-black/40 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="calibration-title"
+    >
+      <div className="flex max-h-full w-full max-w-2xl flex-col overflow-hidden rounded-[16px] border border-[#e2e8f0] bg-white shadow-[0px_25px_50px_-12px_rgba(0,0,0,0.25)]">
+        <div className="flex items-center justify-between border-b border-[#e2e8f0] px-5 py-4">
+          <h2 id="calibration-title" className="flex items-center gap-2 text-lg font-semibold text-[#0f172b]">
+            <Gauge className="h-5 w-5 text-[#1e3a8a]" />
+            Walk-Time Calibration • {graph.layout.client}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close calibration"
+            className="rounded-[10px] p-1.5 text-slate-500 hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-auto px-5 py-4">
+          <p className="text-sm text-slate-600">
+            Enter measured walk times from the {graph.layout.compass[graph.layout.entranceSide]} entrance. The model is
+            fitted as <span className="font-mono">distance ÷ speed + handling</span> over the aisle graph.
+          </p>
+
+          <div className="overflow-hidden rounded-[12px] border border-[#e2e8f0]">
+            <table className="w-full text-sm">
+              <thead className="bg-[#f8fafc] text-xs text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold">Location</th>
+                  <th className="px-3 py-2 text-right font-semibold">Distance</th>
+                  <th className="px-3 py-2 text-right font-semibold">Measured</th>
+                  <th className="px-3 py-2 text-right font-semibold">Predicted</th>
+                  <th className="px-3 py-2 text-right font-semibold">Error</th>
+                  <th className="w-10" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {measurements.map((m) => {
+                  const predicted = estimateTravelSeconds(graph, model, m.code, paths);
+                  const err = predicted - m.seconds;
+                  return (
+                    <tr key={m.code}>
+                      <td className="px-3 py-1.5 font-mono font-semibold text-[#1e3a8a]">{m.code}</td>
+                      <td className="px-3 py-1.5 text-right text-slate-500">
+                        {Math.round(distanceFromEntrance(graph, m.code, paths))} m
+                      </td>
+                      <td className="px-3 py-1.5 text-right">{m.seconds} s</td>
+                      <td className="px-3 py-1.5 text-right">{Math.round(predicted)} s</td>
+                      <td className={`px-3 py-1.5 text-right ${Math.abs(err) > 10 ? "text-red-600" : "text-slate-600"}`}>
+                        {err >= 0 ? "+" : ""}
+                        {Math.round(err)} s
+                      </td>
+                      <td className="px-2 py-1.5 text-right">
+                        <button
+                          type="button"
+                          onClick={() => setMeasurements((prev) => prev.filter((x) => x.code !== m.code))}
+                          aria-label={`Remove ${m.code}`}
+                          className="rounded-md p-1 text-slate-400 hover:bg-slate-100 hover:text-red-600"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {!measurements.length ? (
+                  <tr>
+                    <td colSpan={6} className="px-3 py-4 text-center text-sm text-slate-500">
+                      No measurements yet.
+                    </td>
+                  </tr>
+                ) : null}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={newCode}
+              onChange={(e) => setNewCode(e.target.value.toUpperCase())}
+              placeholder="I-2-7"
+              aria-label="Location code"
+              className={`${inputClass} w-28 font-mono`}
+            />
+            <input
+              value={newSeconds}
+              onChange={(e) => setNewSeconds(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && addMeasurement()}
+              placeholder="Seconds"
+              inputMode="decimal"
+              aria-label="Measured seconds"
+              className={`${inputClass} w-28`}
+            />
+            <button
+              type="button"
+              onClick={addMeasurement}
+              className="h-9 rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Add measurement
+            </button>
+            {error ? <span className="text-xs text-red-600">{error}</span> : null}
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div className="space-y-2 rounded-[14px] border border-[#bfdbfe] bg-[#eff6ff] p-4 text-sm">
+              <div className="font-semibold text-[#1e3a8a]">Model</div>
+              <label className="flex items-center justify-between gap-2">
+                <span className="text-slate-600">Walking speed (m/s)</span>
+                <input
+                  key={`speed-${model.walkSpeedMps}`}
+                  defaultValue={model.walkSpeedMps.toFixed(2)}
+                  onBlur={(e) => setModelField("walkSpeedMps", e.target.value)}
+                  inputMode="decimal"
+                  className={`${inputClass} w-24 text-right`}
+                />
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                <span className="text-slate-600">Handling per spot (s)</span>
+                <input
+                  key={`handling-${model.handlingSeconds}`}
+                  defaultValue={model.handlingSeconds.toFixed(1)}
+                  onBlur={(e) => setModelField("handlingSeconds", e.target.value)}
+                  inputMode="decimal"
+                  className={`${inputClass} w-24 text-right`}
+                />
+              </label>
+              <button
+                type="button"
+                onClick={() => setModel(fitTravelModel(graph, measurements, model))}
+                disabled={!measurements.length}
+                className="mt-1 inline-flex h-9 w-full items-center justify-center rounded-[10px] bg-[#1E3A8A] px-3 text-sm font-medium text-white hover:bg-[#1D4ED8] disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Fit to measurements
+              </button>
+            </div>
+
+            <div className="space-y-1 rounded-[14px] border border-green-200 bg-green-50 p-4 text-sm text-green-900">
+              <div className="font-semibold text-green-700">Error statistics</div>
+              <p>Measurements: {stats.count}</p>
+              <p>Mean absolute error: {stats.meanAbsError.toFixed(1)} s</p>
+              <p>RMSE: {stats.rmse.toFixed(1)} s</p>
+              <p>Largest error: {stats.maxAbsError.toFixed(1)} s</p>
+              <p>
+                Bias: {stats.bias >= 0 ? "+" : ""}
+                {stats.bias.toFixed(1)} s
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-2 border-t border-[#e2e8f0] px-5 py-3">
+          <button
+            type="button"
+            onClick={() => {
+              onSave(null);
+              onClose();
+            }}
+            className="mr-auto h-9 rounded-[10px] px-3 text-sm font-medium text-red-700 hover:bg-red-50"
+          >
+            Reset to layout defaults
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="h-9 rounded-[10px] border border-[#e2e8f0] bg-white px-4 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              onSave({ model, measurements });
+              onClose();
+            }}
+            className="h-9 rounded-[10px] bg-[#1E3A8A] px-4 text-sm font-medium text-white hover:bg-[#1D4ED8]"
+          >
+            Save calibration
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
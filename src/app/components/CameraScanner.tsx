@@ -0,0 +1,124 @@
+import * as React from "react";
+import { Camera, X } from "lucide-react";
+
+import { createBarcodeDetector } from "../lib/scanner";
+
+// Checking every frame burns tablet battery; a few times a second is plenty for a held-up label.
+const DETECT_INTERVAL_MS = 250;
+
+export function CameraScanner({ onDetected, onClose }: { onDetected: (label: string) => void; onClose: () => void }) {
+  const videoRef = React.useRef<HTMLVideoElement | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const onDetectedRef = React.useRef(onDetected);
+  onDetectedRef.current = onDetected;
+
+  React.useEffect(() => {
+    const detector = createBarcodeDetector();
+    if (!detector) {
+      setError("This browser can't read barcodes from the camera. Use a handheld scanner or type the code.");
+      return;
+    }
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("No camera is available here. Use a handheld scanner or type the code.");
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const tick = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+      if (video.readyState >= 2) {
+        try {
+          const [code] = await detector.detect(video);
+          if (code?.rawValue && !stopped) {
+            onDetectedRef.current(code.rawValue);
+            return;
+          }
+        } catch {
+          // A frame the detector can't handle; try the next one.
+        }
+      }
+      timer = window.setTimeout(tick, DETECT_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" }, audio: false })
+      .then((s) => {
+        // Closed while the permission prompt was up: cleanup has already run, so stop it here.
+        if (stopped) {
+          s.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        stream = s;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = s;
+        void video.play();
+        tick();
+      })
+      .catch((err: Error) => {
+        setError(
+          err.name === "NotAllowedError"
+            ? "Camera access was denied. Allow it in the browser settings, or use a handheld scanner."
+            : `The camera couldn't start: ${err.message}`,
+        );
+      });
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, []);
+
+  React.useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[900] flex items-center justify-center bg-black/60 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="camera-scanner-title"
+    >
+      <div className="w-full max-w-lg overflow-hidden rounded-[16px] border border-[#e2e8f0] bg-white shadow-[0px_25px_50px_-12px_rgba(0,0,0,0.25)]">
+        <div className="flex items-center justify-between border-b border-[#e2e8f0] px-5 py-4">
+          <h2 id="camera-scanner-title" className="flex items-center gap-2 text-lg font-semibold text-[#0f172b]">
+            <Camera className="h-5 w-5 text-[#1e3a8a]" />
+            Scan a Location Label
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close camera"
+            className="rounded-[10px] p-1.5 text-slate-500 hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="p-4">
+          {error ? (
+            <p className="rounded-[12px] border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</p>
+          ) : (
+            <>
+              <video
+                ref={videoRef}
+                muted
+                playsInline
+                className="aspect-[4/3] w-full rounded-[12px] bg-black object-cover"
+              />
+              <p className="mt-2 text-center text-xs text-slate-500">Hold the barcode or QR code inside the frame.</p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
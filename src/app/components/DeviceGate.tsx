@@ -31,12 +31,16 @@ function getDeviceMode(): { mode: DeviceMode; width: number; height: number } {
   return { mode, width, height };
 }
 
+/**
+ * Works out what kind of device this is and lets `children` pick a layout for it: phones get the
+ * one-line-at-a-time floor plan, tablets and desktops the full grid.
+ */
 export function DeviceGate({
   children,
 }: {
   children: (info: { mode: DeviceMode; isTablet: boolean; isDesktop: boolean }) => React.ReactNode;
 }) {
-  const [{ mode, width, height }, setInfo] = React.useState(() => getDeviceMode());
+  const [{ mode }, setInfo] = React.useState(() => getDeviceMode());
 
   React.useEffect(() => {
     let raf = 0;
@@ -53,27 +57,6 @@ export function DeviceGate({
     };
   }, []);
 
-  if (mode === "phone") {
-    return (
-      <div className="fixed inset-0 z-[1000] flex min-h-screen items-center justify-center bg-[#0b1220] px-6 text-white">
-        <div className="w-full max-w-[520px] rounded-[20px] border border-white/10 bg-white/5 p-6 shadow-[0px_25px_50px_-12px_rgba(0,0,0,0.45)] backdrop-blur">
-          <div className="text-2xl font-semibold leading-tight">Desktop Required</div>
-          <div className="mt-2 text-sm leading-relaxed text-white/80">
-            This training tool is not available on mobile. Please open it on a desktop or tablet.
-          </div>
-
-          <div className="mt-5 rounded-[14px] border border-white/10 bg-white/5 p-4 text-sm text-white/85">
-            <div className="font-semibold text-white">Current screen</div>
-            <div className="mt-1 font-mono text-xs text-white/70">
-              {width}×{height}
-            </div>
-            <div className="mt-2 text-xs text-white/65">Tip: Tablets are supported; phones are blocked.</div>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
   return <>{children({ mode, isTablet: mode === "tablet", isDesktop: mode === "desktop" })}</>;
 }
 
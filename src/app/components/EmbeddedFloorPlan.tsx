@@ -0,0 +1,141 @@
+import * as React from "react";
+import { ShieldAlert } from "lucide-react";
+
+import { IdentityTokenError, verifyIdentityToken } from "../lib/auth";
+import {
+  EMBED_CHANNEL,
+  EMBED_PROTOCOL_VERSION,
+  isAllowedEmbedOrigin,
+  parseHostMessage,
+  type FloorPlanEvent,
+  type HostMessage,
+} from "../lib/embed";
+import { InventoryImportError, toSlotRecords, type SlotRecord } from "../lib/inventory";
+import { parseLocationCode, qualifyCode, type Location } from "../lib/layout";
+import { resolveLocation } from "../lib/search";
+import { DEFAULT_LAYOUT, getSiteLayout } from "../lib/sites";
+import { readUrlParam } from "../lib/urlState";
+import type { EntranceView } from "../types";
+import { WarehouseFloorPlan } from "./WarehouseFloorPlan";
+
+/**
+ * The floor plan as an iframe widget (`/?embed=1&host=<origin>&site=<id>&view=<side>`). It only
+ * talks to the window that framed it, and only when `host` is an allowed origin.
+ */
+export function EmbeddedFloorPlan() {
+  const layout = React.useMemo(() => getSiteLayout(readUrlParam("site")) ?? DEFAULT_LAYOUT, []);
+  const hostOrigin = React.useMemo(() => readUrlParam("host")?.replace(/\/+$/, "") ?? null, []);
+  const connected = window.parent !== window && !!hostOrigin && isAllowedEmbedOrigin(hostOrigin);
+
+  const [entranceView, setEntranceView] = React.useState<EntranceView>(() => {
+    const view = readUrlParam("view");
+    return view === "left" || view === "top" ? view : "bottom";
+  });
+  const [selectRequest, setSelectRequest] = React.useState<{ location: Location | null }>();
+  const [highlightCodes, setHighlightCodes] = React.useState<string[]>();
+  const [inventoryRecords, setInventoryRecords] = React.useState<SlotRecord[]>();
+  // The host owns sign-in; until it sends a token the widget is read-only.
+  const [identityToken, setIdentityToken] = React.useState<string | null>(null);
+  const identityRequestRef = React.useRef(0);
+
+  const post = React.useCallback(
+    (event: FloorPlanEvent) => {
+      if (connected) window.parent.postMessage({ ...event, channel: EMBED_CHANNEL }, hostOrigin!);
+    },
+    [connected, hostOrigin],
+  );
+
+  const handleMessage = (message: HostMessage) => {
+    switch (message.type) {
+      case "select": {
+        const location = resolveLocation(layout, message.code);
+        if (location) setSelectRequest({ location });
+        else post({ type: "error", message: `${message.code} is not a location in ${layout.id}.`, problems: [] });
+        return;
+      }
+      case "clearSelection":
+        setSelectRequest({ location: null });
+        return;
+      case "highlight": {
+        const unknown = message.codes.filter((c) => !parseLocationCode(layout, c));
+        setHighlightCodes(message.codes.filter((c) => !unknown.includes(c)));
+        if (unknown.length) {
+          post({ type: "error", message: `${unknown.length} highlight code(s) are not storage spots.`, problems: unknown });
+        }
+        return;
+      }
+      case "setInventory":
+        try {
+          setInventoryRecords(toSlotRecords(layout, message.records, "host inventory"));
+        } catch (err) {
+          const problems = err instanceof InventoryImportError ? err.problems : [];
+          post({ type: "error", message: (err as Error).message, problems });
+        }
+        return;
+      case "setEntranceView":
+        setEntranceView(message.view);
+        return;
+      case "setIdentity": {
+        const token = message.token;
+        const request = ++identityRequestRef.current;
+        if (!token) {
+          setIdentityToken(null);
+          return;
+        }
+        // Verification is async; a newer setIdentity wins over one still being checked.
+        verifyIdentityToken(token).then(
+          () => {
+            if (request === identityRequestRef.current) setIdentityToken(token);
+          },
+          (err: Error) => {
+            if (request !== identityRequestRef.current) return;
+            const problems = err instanceof IdentityTokenError ? err.problems : [];
+            post({ type: "error", message: err.message, problems });
+            setIdentityToken(null);
+          },
+        );
+        return;
+      }
+    }
+  };
+  const handleMessageRef = React.useRef(handleMessage);
+  handleMessageRef.current = handleMessage;
+
+  React.useEffect(() => {
+    if (!connected) return;
+    const onMessage = (e: MessageEvent) => {
+      if (e.source !== window.parent || e.origin !== hostOrigin) return;
+      const message = parseHostMessage(e.data);
+      if (message) handleMessageRef.current(message);
+    };
+    window.addEventListener("message", onMessage);
+    post({ type: "ready", version: EMBED_PROTOCOL_VERSION, site: layout.id });
+    return () => window.removeEventListener("message", onMessage);
+  }, [connected, hostOrigin, layout, post]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#f1f5f9] to-[#e2e8f0] p-3">
+      {!connected ? (
+        <div className="mb-3 flex items-center gap-2 rounded-[12px] border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          <ShieldAlert className="h-4 w-4 shrink-0" aria-hidden="true" />
+          {hostOrigin
+            ? `${hostOrigin} is not an allowed host; the integration API is off.`
+            : "Embedded without a host origin; the integration API is off."}
+        </div>
+      ) : null}
+      <WarehouseFloorPlan
+        layout={layout}
+        entranceView={entranceView}
+        selectRequest={selectRequest}
+        highlightCodes={highlightCodes}
+        inventoryRecords={inventoryRecords}
+        identityToken={identityToken}
+        syncUrl={false}
+        onSelect={(location, slot) =>
+          post({ type: "select", code: location.code, qualifiedCode: qualifyCode(layout, location.code), location, slot })
+        }
+        onClearSelection={() => post({ type: "clearSelection" })}
+      />
+    </div>
+  );
+}
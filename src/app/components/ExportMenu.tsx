@@ -0,0 +1,89 @@
+import * as React from "react";
+import { ChevronDown, Download } from "lucide-react";
+
+import { downloadBlob } from "../lib/download";
+import { pageToSvg, svgToPng } from "../lib/drawing";
+import { drawFloorPlan, floorPlanFileName, type FloorPlanSnapshot } from "../lib/floorPlanExport";
+import { drawingToPdf } from "../lib/pdf";
+
+type ExportFormat = "svg" | "png" | "pdf";
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "svg", label: "SVG (scalable)" },
+  { format: "pdf", label: "PDF (poster size)" },
+  { format: "png", label: "PNG image" },
+];
+
+// About 300 dpi, enough for a crisp briefing handout.
+const PNG_PX_PER_MM = 12;
+
+export function ExportMenu({ snapshot }: { snapshot: () => Omit<FloorPlanSnapshot, "exportedAt"> }) {
+  const [open, setOpen] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const rootRef = React.useRef<HTMLDivElement | null>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("pointerdown", onPointerDown);
+    return () => document.removeEventListener("pointerdown", onPointerDown);
+  }, [open]);
+
+  const exportAs = async (format: ExportFormat) => {
+    setOpen(false);
+    setError(null);
+    const exportedAt = new Date();
+    const current = snapshot();
+    const { ops, size } = drawFloorPlan({ ...current, exportedAt });
+    const name = floorPlanFileName(current.layout, exportedAt);
+    try {
+      if (format === "pdf") downloadBlob(drawingToPdf([ops], size), `${name}.pdf`);
+      else {
+        const svg = pageToSvg(ops, size);
+        if (format === "svg") downloadBlob(new Blob([svg], { type: "image/svg+xml" }), `${name}.svg`);
+        else downloadBlob(await svgToPng(svg, size, PNG_PX_PER_MM), `${name}.png`);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    // Exports include the selection, so opening the menu mustn't count as a click-away.
+    <div ref={rootRef} className="relative" data-keep-selection="true">
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        className="inline-flex items-center gap-1.5 rounded-[10px] border border-[#e2e8f0] bg-white px-3 py-1 text-xs font-medium text-slate-700 transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+      >
+        <Download className="h-3.5 w-3.5" aria-hidden="true" />
+        Export
+        <ChevronDown className="h-3.5 w-3.5" aria-hidden="true" />
+      </button>
+      {open ? (
+        <ul
+          role="menu"
+          className="absolute right-0 top-full z-30 mt-1 w-44 rounded-[12px] border border-[#e2e8f0] bg-white py-1 shadow-lg"
+        >
+          {FORMATS.map(({ format, label }) => (
+            <li key={format} role="none">
+              <button
+                type="button"
+                role="menuitem"
+                onClick={() => exportAs(format)}
+                className="w-full px-3 py-2 text-left text-sm text-slate-700 hover:bg-slate-50"
+              >
+                {label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {error ? <p className="absolute right-0 top-full mt-1 w-56 text-xs text-red-600">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import * as React from "react";
+import { Flame, Trash2, Upload } from "lucide-react";
+
+import {
+  formatHeatValue,
+  HEAT_COLORS,
+  HEAT_METRIC_LABEL,
+  HEAT_METRICS,
+  ordinal,
+  type HeatMap,
+  type HeatMetric,
+  type PickHistory,
+} from "../lib/heatmap";
+
+/** Readable text on each heat color. */
+export const HEAT_TEXT_CLASS = ["text-slate-700", "text-slate-800", "text-slate-900", "text-white", "text-white"];
+
+const toggleClass = (active: boolean) =>
+  `rounded-[10px] px-3 py-1.5 text-xs font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-[#93c5fd] ${
+    active ? "bg-[#1E3A8A] text-white" : "border border-[#e2e8f0] bg-white text-slate-700 hover:bg-slate-50"
+  }`;
+
+export function HeatMapControls({
+  metric,
+  heatMap,
+  history,
+  error,
+  onMetricChange,
+  onImport,
+  onClearHistory,
+}: {
+  metric: HeatMetric | null;
+  heatMap: HeatMap | null;
+  history: PickHistory | null;
+  error: string | null;
+  onMetricChange: (metric: HeatMetric | null) => void;
+  /** Left out for people who may not import or clear pick history. */
+  onImport?: (file: File) => void;
+  onClearHistory?: () => void;
+}) {
+  const fileRef = React.useRef<HTMLInputElement | null>(null);
+  const mapped = heatMap ? Object.keys(heatMap.values).length : 0;
+
+  return (
+    <div className="mb-3 space-y-2 rounded-[12px] border border-[#e2e8f0] bg-[#f8fafc] px-3 py-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="inline-flex items-center gap-1.5 text-xs font-semibold text-slate-600">
+          <Flame className="h-3.5 w-3.5 text-orange-500" aria-hidden="true" />
+          Heat map
+        </span>
+        <button type="button" onClick={() => onMetricChange(null)} aria-pressed={!metric} className={toggleClass(!metric)}>
+          Off
+        </button>
+        {HEAT_METRICS.map((m) => (
+          <button
+            key={m}
+            type="button"
+            onClick={() => onMetricChange(m)}
+            aria-pressed={metric === m}
+            className={toggleClass(metric === m)}
+          >
+            {HEAT_METRIC_LABEL[m]}
+          </button>
+        ))}
+
+        {onImport ? (
+          <>
+            <button
+              type="button"
+              onClick={() => fileRef.current?.click()}
+              className="ml-auto inline-flex items-center gap-1.5 rounded-[10px] border border-[#e2e8f0] bg-white px-3 py-1.5 text-xs font-medium text-slate-700 transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+            >
+              <Upload className="h-3.5 w-3.5" aria-hidden="true" />
+              Import pick history (CSV)
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = "";
+              }}
+            />
+          </>
+        ) : null}
+      </div>
+
+      {history ? (
+        <p className="flex items-center gap-2 text-xs text-slate-500">
+          {history.total} picks from {history.fileName}, {new Date(history.from).toLocaleDateString()} –{" "}
+          {new Date(history.to).toLocaleDateString()}
+          {onClearHistory ? (
+            <button
+              type="button"
+              onClick={onClearHistory}
+              aria-label="Remove pick history"
+              className="rounded-md p-0.5 text-slate-400 hover:bg-slate-100 hover:text-red-600"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          ) : null}
+        </p>
+      ) : null}
+
+      {metric && heatMap ? (
+        mapped ? (
+          <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+            {heatMap.bins.map((bin, i) =>
+              bin.min <= bin.max ? (
+                <span key={i} className="inline-flex items-center gap-1.5">
+                  <span className="inline-block h-3 w-3 rounded-sm border border-black/10" style={{ background: HEAT_COLORS[i] }} />
+                  {bin.min === bin.max
+                    ? formatHeatValue(metric, bin.min)
+                    : `${formatHeatValue(metric, bin.min)} – ${formatHeatValue(metric, bin.max)}`}
+                </span>
+              ) : null,
+            )}
+            <span className="text-slate-400">Each color spans 20 percentile points of {mapped} mapped spots.</span>
+          </div>
+        ) : (
+          <p className="text-xs text-slate-500">
+            {metric === "pickFrequency"
+              ? "Import a pick history CSV (code,pickedAt) to map pick frequency."
+              : "No occupied spots with a last-moved time yet."}
+          </p>
+        )
+      ) : null}
+
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+    </div>
+  );
+}
+
+/** Where one spot ranks on every metric that has data, for the selected-location panel. */
+export function HeatPercentiles({ code, heatMaps }: { code: string; heatMaps: Record<HeatMetric, HeatMap> }) {
+  const rows = HEAT_METRICS.filter((m) => heatMaps[m].values[code] !== undefined);
+  if (!rows.length) return null;
+  return (
+    <div className="pt-2">
+      <h4 className="text-xs font-semibold text-gray-700 mb-2">Heat map percentiles</h4>
+      <div className="space-y-1 text-xs text-slate-600">
+        {rows.map((m) => (
+          <p key={m}>
+            <span className="font-medium">{HEAT_METRIC_LABEL[m]}:</span> {formatHeatValue(m, heatMaps[m].values[code])} •{" "}
+            {ordinal(heatMaps[m].percentiles[code])} percentile
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import * as React from "react";
+
+import { Upload } from "lucide-react";
+import { SLOT_STATUSES, SLOT_STATUS_LABEL, type SlotStatus } from "../lib/inventory";
+
+/**
+ * Spot button colors per slot status; the selected ring is drawn on top of these. Blocked spots are
+ * hatched so they read as out of use rather than as "No storage".
+ */
+export const SLOT_STATUS_SPOT_CLASS: Record<SlotStatus, string> = {
+  occupied: "border-sky-300 bg-sky-100 text-sky-900",
+  empty: "border-gray-300 bg-white text-slate-600",
+  reserved: "border-violet-300 bg-violet-100 text-violet-900",
+  blocked: "border-rose-400 bg-[repeating-linear-gradient(135deg,#fecdd3_0_4px,#fda4af_4px_8px)] text-rose-950",
+};
+
+export function InventoryLegend({
+  loading,
+  error,
+  onImport,
+}: {
+  loading: boolean;
+  error: string | null;
+  /** Left out for people who may not import inventory. */
+  onImport?: (file: File) => void;
+}) {
+  const fileRef = React.useRef<HTMLInputElement | null>(null);
+
+  return (
+    <div className="mb-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+          {SLOT_STATUSES.map((status) => (
+            <span key={status} className="inline-flex items-center gap-1.5">
+              <span className={`inline-block h-3 w-3 rounded-sm border ${SLOT_STATUS_SPOT_CLASS[status]}`} />
+              {SLOT_STATUS_LABEL[status]}
+            </span>
+          ))}
+          {loading ? <span className="text-slate-400">Loading inventory…</span> : null}
+        </div>
+
+        {onImport ? (
+          <>
+            <button
+              type="button"
+              onClick={() => fileRef.current?.click()}
+              className="inline-flex items-center gap-1.5 rounded-[10px] border border-[#e2e8f0] bg-white px-3 py-1.5 text-xs font-medium text-slate-700 transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+            >
+              <Upload className="h-3.5 w-3.5" aria-hidden="true" />
+              Import inventory (CSV/JSON)
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = "";
+              }}
+            />
+          </>
+        ) : null}
+      </div>
+      {error ? <p className="mt-2 text-xs text-red-600">{error}</p> : null}
+    </div>
+  );
+}
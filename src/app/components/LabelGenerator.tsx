@@ -0,0 +1,210 @@
+import * as React from "react";
+import { createPortal } from "react-dom";
+import { ChevronLeft, ChevronRight, Download, Printer, Tags, X } from "lucide-react";
+
+import type { AisleGraph } from "../lib/aisleGraph";
+import { downloadBlob } from "../lib/download";
+import { pageToSvg } from "../lib/drawing";
+import { buildLabels, labelFileName, labelPages, LABEL_STOCKS, type LabelKind, type LabelScope } from "../lib/labels";
+import { getAisleNumbers, getRowCodes } from "../lib/layout";
+import { drawingToPdf } from "../lib/pdf";
+
+const selectClass =
+  "h-9 rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-sm outline-none focus:ring-2 focus:ring-[#93c5fd]";
+const secondaryButtonClass =
+  "inline-flex h-9 items-center gap-1.5 rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60";
+
+export function LabelGenerator({ graph, onClose }: { graph: AisleGraph; onClose: () => void }) {
+  const { layout } = graph;
+  const [scopeKind, setScopeKind] = React.useState<LabelScope["kind"]>("row");
+  const [row, setRow] = React.useState(getRowCodes(layout)[0]);
+  const [aisle, setAisle] = React.useState(1);
+  const [kind, setKind] = React.useState<LabelKind>("spot");
+  const [stockId, setStockId] = React.useState(LABEL_STOCKS[0].id);
+  const [outline, setOutline] = React.useState(false);
+  const [pageIndex, setPageIndex] = React.useState(0);
+
+  const stock = LABEL_STOCKS.find((s) => s.id === stockId) ?? LABEL_STOCKS[0];
+  const scope: LabelScope =
+    scopeKind === "floor" ? { kind: "floor" } : scopeKind === "row" ? { kind: "row", row } : { kind: "aisle", aisle };
+
+  const labels = React.useMemo(() => buildLabels(graph, scope, kind), [graph, scopeKind, row, aisle, kind]);
+  const pages = React.useMemo(() => labelPages(labels, stock, { outline }), [labels, stock, outline]);
+  const svgs = React.useMemo(() => pages.map((ops) => pageToSvg(ops, stock.page)), [pages, stock]);
+  const fileName = labelFileName(scope, kind, layout.id);
+
+  React.useEffect(() => setPageIndex(0), [svgs]);
+
+  React.useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const page = Math.min(pageIndex, Math.max(0, svgs.length - 1));
+
+  return (
+    <div
+      className="fixed inset-0 z-[900] flex items-center justify-center bg-black/40 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="label-generator-title"
+    >
+      <div className="flex max-h-full w-full max-w-4xl flex-col overflow-hidden rounded-[16px] border border-[#e2e8f0] bg-white shadow-[0px_25px_50px_-12px_rgba(0,0,0,0.25)]">
+        <div className="flex items-center justify-between border-b border-[#e2e8f0] px-5 py-4">
+          <h2 id="label-generator-title" className="flex items-center gap-2 text-lg font-semibold text-[#0f172b]">
+            <Tags className="h-5 w-5 text-[#1e3a8a]" />
+            Labels &amp; Aisle Signs • {layout.client}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close label generator"
+            className="rounded-[10px] p-1.5 text-slate-500 hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3 border-b border-[#e2e8f0] px-5 py-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-semibold text-slate-500">Print</span>
+            <select value={kind} onChange={(e) => setKind(e.target.value as LabelKind)} className={selectClass}>
+              <option value="spot">Spot labels (ROW-AISLE-SPOT)</option>
+              <option value="bay">Aisle signs (ROW-AISLE)</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-semibold text-slate-500">For</span>
+            <select
+              value={scopeKind}
+              onChange={(e) => setScopeKind(e.target.value as LabelScope["kind"])}
+              className={selectClass}
+            >
+              <option value="row">One row</option>
+              <option value="aisle">One aisle</option>
+              <option value="floor">Whole floor</option>
+            </select>
+          </label>
+          {scopeKind === "row" ? (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-semibold text-slate-500">Row</span>
+              <select value={row} onChange={(e) => setRow(e.target.value)} className={selectClass}>
+                {getRowCodes(layout).map((r) => (
+                  <option key={r} value={r}>
+                    Row {r}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+          {scopeKind === "aisle" ? (
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-semibold text-slate-500">Aisle</span>
+              <select value={aisle} onChange={(e) => setAisle(Number(e.target.value))} className={selectClass}>
+                {getAisleNumbers(layout).map((a) => (
+                  <option key={a} value={a}>
+                    Aisle {a}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-semibold text-slate-500">Label stock</span>
+            <select value={stockId} onChange={(e) => setStockId(e.target.value)} className={selectClass}>
+              {LABEL_STOCKS.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex h-9 items-center gap-2 text-slate-600">
+            <input
+              type="checkbox"
+              checked={outline}
+              onChange={(e) => setOutline(e.target.checked)}
+              className="h-4 w-4 rounded border-slate-300"
+            />
+            Cut lines
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-auto bg-slate-100 px-5 py-4">
+          {svgs.length ? (
+            <div
+              className="mx-auto w-fit max-w-full bg-white shadow-md [&>svg]:h-auto [&>svg]:max-h-[55vh] [&>svg]:max-w-full"
+              dangerouslySetInnerHTML={{ __html: svgs[page] }}
+            />
+          ) : (
+            <p className="text-center text-sm text-slate-500">No storage locations in this selection.</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 border-t border-[#e2e8f0] px-5 py-3">
+          <button
+            type="button"
+            onClick={() => setPageIndex(page - 1)}
+            disabled={page === 0}
+            aria-label="Previous page"
+            className={secondaryButtonClass}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="text-sm text-slate-600">
+            Page {svgs.length ? page + 1 : 0} of {svgs.length} • {labels.length} {labels.length === 1 ? "label" : "labels"}
+          </span>
+          <button
+            type="button"
+            onClick={() => setPageIndex(page + 1)}
+            disabled={page >= svgs.length - 1}
+            aria-label="Next page"
+            className={secondaryButtonClass}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+
+          <button
+            type="button"
+            onClick={() => downloadBlob(new Blob([svgs[page]], { type: "image/svg+xml" }), `${fileName}-p${page + 1}.svg`)}
+            disabled={!svgs.length}
+            className={`${secondaryButtonClass} ml-auto`}
+          >
+            <Download className="h-4 w-4" aria-hidden="true" />
+            SVG (this page)
+          </button>
+          <button
+            type="button"
+            onClick={() => downloadBlob(drawingToPdf(pages, stock.page), `${fileName}.pdf`)}
+            disabled={!pages.length}
+            className={secondaryButtonClass}
+          >
+            <Download className="h-4 w-4" aria-hidden="true" />
+            PDF
+          </button>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            disabled={!svgs.length}
+            className="inline-flex h-9 items-center gap-1.5 rounded-[10px] bg-[#1E3A8A] px-4 text-sm font-medium text-white hover:bg-[#1D4ED8] disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            <Printer className="h-4 w-4" aria-hidden="true" />
+            Print
+          </button>
+        </div>
+      </div>
+
+      {/* Print-only copy of every page at true size; see styles/print.css. */}
+      {createPortal(
+        <div className="print-root">
+          <style>{`@page { size: ${stock.page.widthMm}mm ${stock.page.heightMm}mm; margin: 0; }`}</style>
+          {svgs.map((svg, i) => (
+            <div key={i} className="print-page" dangerouslySetInnerHTML={{ __html: svg }} />
+          ))}
+        </div>,
+        document.body,
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import * as React from "react";
+import { Radio, RefreshCw } from "lucide-react";
+
+import type { LiveStatus } from "../lib/liveUpdates";
+
+/** Header badge for the live feed; nothing when no feed is configured. */
+export function LiveBadge({ status }: { status: LiveStatus }) {
+  if (status === "off") return null;
+  return status === "live" ? (
+    <span
+      className="inline-flex items-center gap-1 rounded-full border border-emerald-200 bg-emerald-50 px-3 py-1 text-xs font-semibold text-emerald-700"
+      title="Slot changes appear as they happen"
+    >
+      <Radio className="h-3.5 w-3.5" aria-hidden="true" />
+      Live
+    </span>
+  ) : (
+    <span
+      className="inline-flex items-center gap-1 rounded-full border border-amber-200 bg-amber-50 px-3 py-1 text-xs font-semibold text-amber-700"
+      title="The live feed dropped; retrying with increasing waits"
+    >
+      <RefreshCw className="h-3.5 w-3.5 motion-safe:animate-spin" aria-hidden="true" />
+      Reconnecting
+    </span>
+  );
+}
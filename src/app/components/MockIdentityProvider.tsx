@@ -0,0 +1,126 @@
+import * as React from "react";
+import { KeyRound, LogIn } from "lucide-react";
+
+import { createMockToken, ROLE_LABEL, ROLES, type Role } from "../lib/auth";
+import { readUrlParam } from "../lib/urlState";
+
+const MOCK_USERS: { subject: string; name: string; role: Role }[] = [
+  { subject: "mock-viewer", name: "Val Viewer", role: "viewer" },
+  { subject: "mock-picker", name: "Pat Picker", role: "picker" },
+  { subject: "mock-supervisor", name: "Sam Supervisor", role: "supervisor" },
+  { subject: "mock-admin", name: "Alex Admin", role: "admin" },
+];
+
+const inputClass =
+  "h-9 rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-sm outline-none focus:ring-2 focus:ring-[#93c5fd]";
+
+// Only this app's own pages can receive a token, so the mock can't be used to hand one elsewhere.
+function sameOriginRedirect(raw: string | null): URL | null {
+  if (!raw) return null;
+  try {
+    const url = new URL(raw);
+    return url.origin === window.location.origin ? url : null;
+  } catch {
+    // Not a URL at all.
+    return null;
+  }
+}
+
+/**
+ * Development stand-in for the JIM identity provider (`/?mock-idp=1`). It signs nobody in for real:
+ * it mints an unsigned ID token for any name and role and redirects back like the real login does.
+ * Opened without a `redirect_uri`, it shows the token instead, e.g. for the embed demo host.
+ */
+export function MockIdentityProvider() {
+  const redirect = React.useMemo(() => sameOriginRedirect(readUrlParam("redirect_uri")), []);
+  const state = React.useMemo(() => readUrlParam("state") ?? "", []);
+  const [name, setName] = React.useState("");
+  const [role, setRole] = React.useState<Role>("supervisor");
+  const [token, setToken] = React.useState<string | null>(null);
+
+  const signIn = (user: { subject: string; name: string; role: Role }) => {
+    const idToken = createMockToken(user);
+    if (!redirect) return setToken(idToken);
+    redirect.hash = new URLSearchParams({ id_token: idToken, state }).toString();
+    window.location.assign(redirect.toString());
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-[#f1f5f9] to-[#e2e8f0] px-4 py-10">
+      <div className="mx-auto w-full max-w-md rounded-[16px] border border-[#e2e8f0] bg-white p-6 shadow-[0px_1px_3px_0px_rgba(0,0,0,0.10),0px_1px_2px_-1px_rgba(0,0,0,0.10)]">
+        <h1 className="flex items-center gap-2 text-xl font-semibold text-[#1e3a8a]">
+          <KeyRound className="h-5 w-5" aria-hidden="true" />
+          Mock identity provider
+        </h1>
+        <p className="mt-1 text-xs text-amber-700">
+          Development only. Tokens are unsigned and are refused by builds without the mock enabled.
+        </p>
+
+        {readUrlParam("redirect_uri") && !redirect ? (
+          <p className="mt-3 text-xs text-red-600">The redirect address is not on this site; the token will be shown here.</p>
+        ) : null}
+
+        <div className="mt-4 space-y-2">
+          {MOCK_USERS.map((user) => (
+            <button
+              key={user.subject}
+              type="button"
+              onClick={() => signIn(user)}
+              className="flex w-full items-center justify-between rounded-[10px] border border-[#e2e8f0] bg-white px-3 py-2 text-left text-sm text-slate-700 transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+            >
+              <span className="font-medium text-[#0f172b]">{user.name}</span>
+              <span className="text-xs text-slate-500">{ROLE_LABEL[user.role]}</span>
+            </button>
+          ))}
+        </div>
+
+        <form
+          className="mt-4 space-y-2 border-t border-[#e2e8f0] pt-4 text-sm"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const trimmed = name.trim();
+            if (trimmed) signIn({ subject: `mock-${trimmed.toLowerCase().replace(/\W+/g, "-")}`, name: trimmed, role });
+          }}
+        >
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Any name"
+              aria-label="Name"
+              className={`${inputClass} min-w-0 flex-1`}
+            />
+            <select value={role} onChange={(e) => setRole(e.target.value as Role)} aria-label="Role" className={inputClass}>
+              {ROLES.map((r) => (
+                <option key={r} value={r}>
+                  {ROLE_LABEL[r]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="inline-flex h-9 items-center gap-1.5 rounded-[10px] bg-[#1E3A8A] px-4 text-sm font-medium text-white hover:bg-[#1D4ED8] disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            <LogIn className="h-4 w-4" aria-hidden="true" />
+            Sign in
+          </button>
+        </form>
+
+        {token ? (
+          <label className="mt-4 block text-xs text-slate-600">
+            <span className="font-medium">ID token</span>
+            <textarea
+              readOnly
+              value={token}
+              rows={4}
+              onFocus={(e) => e.target.select()}
+              className="mt-1 w-full rounded-[10px] border border-[#e2e8f0] bg-slate-50 p-2 font-mono text-[11px]"
+            />
+          </label>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import * as React from "react";
+
+import type { SlottingMove } from "../lib/slotting";
+import { centerIn, type Point } from "./RouteOverlay";
+
+/** from→to arrows for proposed slotting moves, measured from the rendered spots like `RouteOverlay`. */
+export function MoveOverlay({
+  moves,
+  containerRef,
+  spotRefs,
+  layoutKey,
+}: {
+  moves: SlottingMove[];
+  containerRef: React.RefObject<HTMLDivElement | null>;
+  spotRefs: React.RefObject<Record<string, HTMLButtonElement | null>>;
+  /** Changes whenever the grid is re-laid out (e.g. the entrance view). */
+  layoutKey: string;
+}) {
+  const [arrows, setArrows] = React.useState<Array<{ move: SlottingMove; from: Point; to: Point }>>([]);
+  const [size, setSize] = React.useState({ width: 0, height: 0 });
+
+  React.useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => {
+      const box = container.getBoundingClientRect();
+      setSize({ width: box.width, height: box.height });
+      setArrows(
+        moves.flatMap((move) => {
+          const from = spotRefs.current?.[move.from];
+          const to = spotRefs.current?.[move.to];
+          return from && to ? [{ move, from: centerIn(box, from), to: centerIn(box, to) }] : [];
+        }),
+      );
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [moves, containerRef, spotRefs, layoutKey]);
+
+  return (
+    <svg
+      className="pointer-events-none absolute inset-0 z-10"
+      width={size.width}
+      height={size.height}
+      viewBox={`0 0 ${size.width} ${size.height}`}
+      aria-hidden="true"
+    >
+      <defs>
+        <marker id="slotting-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+          <path d="M0,0 L10,5 L0,10 z" fill="#7c3aed" />
+        </marker>
+        <marker id="slotting-swap" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M0,0 L10,5 L0,10 z" fill="#7c3aed" />
+        </marker>
+      </defs>
+      {arrows.map(({ move, from, to }) => (
+        <g key={move.rank}>
+          <line
+            x1={from.x}
+            y1={from.y}
+            x2={to.x}
+            y2={to.y}
+            stroke="#7c3aed"
+            strokeWidth={2.5}
+            opacity={0.85}
+            markerEnd={move.kind === "swap" ? "url(#slotting-swap)" : "url(#slotting-arrow)"}
+            markerStart={move.kind === "swap" ? "url(#slotting-swap)" : undefined}
+          />
+          <circle cx={from.x} cy={from.y} r={8} fill="#7c3aed" stroke="#fff" strokeWidth={2} />
+          <text x={from.x} y={from.y} textAnchor="middle" dominantBaseline="central" fontSize={9} fontWeight={700} fill="#fff">
+            {move.rank}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
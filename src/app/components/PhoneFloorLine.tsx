@@ -0,0 +1,132 @@
+import * as React from "react";
+import { ChevronLeft, ChevronRight, Minus, Plus } from "lucide-react";
+
+import type { BayCell, GridHeader } from "../lib/entranceView";
+import { MAX_ZOOM, MIN_ZOOM, usePhoneGestures, type PhoneLine, type PhoneLineKind } from "../lib/phoneLayout";
+
+const iconButtonClass =
+  "inline-flex h-9 w-9 shrink-0 items-center justify-center rounded-[10px] border border-[#e2e8f0] bg-white text-slate-700 hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd] disabled:cursor-not-allowed disabled:opacity-40";
+
+const toggleClass = (active: boolean) =>
+  `rounded-[8px] px-2.5 py-1 text-xs font-medium transition-colors ${
+    active ? "bg-[#1E3A8A] text-white" : "border border-[#e2e8f0] bg-white text-slate-700 hover:bg-slate-50"
+  }`;
+
+export function lineLabel(header: GridHeader) {
+  return header.kind === "row" ? `Row ${header.row}` : `Aisle ${header.aisle}`;
+}
+
+/**
+ * The phone grid: one aisle or row at a time, stepped through with swipes or the arrows, and
+ * pinch-zoomed with two fingers. Bays are drawn by the caller.
+ */
+export function PhoneFloorLine({
+  lines,
+  index,
+  kind,
+  onIndexChange,
+  onKindChange,
+  renderBay,
+}: {
+  lines: PhoneLine[];
+  index: number;
+  kind: PhoneLineKind;
+  onIndexChange: (index: number) => void;
+  onKindChange: (kind: PhoneLineKind) => void;
+  renderBay: (cell: BayCell) => React.ReactNode;
+}) {
+  const step = (delta: number) => onIndexChange(Math.min(lines.length - 1, Math.max(0, index + delta)));
+  const { zoom, setZoom, handlers } = usePhoneGestures(step);
+  const line = lines[index];
+  if (!line) return null;
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => step(-1)}
+          disabled={index === 0}
+          aria-label={`Previous ${kind}`}
+          className={iconButtonClass}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <select
+          value={index}
+          onChange={(e) => onIndexChange(Number(e.target.value))}
+          aria-label={kind === "aisle" ? "Aisle" : "Row"}
+          className="h-9 min-w-0 flex-1 rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-center text-sm font-semibold text-[#1e3a8a] outline-none focus:ring-2 focus:ring-[#93c5fd]"
+        >
+          {lines.map((l, i) => (
+            <option key={i} value={i}>
+              {lineLabel(l.header)} ({i + 1} of {lines.length})
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => step(1)}
+          disabled={index === lines.length - 1}
+          aria-label={`Next ${kind}`}
+          className={iconButtonClass}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => onKindChange("aisle")}
+            aria-pressed={kind === "aisle"}
+            className={toggleClass(kind === "aisle")}
+          >
+            By aisle
+          </button>
+          <button
+            type="button"
+            onClick={() => onKindChange("row")}
+            aria-pressed={kind === "row"}
+            className={toggleClass(kind === "row")}
+          >
+            By row
+          </button>
+        </div>
+        <div className="flex items-center gap-1 text-xs text-slate-600">
+          <button
+            type="button"
+            onClick={() => setZoom(zoom - 0.5)}
+            disabled={zoom <= MIN_ZOOM}
+            aria-label="Zoom out"
+            className={iconButtonClass}
+          >
+            <Minus className="h-4 w-4" />
+          </button>
+          <span className="w-10 text-center tabular-nums">{Math.round(zoom * 100)}%</span>
+          <button
+            type="button"
+            onClick={() => setZoom(zoom + 0.5)}
+            disabled={zoom >= MAX_ZOOM}
+            aria-label="Zoom in"
+            className={iconButtonClass}
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="touch-pan-x touch-pan-y overflow-auto rounded-lg border border-gray-300" {...handlers}>
+        <div role="group" aria-label={lineLabel(line.header)} className="space-y-1 p-1" style={{ zoom }}>
+          {line.cells.map((cell) => (
+            <React.Fragment key={`${cell.row}-${cell.aisle}`}>{renderBay(cell)}</React.Fragment>
+          ))}
+        </div>
+      </div>
+      <p className="mt-2 text-center text-[11px] text-slate-400">
+        Swipe for the next or previous {kind}; pinch to zoom.
+      </p>
+    </div>
+  );
+}
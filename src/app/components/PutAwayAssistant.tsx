@@ -0,0 +1,258 @@
+import * as React from "react";
+import { Camera, PackagePlus, X } from "lucide-react";
+
+import type { AisleGraph } from "../lib/aisleGraph";
+import { formatMinutesSeconds } from "../lib/format";
+import type { SlotInventory, SlotItem } from "../lib/inventory";
+import { PALLET_SIZES, type PalletSize } from "../lib/layout";
+import {
+  PALLET_SIZE_LABEL,
+  suggestPutAway,
+  VELOCITY_CLASS_LABEL,
+  VELOCITY_CLASSES,
+  type PutAwaySuggestion,
+  type VelocityClass,
+} from "../lib/putAway";
+import type { TravelModel } from "../lib/travelTime";
+import { CameraScanner } from "./CameraScanner";
+
+const fieldClass =
+  "h-10 w-full rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-sm outline-none focus:ring-2 focus:ring-[#93c5fd]";
+
+export function PutAwayAssistant({
+  graph,
+  travelModel,
+  inventory,
+  onCandidatesChange,
+  onShow,
+  onConfirm,
+}: {
+  graph: AisleGraph;
+  travelModel: TravelModel;
+  inventory: SlotInventory;
+  /** The ranked spots to mark on the grid, or `null` to mark none. */
+  onCandidatesChange: (candidates: PutAwaySuggestion[] | null) => void;
+  onShow: (code: string) => void;
+  /** Records the put-away; without it the spots are only suggested. */
+  onConfirm?: (code: string, item: SlotItem) => void;
+}) {
+  const { layout } = graph;
+  const [sku, setSku] = React.useState("");
+  const [quantity, setQuantity] = React.useState("");
+  const [palletId, setPalletId] = React.useState("");
+  const [size, setSize] = React.useState<PalletSize>("standard");
+  const [weightKg, setWeightKg] = React.useState("");
+  const [velocity, setVelocity] = React.useState<VelocityClass>("medium");
+  const [cameraOpen, setCameraOpen] = React.useState(false);
+  const [done, setDone] = React.useState<string | null>(null);
+  const skuId = React.useId();
+
+  const skuKey = sku.trim().toUpperCase();
+  // A SKU already in the building brings its description along.
+  const description = React.useMemo(
+    () => (skuKey ? (Object.values(inventory).find((s) => s.sku === skuKey)?.description ?? null) : null),
+    [inventory, skuKey],
+  );
+  const qty = Number(quantity);
+  const kg = Number(weightKg);
+  const ready = !!skuKey && Number.isInteger(qty) && qty > 0 && weightKg !== "" && kg > 0;
+
+  const candidates = React.useMemo(
+    () =>
+      ready
+        ? suggestPutAway(graph, travelModel, inventory, {
+            sku: skuKey,
+            description,
+            quantity: qty,
+            palletId: palletId.trim() || null,
+            size,
+            weightKg: kg,
+            velocity,
+          })
+        : null,
+    [ready, graph, travelModel, inventory, skuKey, description, qty, palletId, size, kg, velocity],
+  );
+
+  React.useEffect(() => {
+    onCandidatesChange(candidates?.length ? candidates : null);
+  }, [candidates, onCandidatesChange]);
+
+  const reset = () => {
+    setSku("");
+    setQuantity("");
+    setPalletId("");
+    setWeightKg("");
+  };
+
+  const confirm = (code: string) => {
+    onConfirm?.(code, { sku: skuKey, description, quantity: qty, palletId: palletId.trim() || null });
+    setDone(`Put away ${skuKey} at ${code}.`);
+    reset();
+  };
+
+  return (
+    <div className="rounded-[16px] border border-[#e2e8f0] bg-white p-4 shadow-[0px_1px_3px_0px_rgba(0,0,0,0.10),0px_1px_2px_-1px_rgba(0,0,0,0.10)]">
+      <h2 className="text-lg font-semibold text-[#0f172b] mb-1 flex items-center gap-2">
+        <PackagePlus className="w-5 h-5 text-[#1e3a8a]" />
+        Put-away Assistant
+      </h2>
+      <p className="mb-4 text-xs text-slate-500">
+        Enter or scan the pallet at the {layout.compass[layout.entranceSide]} entrance to get the best empty spots for
+        it, ranked by walk time, nearness to the same SKU and rack capacity.
+      </p>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+        <div className="col-span-2 text-xs font-medium text-slate-600 sm:col-span-1">
+          <label htmlFor={skuId}>SKU</label>
+          <div className="mt-1 flex gap-1">
+            <input
+              id={skuId}
+              value={sku}
+              onChange={(e) => {
+                setSku(e.target.value);
+                setDone(null);
+              }}
+              placeholder="LB-1001"
+              className={`${fieldClass} font-mono`}
+            />
+            <button
+              type="button"
+              onClick={() => setCameraOpen(true)}
+              aria-label="Scan SKU with the camera"
+              className="inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-[10px] border border-[#e2e8f0] bg-white text-slate-700 hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+            >
+              <Camera className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+        <label className="text-xs font-medium text-slate-600">
+          Quantity
+          <input
+            type="number"
+            min={1}
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            className={`${fieldClass} mt-1`}
+          />
+        </label>
+        <label className="text-xs font-medium text-slate-600">
+          Pallet ID
+          <input value={palletId} onChange={(e) => setPalletId(e.target.value)} className={`${fieldClass} mt-1`} />
+        </label>
+        <label className="text-xs font-medium text-slate-600">
+          Size
+          <select
+            value={size}
+            onChange={(e) => setSize(e.target.value as PalletSize)}
+            className={`${fieldClass} mt-1`}
+          >
+            {PALLET_SIZES.map((s) => (
+              <option key={s} value={s}>
+                {PALLET_SIZE_LABEL[s]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-slate-600">
+          Weight (kg)
+          <input
+            type="number"
+            min={1}
+            value={weightKg}
+            onChange={(e) => setWeightKg(e.target.value)}
+            className={`${fieldClass} mt-1`}
+          />
+        </label>
+        <label className="text-xs font-medium text-slate-600">
+          Velocity
+          <select
+            value={velocity}
+            onChange={(e) => setVelocity(e.target.value as VelocityClass)}
+            className={`${fieldClass} mt-1`}
+          >
+            {VELOCITY_CLASSES.map((v) => (
+              <option key={v} value={v}>
+                {VELOCITY_CLASS_LABEL[v]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {description ? <p className="mt-2 text-xs text-slate-500">{description}</p> : null}
+      {done ? (
+        <p role="status" className="mt-3 text-sm text-green-700">
+          {done}
+        </p>
+      ) : null}
+
+      {candidates ? (
+        <div className="mt-4">
+          {candidates.length ? (
+            <ol
+              className="divide-y divide-slate-100 rounded-[12px] border border-[#e2e8f0] text-sm"
+              data-keep-selection="true"
+            >
+              {candidates.map((c) => (
+                <li key={c.code} className="px-3 py-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <button
+                      type="button"
+                      onClick={() => onShow(c.code)}
+                      className="min-w-0 text-left hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-[#93c5fd]"
+                    >
+                      <span className="mr-2 inline-flex h-5 w-5 items-center justify-center rounded-full bg-cyan-600 text-[11px] font-semibold text-white">
+                        {c.rank}
+                      </span>
+                      <span className="font-mono font-semibold text-[#0f172b]">{c.code}</span>
+                      <span className="ml-2 text-xs text-slate-500">{formatMinutesSeconds(c.walkSeconds)} walk</span>
+                    </button>
+                    {onConfirm ? (
+                      <button
+                        type="button"
+                        onClick={() => confirm(c.code)}
+                        className="inline-flex h-8 shrink-0 items-center rounded-[10px] bg-[#1E3A8A] px-3 text-xs font-medium text-white hover:bg-[#1D4ED8] focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+                      >
+                        Put away here
+                      </button>
+                    ) : null}
+                  </div>
+                  <ul className="mt-1 list-disc pl-9 text-xs text-slate-500">
+                    {c.reasons.map((reason) => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-slate-500">
+              No empty spot can take a {PALLET_SIZE_LABEL[size].toLowerCase()} of {kg} kg.
+            </p>
+          )}
+          <div className="mt-3 flex justify-end">
+            <button
+              type="button"
+              onClick={reset}
+              className="inline-flex h-8 items-center gap-1.5 rounded-[10px] bg-slate-100 px-3 text-xs font-medium text-slate-700 hover:bg-slate-200 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+            >
+              <X className="h-3.5 w-3.5" aria-hidden="true" />
+              Clear pallet
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {cameraOpen ? (
+        <CameraScanner
+          onDetected={(label) => {
+            setCameraOpen(false);
+            setSku(label);
+            setDone(null);
+          }}
+          onClose={() => setCameraOpen(false)}
+        />
+      ) : null}
+    </div>
+  );
+}
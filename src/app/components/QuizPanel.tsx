@@ -0,0 +1,143 @@
+import * as React from "react";
+import { ClipboardList, GraduationCap, Square, X } from "lucide-react";
+
+import { QUIZ_LENGTH, QUIZ_LEVEL_LABEL, type QuizAnswer, type QuizQuestion, type QuizState } from "../lib/quiz";
+
+function Countdown({ question, askedAt, paused }: { question: QuizQuestion; askedAt: number; paused: boolean }) {
+  const [now, setNow] = React.useState(() => Date.now());
+
+  React.useEffect(() => {
+    if (paused) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 100);
+    return () => window.clearInterval(timer);
+  }, [paused, askedAt]);
+
+  const left = Math.max(0, question.timeLimitMs - (now - askedAt));
+  return (
+    <div className="h-1.5 w-full overflow-hidden rounded-full bg-slate-100">
+      <div
+        className={`h-full rounded-full transition-[width] duration-100 ${left < 3000 ? "bg-red-500" : "bg-[#1E3A8A]"}`}
+        style={{ width: `${(left / question.timeLimitMs) * 100}%` }}
+      />
+    </div>
+  );
+}
+
+function feedbackText(answer: QuizAnswer, question: QuizQuestion) {
+  const seconds = `${(answer.reactionMs / 1000).toFixed(1)} s`;
+  if (answer.correct) return `Correct • ${seconds}`;
+  const where = question.kind === "spot" ? question.answers[0] : question.answers.slice(0, 3).join(", ");
+  if (!answer.tapped) return `Time's up • it was ${where}`;
+  return `That was ${answer.tapped} • it was ${where}`;
+}
+
+/**
+ * Start screen and question card for the training quiz. The trainee answers by tapping the grid,
+ * so this panel only asks, times and scores.
+ */
+export function QuizPanel({
+  quiz,
+  lastTrainee,
+  onStart,
+  onStop,
+  onShowResults,
+  onClose,
+}: {
+  quiz: QuizState | null;
+  lastTrainee: string;
+  onStart: (trainee: string) => void;
+  onStop: () => void;
+  onShowResults: () => void;
+  onClose: () => void;
+}) {
+  const [trainee, setTrainee] = React.useState(lastTrainee);
+
+  const cardClass =
+    "rounded-[16px] border border-[#bfdbfe] bg-[#eff6ff] px-4 py-3 shadow-[0px_1px_3px_0px_rgba(0,0,0,0.10),0px_1px_2px_-1px_rgba(0,0,0,0.10)]";
+
+  if (!quiz) {
+    return (
+      <form
+        className={`${cardClass} flex flex-wrap items-center gap-3`}
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (trainee.trim()) onStart(trainee.trim());
+        }}
+      >
+        <GraduationCap className="h-5 w-5 text-[#1e3a8a]" aria-hidden="true" />
+        <span className="text-sm font-semibold text-[#1e3a8a]">Training quiz</span>
+        <input
+          value={trainee}
+          onChange={(e) => setTrainee(e.target.value)}
+          placeholder="Trainee name"
+          aria-label="Trainee name"
+          className="h-9 w-44 rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-sm outline-none focus:ring-2 focus:ring-[#93c5fd]"
+        />
+        <button
+          type="submit"
+          disabled={!trainee.trim()}
+          className="inline-flex h-9 items-center rounded-[10px] bg-[#1E3A8A] px-4 text-sm font-medium text-white hover:bg-[#1D4ED8] disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          Start
+        </button>
+        <button
+          type="button"
+          onClick={onShowResults}
+          className="inline-flex h-9 items-center gap-1.5 rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-sm font-medium text-slate-700 hover:bg-slate-50"
+        >
+          <ClipboardList className="h-4 w-4" aria-hidden="true" />
+          Results
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close training quiz"
+          className="ml-auto rounded-[10px] p-1.5 text-slate-500 hover:bg-white focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </form>
+    );
+  }
+
+  const { question, feedback } = quiz;
+  const score = quiz.answers.filter((a) => a.correct).length;
+  const number = quiz.answers.length + (feedback ? 0 : 1);
+
+  return (
+    <div className={`${cardClass} space-y-2`}>
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-600">
+        <span className="font-semibold text-[#1e3a8a]">{quiz.trainee}</span>
+        <span>
+          Question {number} of {QUIZ_LENGTH}
+        </span>
+        <span>
+          Level {quiz.level} • {QUIZ_LEVEL_LABEL[quiz.level]}
+        </span>
+        <span>
+          Score {score}/{quiz.answers.length}
+        </span>
+        <button
+          type="button"
+          onClick={onStop}
+          className="ml-auto inline-flex h-8 items-center gap-1.5 rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-xs font-medium text-slate-700 hover:bg-slate-50"
+        >
+          <Square className="h-3.5 w-3.5" aria-hidden="true" />
+          Stop
+        </button>
+      </div>
+      <div className="flex flex-wrap items-baseline gap-3">
+        <span className="text-sm text-slate-600">Tap</span>
+        <span className="font-mono text-3xl font-bold text-[#1e3a8a]">{question.prompt}</span>
+        {question.detail ? <span className="text-sm text-slate-600">{question.detail}</span> : null}
+      </div>
+      <Countdown question={question} askedAt={quiz.askedAt} paused={!!feedback} />
+      <p
+        role="status"
+        className={`min-h-5 text-sm font-semibold ${feedback ? (feedback.correct ? "text-green-700" : "text-red-600") : ""}`}
+      >
+        {feedback ? feedbackText(feedback, question) : null}
+      </p>
+    </div>
+  );
+}
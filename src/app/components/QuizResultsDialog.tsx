@@ -0,0 +1,121 @@
+import * as React from "react";
+import { ClipboardList, Trash2, X } from "lucide-react";
+
+import { QUIZ_LEVEL_LABEL, summarizeTrainees, type QuizSession } from "../lib/quiz";
+import { getSiteLayout, siteLabel } from "../lib/sites";
+
+function formatSeconds(ms: number | null) {
+  return ms === null ? "—" : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function siteName(layoutId: string) {
+  const layout = getSiteLayout(layoutId);
+  return layout ? siteLabel(layout) : layoutId;
+}
+
+export function QuizResultsDialog({
+  sessions,
+  onClear,
+  onClose,
+}: {
+  sessions: QuizSession[];
+  /** Admins only; without it the results can be read but not deleted. */
+  onClear?: () => void;
+  onClose: () => void;
+}) {
+  const summaries = React.useMemo(() => summarizeTrainees(sessions), [sessions]);
+
+  React.useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[900] flex items-center justify-center bg-black/40 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="quiz-results-title"
+    >
+      <div className="flex max-h-full w-full max-w-3xl flex-col overflow-hidden rounded-[16px] border border-[#e2e8f0] bg-white shadow-[0px_25px_50px_-12px_rgba(0,0,0,0.25)]">
+        <div className="flex items-center justify-between border-b border-[#e2e8f0] px-5 py-4">
+          <h2 id="quiz-results-title" className="flex items-center gap-2 text-lg font-semibold text-[#0f172b]">
+            <ClipboardList className="h-5 w-5 text-[#1e3a8a]" />
+            Training Results
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close training results"
+            className="rounded-[10px] p-1.5 text-slate-500 hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-3 overflow-auto px-5 py-4">
+          <p className="text-sm text-slate-600">
+            Quiz sessions finished on this device, one row per trainee and site. Reaction time is the median time to
+            a correct tap.
+          </p>
+          <div className="overflow-hidden rounded-[12px] border border-[#e2e8f0]">
+            <table className="w-full text-sm">
+              <thead className="bg-[#f8fafc] text-xs text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold">Trainee</th>
+                  <th className="px-3 py-2 text-left font-semibold">Site</th>
+                  <th className="px-3 py-2 text-right font-semibold">Sessions</th>
+                  <th className="px-3 py-2 text-right font-semibold">Questions</th>
+                  <th className="px-3 py-2 text-right font-semibold">Accuracy</th>
+                  <th className="px-3 py-2 text-right font-semibold">Reaction</th>
+                  <th className="px-3 py-2 text-left font-semibold">Highest level</th>
+                  <th className="px-3 py-2 text-left font-semibold">Last played</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {summaries.map((s) => (
+                  <tr key={`${s.layoutId}:${s.trainee}`}>
+                    <td className="px-3 py-1.5 font-semibold text-[#0f172b]">{s.trainee}</td>
+                    <td className="px-3 py-1.5 text-slate-600">{siteName(s.layoutId)}</td>
+                    <td className="px-3 py-1.5 text-right">{s.sessions}</td>
+                    <td className="px-3 py-1.5 text-right">{s.questions}</td>
+                    <td className={`px-3 py-1.5 text-right ${s.accuracy < 0.7 ? "text-red-600" : "text-slate-700"}`}>
+                      {Math.round(s.accuracy * 100)}%
+                    </td>
+                    <td className="px-3 py-1.5 text-right">{formatSeconds(s.medianReactionMs)}</td>
+                    <td className="px-3 py-1.5 text-slate-600">
+                      {s.bestLevel} • {QUIZ_LEVEL_LABEL[s.bestLevel]}
+                    </td>
+                    <td className="px-3 py-1.5 text-slate-500">{new Date(s.lastPlayedAt).toLocaleString()}</td>
+                  </tr>
+                ))}
+                {!summaries.length ? (
+                  <tr>
+                    <td colSpan={8} className="px-3 py-4 text-center text-sm text-slate-500">
+                      No quiz results yet.
+                    </td>
+                  </tr>
+                ) : null}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {onClear ? (
+          <div className="flex items-center justify-end gap-2 border-t border-[#e2e8f0] px-5 py-3">
+            <button
+              type="button"
+              onClick={() => window.confirm("Delete every trainee's quiz results on this device?") && onClear()}
+              disabled={!sessions.length}
+              className="inline-flex h-9 items-center gap-1.5 rounded-[10px] border border-red-200 bg-red-50 px-3 text-sm font-medium text-red-700 hover:bg-red-100 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              <Trash2 className="h-4 w-4" aria-hidden="true" />
+              Clear results
+            </button>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import * as React from "react";
+import { Layers } from "lucide-react";
+
+import type { RackLevel } from "../lib/layout";
+
+/**
+ * Side elevation of one bay: its rack levels stacked from the floor up, each with a position per
+ * spot. Clicking a position selects that spot at that level (e.g. `I-2-7-C`).
+ */
+export function RackElevation({
+  levels,
+  bay,
+  spots,
+  spot,
+  level,
+  onSelect,
+}: {
+  levels: RackLevel[];
+  /** Bay code, e.g. `I-2`. */
+  bay: string;
+  spots: number[];
+  spot: number | null;
+  level: string | null;
+  onSelect: (spot: number, level: string) => void;
+}) {
+  return (
+    <div className="rounded-[14px] border border-[#e2e8f0] bg-white p-4">
+      <div className="mb-3 flex items-center gap-2">
+        <Layers className="h-5 w-5 text-[#1e3a8a]" aria-hidden="true" />
+        <span className="text-sm font-semibold text-[#0f172b]">Rack levels</span>
+        <span className="ml-auto font-mono text-xs text-slate-500">{bay}</span>
+      </div>
+
+      <div role="group" aria-label={`Rack levels of bay ${bay}`} className="space-y-1.5">
+        {[...levels].reverse().map((l) => (
+          <div key={l.code} className="flex items-center gap-2">
+            <div className="w-12 shrink-0 text-right text-[11px] leading-tight text-slate-500">
+              <div className="font-mono text-sm font-semibold text-[#0f172b]">{l.code}</div>
+              {l.heightM.toFixed(1)} m
+            </div>
+            <div
+              className="grid flex-1 gap-0.5 border-b-4 border-orange-400 pb-0.5"
+              style={{ gridTemplateColumns: `repeat(${spots.length}, minmax(0, 1fr))` }}
+            >
+              {spots.map((s) => {
+                const selected = s === spot && l.code === level;
+                const inSpot = s === spot && !selected;
+                return (
+                  <button
+                    key={s}
+                    type="button"
+                    onClick={() => onSelect(s, l.code)}
+                    aria-pressed={selected}
+                    aria-label={`${bay}-${s}-${l.code}`}
+                    title={`${bay}-${s}-${l.code}`}
+                    className={`h-7 rounded-[4px] border font-mono text-[10px] transition-colors focus:outline-none focus:ring-2 focus:ring-[#93c5fd] ${
+                      selected
+                        ? "border-[#1e3a8a] bg-[#1e3a8a] text-white"
+                        : inSpot
+                          ? "border-[#93c5fd] bg-[#eff6ff] text-[#1e3a8a]"
+                          : "border-slate-200 bg-slate-50 text-slate-500 hover:bg-slate-100"
+                    }`}
+                  >
+                    {s}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="w-14 shrink-0 text-[10px] text-amber-700">
+              {l.liftSeconds ? `lift +${l.liftSeconds} s` : ""}
+            </div>
+          </div>
+        ))}
+        <div className="ml-14 mr-16 border-t-2 border-slate-400 pt-0.5 text-center text-[10px] uppercase tracking-wide text-slate-400">
+          Floor
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import * as React from "react";
+
+import type { PlannedRoute } from "../lib/routePlanner";
+
+export type Point = { x: number; y: number };
+
+export function centerIn(container: DOMRect, el: Element): Point {
+  const r = el.getBoundingClientRect();
+  return { x: r.left - container.left + r.width / 2, y: r.top - container.top + r.height / 2 };
+}
+
+/**
+ * Numbered stop markers and a path line drawn over the grid. Positions are measured from the
+ * rendered spot buttons, so the overlay follows entrance-view rotation and resizes.
+ */
+export function RouteOverlay({
+  route,
+  containerRef,
+  spotRefs,
+  layoutKey,
+}: {
+  route: PlannedRoute;
+  containerRef: React.RefObject<HTMLDivElement | null>;
+  spotRefs: React.RefObject<Record<string, HTMLButtonElement | null>>;
+  /** Changes whenever the grid is re-laid out (e.g. the entrance view). */
+  layoutKey: string;
+}) {
+  const [points, setPoints] = React.useState<{ entrance: Point | null; stops: Array<{ code: string; at: Point }> }>({
+    entrance: null,
+    stops: [],
+  });
+  const [size, setSize] = React.useState({ width: 0, height: 0 });
+
+  React.useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => {
+      const box = container.getBoundingClientRect();
+      const bar = container.querySelector('[data-entrance-bar="true"]');
+      setSize({ width: box.width, height: box.height });
+      setPoints({
+        entrance: bar ? centerIn(box, bar) : null,
+        stops: route.stops.flatMap((s) => {
+          const el = spotRefs.current?.[s.code];
+          return el ? [{ code: s.code, at: centerIn(box, el) }] : [];
+        }),
+      });
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [route, containerRef, spotRefs, layoutKey]);
+
+  const path = [
+    ...(points.entrance ? [points.entrance] : []),
+    ...points.stops.map((s) => s.at),
+    ...(route.returnToEntrance && points.entrance ? [points.entrance] : []),
+  ];
+
+  return (
+    <svg
+      className="pointer-events-none absolute inset-0 z-10"
+      width={size.width}
+      height={size.height}
+      viewBox={`0 0 ${size.width} ${size.height}`}
+      aria-hidden="true"
+    >
+      {path.length > 1 ? (
+        <polyline
+          points={path.map((p) => `${p.x},${p.y}`).join(" ")}
+          fill="none"
+          stroke="#f59e0b"
+          strokeWidth={3}
+          strokeDasharray="6 4"
+          strokeLinejoin="round"
+          opacity={0.9}
+        />
+      ) : null}
+      {points.stops.map(({ code, at }) => (
+        <g key={code}>
+          <circle cx={at.x} cy={at.y} r={9} fill="#b45309" stroke="#fff" strokeWidth={2} />
+          <text x={at.x} y={at.y} textAnchor="middle" dominantBaseline="central" fontSize={10} fontWeight={700} fill="#fff">
+            {route.stops.findIndex((s) => s.code === code) + 1}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
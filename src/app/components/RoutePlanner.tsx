@@ -0,0 +1,152 @@
+import * as React from "react";
+import { Route, Upload, X } from "lucide-react";
+
+import type { AisleGraph } from "../lib/aisleGraph";
+import { formatMinutesSeconds } from "../lib/format";
+import type { SlotInventory } from "../lib/inventory";
+import { parsePickList, planRoute, type PlannedRoute } from "../lib/routePlanner";
+import type { TravelModel } from "../lib/travelTime";
+
+export function RoutePlanner({
+  graph,
+  travelModel,
+  inventory,
+  route,
+  onRouteChange,
+}: {
+  graph: AisleGraph;
+  travelModel: TravelModel;
+  inventory: SlotInventory;
+  route: PlannedRoute | null;
+  onRouteChange: (route: PlannedRoute | null) => void;
+}) {
+  const [text, setText] = React.useState("");
+  const [returnToEntrance, setReturnToEntrance] = React.useState(true);
+  const [problems, setProblems] = React.useState<string[]>([]);
+  const fileRef = React.useRef<HTMLInputElement | null>(null);
+
+  const entranceLabel = `${graph.layout.compass[graph.layout.entranceSide]} entrance`;
+  const stopLabel = (code: string | null) => code ?? entranceLabel;
+
+  const plan = (input: string, back = returnToEntrance) => {
+    const parsed = parsePickList(graph, inventory, input);
+    setProblems(parsed.problems);
+    onRouteChange(parsed.stops.length ? planRoute(graph, travelModel, parsed.stops, { returnToEntrance: back }) : null);
+  };
+
+  const clear = () => {
+    setText("");
+    setProblems([]);
+    onRouteChange(null);
+  };
+
+  return (
+    <div className="rounded-[16px] border border-[#e2e8f0] bg-white p-4 shadow-[0px_1px_3px_0px_rgba(0,0,0,0.10),0px_1px_2px_-1px_rgba(0,0,0,0.10)]">
+      <h2 className="text-lg font-semibold text-[#0f172b] mb-4 flex items-center gap-2">
+        <Route className="w-5 h-5 text-[#1e3a8a]" />
+        Pick Route
+      </h2>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={3}
+        placeholder="Paste location codes or SKUs, one per line (e.g., I-2-7, B-3-1, LB-1001)"
+        className="w-full rounded-[12px] border border-[#e2e8f0] bg-white px-4 py-2 font-mono text-sm outline-none focus:ring-2 focus:ring-[#93c5fd]"
+      />
+
+      <div className="mt-3 flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => plan(text)}
+          disabled={!text.trim()}
+          className="inline-flex h-10 items-center justify-center gap-2 rounded-[10px] bg-[#1E3A8A] px-4 text-sm font-medium text-white shadow-sm transition-colors hover:bg-[#1D4ED8] focus:outline-none focus:ring-2 focus:ring-[#93c5fd] focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          Plan Route
+        </button>
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          className="inline-flex h-10 items-center gap-1.5 rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-sm font-medium text-slate-700 transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+        >
+          <Upload className="h-4 w-4" aria-hidden="true" />
+          Upload list
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".txt,.csv,text/plain,text/csv"
+          className="hidden"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (!file) return;
+            const content = await file.text();
+            setText(content);
+            plan(content);
+          }}
+        />
+        <label className="inline-flex items-center gap-2 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={returnToEntrance}
+            onChange={(e) => {
+              setReturnToEntrance(e.target.checked);
+              // A planned route is redrawn at once rather than waiting for the next Plan Route.
+              if (route && text.trim()) plan(text, e.target.checked);
+            }}
+            className="h-4 w-4 rounded border-slate-300"
+          />
+          Return to {entranceLabel}
+        </label>
+        {route || text ? (
+          <button
+            type="button"
+            onClick={clear}
+            aria-label="Clear route"
+            className="ml-auto inline-flex h-10 items-center justify-center rounded-[10px] bg-slate-100 px-3 text-slate-700 transition-colors hover:bg-slate-200 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        ) : null}
+      </div>
+
+      {problems.length ? (
+        <ul className="mt-3 space-y-0.5 text-xs text-red-600">
+          {problems.map((p) => (
+            <li key={p}>{p}</li>
+          ))}
+        </ul>
+      ) : null}
+
+      {route ? (
+        <div className="mt-4">
+          <ol className="divide-y divide-slate-100 rounded-[12px] border border-[#e2e8f0] text-sm">
+            {route.legs.map((leg, i) => (
+              <li key={i} className="flex items-center justify-between gap-3 px-3 py-2">
+                <span className="min-w-0">
+                  <span className="mr-2 inline-flex h-5 w-5 items-center justify-center rounded-full bg-[#1e3a8a] text-[11px] font-semibold text-white">
+                    {leg.to ? i + 1 : "⌂"}
+                  </span>
+                  <span className="text-slate-500">{stopLabel(leg.from)} →</span>{" "}
+                  <span className="font-mono font-semibold text-[#0f172b]">{stopLabel(leg.to)}</span>
+                </span>
+                <span className="shrink-0 text-xs text-slate-500">
+                  {Math.round(leg.meters)} m • {formatMinutesSeconds(leg.seconds)}
+                </span>
+              </li>
+            ))}
+          </ol>
+          <div className="mt-3 flex items-center justify-between rounded-[12px] border border-green-200 bg-green-50 px-3 py-2 text-sm">
+            <span className="font-semibold text-green-700">
+              Total • {route.stops.length} {route.stops.length === 1 ? "stop" : "stops"}
+            </span>
+            <span className="font-bold text-green-900">
+              {Math.round(route.totalMeters)} m • {formatMinutesSeconds(route.totalSeconds)}
+            </span>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,534 @@
+import * as React from "react";
+import { Maximize, Minus, Plus } from "lucide-react";
+
+import type { AisleGraph } from "../lib/aisleGraph";
+import { routeWalkPath, type FloorMapScene, type MapRect } from "../lib/floorMap";
+import { ROUTE_LINE, ROUTE_STOP, SELECTED, STATUS_COLORS } from "../lib/floorPlanExport";
+import { getSlot, SLOT_STATUS_LABEL, type SlotInventory } from "../lib/inventory";
+import type { CompassSide, FloorFeatureKind, Location, RowCode } from "../lib/layout";
+import type { PlannedRoute } from "../lib/routePlanner";
+import { useDragSelect } from "../lib/selection";
+
+type ViewBox = { x: number; y: number; w: number; h: number };
+
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+// Pointer travel that turns a press into a pan, so a slightly shaky click still selects.
+const PAN_THRESHOLD_PX = 4;
+const SCALE_BAR_STEPS_M = [1, 2, 5, 10, 20, 50];
+
+// No-go areas are filled with a hatch pattern defined in the SVG, so their fill is the pattern's ID.
+function featureStyle(kind: FloorFeatureKind, hatchId: string) {
+  switch (kind) {
+    case "dock":
+      return { fill: "#dbeafe", stroke: "#1e3a8a", text: "#1e3a8a" };
+    case "office":
+      return { fill: "#f1f5f9", stroke: "#64748b", text: "#334155" };
+    case "noGo":
+      return { fill: `url(#${hatchId})`, stroke: "#dc2626", text: "#991b1b" };
+  }
+}
+
+// The table's compass pill colors, so each side reads the same in both views.
+const SIDE_TEXT: Record<CompassSide, string> = {
+  top: "#1e3a8a",
+  bottom: "#1e3a8a",
+  left: "#b91c1c",
+  right: "#374151",
+};
+
+const iconButtonClass =
+  "inline-flex h-8 w-8 items-center justify-center rounded-[10px] border border-[#e2e8f0] bg-white text-slate-700 hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd] disabled:cursor-not-allowed disabled:opacity-40";
+
+function fullView(scene: FloorMapScene): ViewBox {
+  return { x: 0, y: 0, w: scene.width, h: scene.height };
+}
+
+// Keep the zoom between 1× and MAX_ZOOM and the view on the map.
+function clampView(scene: FloorMapScene, v: ViewBox): ViewBox {
+  const w = Math.min(scene.width, Math.max(scene.width / MAX_ZOOM, v.w));
+  const h = (w * scene.height) / scene.width;
+  return {
+    x: Math.min(scene.width - w, Math.max(0, v.x)),
+    y: Math.min(scene.height - h, Math.max(0, v.y)),
+    w,
+    h,
+  };
+}
+
+function zoomAround(scene: FloorMapScene, v: ViewBox, factor: number, cx: number, cy: number): ViewBox {
+  const w = Math.min(scene.width, Math.max(scene.width / MAX_ZOOM, v.w / factor));
+  const k = w / v.w;
+  return clampView(scene, { x: cx - (cx - v.x) * k, y: cy - (cy - v.y) * k, w, h: v.h * k });
+}
+
+function contains(v: ViewBox, r: MapRect) {
+  return r.x >= v.x && r.y >= v.y && r.x + r.w <= v.x + v.w && r.y + r.h <= v.y + v.h;
+}
+
+function svgPoint(svg: SVGSVGElement, clientX: number, clientY: number) {
+  const ctm = svg.getScreenCTM();
+  if (!ctm) return null;
+  const p = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse());
+  return { x: p.x, y: p.y };
+}
+
+/**
+ * The floor drawn to scale from the layout's geometry: racks, cross-aisles, the entrance, docks,
+ * offices and no-go areas. The wheel, the buttons or `+`/`-` zoom; dragging or the arrow keys pan.
+ * Clicks select like the table does; shift-drag draws a selection rectangle.
+ */
+export function ScaleFloorMap({
+  scene,
+  graph,
+  inventory,
+  selected,
+  isSelected,
+  spotHeat,
+  spotRing,
+  flashCodes,
+  route,
+  dragEnabled,
+  onSpotClick,
+  onDragSelect,
+}: {
+  scene: FloorMapScene;
+  graph: AisleGraph;
+  inventory: SlotInventory;
+  /** Kept in view: the map pans to it when it is selected off screen, e.g. by a search. */
+  selected: Location | null;
+  isSelected: (row: RowCode, aisle: number, spot: number) => boolean;
+  /** Heat-map fill and tooltip for a spot; `null` keeps the status colors. */
+  spotHeat: (code: string) => { color: string | null; title: string } | null;
+  /** Outline color and optional tooltip for search matches, put-away spots and quiz feedback. */
+  spotRing: (code: string) => { color: string; title: string | null } | null;
+  /** Spots just changed by the live feed; they pulse for a moment. */
+  flashCodes: ReadonlySet<string>;
+  route: PlannedRoute | null;
+  dragEnabled: boolean;
+  onSpotClick: (row: RowCode, aisle: number, spot: number, e: React.MouseEvent) => void;
+  onDragSelect: (codes: string[], additive: boolean) => void;
+}) {
+  const [view, setView] = React.useState<ViewBox>(() => fullView(scene));
+  const svgRef = React.useRef<SVGSVGElement | null>(null);
+  const frameRef = React.useRef<HTMLDivElement | null>(null);
+  const spotRefs = React.useRef<Record<string, SVGRectElement | null>>({});
+  const pannedRef = React.useRef(false);
+  const hatchId = `no-go-${React.useId().replace(/:/g, "")}`;
+  const dragSelect = useDragSelect({ containerRef: frameRef, spotRefs, enabled: dragEnabled, onSelect: onDragSelect });
+
+  // A new layout or entrance view starts from the whole floor again.
+  React.useEffect(() => setView(fullView(scene)), [scene]);
+
+  React.useEffect(() => {
+    if (!selected) return;
+    const inBay = (b: { row: RowCode; aisle: number }) => b.row === selected.row && b.aisle === selected.aisle;
+    const target =
+      selected.spot === null
+        ? scene.bays.find(inBay)?.rect
+        : scene.spots.find((s) => inBay(s) && s.spot === selected.spot)?.rect;
+    if (!target) return;
+    setView((v) =>
+      contains(v, target)
+        ? v
+        : clampView(scene, { ...v, x: target.x + target.w / 2 - v.w / 2, y: target.y + target.h / 2 - v.h / 2 }),
+    );
+  }, [scene, selected?.row, selected?.aisle, selected?.spot]);
+
+  // React's wheel listeners are passive, so the page would scroll as well as the map zooming.
+  React.useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      const p = svgPoint(svg, e.clientX, e.clientY);
+      if (!p) return;
+      e.preventDefault();
+      setView((v) => zoomAround(scene, v, e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, p.x, p.y));
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, [scene]);
+
+  const zoomCenter = (factor: number) =>
+    setView((v) => zoomAround(scene, v, factor, v.x + v.w / 2, v.y + v.h / 2));
+  const panBy = (fx: number, fy: number) =>
+    setView((v) => clampView(scene, { ...v, x: v.x + fx * v.w, y: v.y + fy * v.h }));
+
+  const onPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    pannedRef.current = false;
+    if (e.button !== 0) return;
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      dragSelect.onPointerDown(e);
+      return;
+    }
+    const svg = e.currentTarget;
+    const box = svg.getBoundingClientRect();
+    const start = { x: e.clientX, y: e.clientY, view };
+    // Map units per screen pixel; the SVG letterboxes, so the larger ratio is the one in use.
+    const scale = Math.max(view.w / box.width, view.h / box.height);
+
+    const onMove = (ev: PointerEvent) => {
+      const dx = ev.clientX - start.x;
+      const dy = ev.clientY - start.y;
+      if (!pannedRef.current && Math.hypot(dx, dy) < PAN_THRESHOLD_PX) return;
+      pannedRef.current = true;
+      setView(clampView(scene, { ...start.view, x: start.view.x - dx * scale, y: start.view.y - dy * scale }));
+    };
+    const finish = () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", finish);
+      window.removeEventListener("pointercancel", finish);
+    };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", finish);
+    window.addEventListener("pointercancel", finish);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const actions: Record<string, () => void> = {
+      "+": () => zoomCenter(ZOOM_STEP),
+      "=": () => zoomCenter(ZOOM_STEP),
+      "-": () => zoomCenter(1 / ZOOM_STEP),
+      "0": () => setView(fullView(scene)),
+      ArrowLeft: () => panBy(-0.1, 0),
+      ArrowRight: () => panBy(0.1, 0),
+      ArrowUp: () => panBy(0, -0.1),
+      ArrowDown: () => panBy(0, 0.1),
+    };
+    const action = actions[e.key];
+    if (!action) return;
+    e.preventDefault();
+    action();
+  };
+
+  const walkPath = React.useMemo(
+    () => (route ? routeWalkPath(graph, route).map(scene.toMap) : []),
+    [graph, route, scene],
+  );
+  const spotByCode = React.useMemo(() => new Map(scene.spots.map((s) => [s.code, s])), [scene]);
+
+  const zoom = scene.width / view.w;
+  const scaleBarM = SCALE_BAR_STEPS_M.find((m) => m >= view.w / 8) ?? SCALE_BAR_STEPS_M[SCALE_BAR_STEPS_M.length - 1];
+  const barX = view.x + view.w * 0.03;
+  const barY = view.y + view.h * 0.97;
+  const labelSize = 1.4;
+
+  // Panning and zooming are not clicks away from the selection.
+  return (
+    <div data-keep-selection="true">
+      <div className="mb-2 flex items-center justify-end gap-1 text-xs text-slate-600">
+        <button
+          type="button"
+          onClick={() => zoomCenter(1 / ZOOM_STEP)}
+          disabled={zoom <= 1}
+          aria-label="Zoom out"
+          className={iconButtonClass}
+        >
+          <Minus className="h-4 w-4" />
+        </button>
+        <span className="w-12 text-center tabular-nums">{Math.round(zoom * 100)}%</span>
+        <button
+          type="button"
+          onClick={() => zoomCenter(ZOOM_STEP)}
+          disabled={zoom >= MAX_ZOOM}
+          aria-label="Zoom in"
+          className={iconButtonClass}
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => setView(fullView(scene))}
+          aria-label="Show the whole floor"
+          className={iconButtonClass}
+        >
+          <Maximize className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div
+        ref={frameRef}
+        tabIndex={0}
+        onKeyDown={onKeyDown}
+        aria-label="Scale floor map. Plus and minus zoom, arrow keys pan, 0 shows the whole floor."
+        className="relative overflow-hidden rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+      >
+        <svg
+          ref={svgRef}
+          viewBox={`${view.x} ${view.y} ${view.w} ${view.h}`}
+          className="block w-full touch-none select-none cursor-grab active:cursor-grabbing"
+          style={{ aspectRatio: `${scene.width} / ${scene.height}`, maxHeight: "70vh" }}
+          onPointerDown={onPointerDown}
+          onClickCapture={(e) => {
+            if (!pannedRef.current) return;
+            pannedRef.current = false;
+            e.stopPropagation();
+          }}
+        >
+          <defs>
+            <pattern id={hatchId} width={0.8} height={0.8} patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+              <rect width={0.8} height={0.8} fill="#fef2f2" />
+              <line x1={0} y1={0} x2={0} y2={0.8} stroke="#fca5a5" strokeWidth={0.35} />
+            </pattern>
+          </defs>
+
+          <rect width={scene.width} height={scene.height} fill="#ffffff" />
+          {scene.crossAisles.map((r, i) => (
+            <rect key={i} x={r.x} y={r.y} width={r.w} height={r.h} fill="#eef2f7" />
+          ))}
+
+          {scene.features.map(({ kind, label, rect }, i) => {
+            const style = featureStyle(kind, hatchId);
+            const size = Math.min(1.1, rect.h * 0.5, (rect.w / Math.max(label.length, 1)) * 1.7);
+            return (
+              <g key={i}>
+                <rect
+                  x={rect.x}
+                  y={rect.y}
+                  width={rect.w}
+                  height={rect.h}
+                  fill={style.fill}
+                  stroke={style.stroke}
+                  strokeWidth={1}
+                  vectorEffect="non-scaling-stroke"
+                  strokeDasharray={kind === "noGo" ? "4 3" : undefined}
+                />
+                <text
+                  x={rect.x + rect.w / 2}
+                  y={rect.y + rect.h / 2}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  fontSize={size}
+                  fontWeight={600}
+                  fill={style.text}
+                  pointerEvents="none"
+                >
+                  {label}
+                </text>
+              </g>
+            );
+          })}
+
+          {scene.bays.map(({ row, aisle, rect }) => {
+            const bayPicked = selected?.spot === null && selected.row === row && selected.aisle === aisle;
+            return (
+              <rect
+                key={`${row}-${aisle}`}
+                x={rect.x}
+                y={rect.y}
+                width={rect.w}
+                height={rect.h}
+                fill="#f8fafc"
+                stroke={bayPicked ? SELECTED.stroke : "#94a3b8"}
+                strokeWidth={bayPicked ? 2.5 : 1}
+                vectorEffect="non-scaling-stroke"
+              />
+            );
+          })}
+
+          {scene.spots.map(({ code, row, aisle, spot, rect }) => {
+            const picked = isSelected(row, aisle, spot);
+            const slot = getSlot(inventory, code);
+            const heat = spotHeat(code);
+            const colors = picked
+              ? SELECTED
+              : heat
+                ? { fill: heat.color ?? "#ffffff", stroke: "#cbd5e1", text: "#0f172b" }
+                : STATUS_COLORS[slot.status];
+            const ring = picked ? null : spotRing(code);
+            const statusLabel = SLOT_STATUS_LABEL[slot.status];
+            const holdTitle = slot.hold ? `${code} ${statusLabel.toLowerCase()}: ${slot.hold.reason}` : null;
+            return (
+              <g key={code}>
+                <rect
+                  ref={(el) => {
+                    spotRefs.current[code] = el;
+                  }}
+                  x={rect.x}
+                  y={rect.y}
+                  width={rect.w}
+                  height={rect.h}
+                  rx={0.1}
+                  fill={colors.fill}
+                  stroke={colors.stroke}
+                  strokeWidth={picked ? 2.5 : 1}
+                  vectorEffect="non-scaling-stroke"
+                  data-spot-button="true"
+                  role="button"
+                  aria-label={`${code}, ${statusLabel}`}
+                  aria-pressed={picked}
+                  className="cursor-pointer"
+                  onClick={(e) => {
+                    if (dragSelect.consumeClick()) return;
+                    onSpotClick(row, aisle, spot, e);
+                  }}
+                >
+                  <title>{heat?.title ?? ring?.title ?? holdTitle ?? `${code}, ${statusLabel}`}</title>
+                </rect>
+                {ring ? (
+                  <rect
+                    x={rect.x - 0.06}
+                    y={rect.y - 0.06}
+                    width={rect.w + 0.12}
+                    height={rect.h + 0.12}
+                    rx={0.12}
+                    fill="none"
+                    stroke={ring.color}
+                    strokeWidth={2.5}
+                    vectorEffect="non-scaling-stroke"
+                    pointerEvents="none"
+                  />
+                ) : null}
+                {flashCodes.has(code) ? (
+                  <rect
+                    x={rect.x - 0.06}
+                    y={rect.y - 0.06}
+                    width={rect.w + 0.12}
+                    height={rect.h + 0.12}
+                    rx={0.12}
+                    fill="none"
+                    stroke="#34d399"
+                    strokeWidth={3}
+                    vectorEffect="non-scaling-stroke"
+                    pointerEvents="none"
+                    className="motion-safe:animate-pulse"
+                  />
+                ) : null}
+                <text
+                  x={rect.x + rect.w / 2}
+                  y={rect.y + rect.h / 2}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  fontSize={Math.min(rect.w, rect.h) * 0.6}
+                  fontWeight={600}
+                  fill={colors.text}
+                  pointerEvents="none"
+                >
+                  {spot}
+                </text>
+              </g>
+            );
+          })}
+
+          {walkPath.length > 1 ? (
+            <polyline
+              points={walkPath.map((p) => `${p.x},${p.y}`).join(" ")}
+              fill="none"
+              stroke={ROUTE_LINE}
+              strokeWidth={3}
+              strokeDasharray="6 4"
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+              opacity={0.9}
+              pointerEvents="none"
+            />
+          ) : null}
+          {route?.stops.map((stop, i) => {
+            const at = spotByCode.get(stop.code)?.rect;
+            if (!at) return null;
+            return (
+              <g key={`${stop.code}-${i}`} pointerEvents="none">
+                <circle
+                  cx={at.x + at.w / 2}
+                  cy={at.y + at.h / 2}
+                  r={0.7}
+                  fill={ROUTE_STOP}
+                  stroke="#ffffff"
+                  strokeWidth={0.15}
+                />
+                <text
+                  x={at.x + at.w / 2}
+                  y={at.y + at.h / 2}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  fontSize={0.8}
+                  fontWeight={700}
+                  fill="#ffffff"
+                >
+                  {i + 1}
+                </text>
+              </g>
+            );
+          })}
+
+          <rect
+            x={scene.entrance.x}
+            y={scene.entrance.y}
+            width={scene.entrance.w}
+            height={scene.entrance.h}
+            fill="#0f172b"
+          />
+
+          {scene.rowLabels.map(({ row, text, x, y }) => (
+            <text
+              key={`row-${row}`}
+              x={x}
+              y={y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fontSize={labelSize}
+              fontWeight={700}
+              fill={selected?.row === row ? "#1d4ed8" : "#0f172b"}
+              pointerEvents="none"
+            >
+              {text}
+            </text>
+          ))}
+          {scene.aisleLabels.map(({ aisle, text, x, y }) => (
+            <text
+              key={`aisle-${aisle}`}
+              x={x}
+              y={y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fontSize={labelSize}
+              fontWeight={700}
+              fill={selected?.aisle === aisle ? "#1d4ed8" : "#1e3a8a"}
+              pointerEvents="none"
+            >
+              {text}
+            </text>
+          ))}
+          {scene.sideLabels.map(({ layoutSide, entrance, vertical, text, x, y }) => (
+            <text
+              key={layoutSide}
+              x={x}
+              y={y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fontSize={labelSize}
+              fontWeight={700}
+              fill={entrance ? "#0f172b" : SIDE_TEXT[layoutSide]}
+              transform={vertical ? `rotate(-90 ${x} ${y})` : undefined}
+              pointerEvents="none"
+            >
+              {text}
+            </text>
+          ))}
+
+          <g pointerEvents="none">
+            <line
+              x1={barX}
+              y1={barY}
+              x2={barX + scaleBarM}
+              y2={barY}
+              stroke="#0f172b"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+            <text x={barX} y={barY - view.h * 0.012} fontSize={view.w / 60} fill="#0f172b">
+              {scaleBarM} m
+            </text>
+          </g>
+        </svg>
+
+        {dragSelect.box ? (
+          <div
+            className="pointer-events-none absolute z-20 rounded-sm border-2 border-blue-600 bg-blue-500/10"
+            style={dragSelect.box}
+          />
+        ) : null}
+      </div>
+    </div>
+  );
+}
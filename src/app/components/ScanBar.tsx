@@ -0,0 +1,66 @@
+import * as React from "react";
+import { Camera, ScanLine } from "lucide-react";
+
+import type { Location, WarehouseLayout } from "../lib/layout";
+import { resolveScan, useScanMode, useWedgeScanner } from "../lib/scanner";
+import { CameraScanner } from "./CameraScanner";
+
+export function ScanBar({ layout, onLocation }: { layout: WarehouseLayout; onLocation: (location: Location) => void }) {
+  const [scanMode, setScanMode] = useScanMode();
+  const [cameraOpen, setCameraOpen] = React.useState(false);
+  const [status, setStatus] = React.useState<{ ok: boolean; text: string } | null>(null);
+
+  const handleLabel = (label: string) => {
+    const result = resolveScan(layout, label);
+    if (result.ok) {
+      setStatus({ ok: true, text: `Scanned ${result.location.code}` });
+      onLocation(result.location);
+    } else {
+      setStatus({ ok: false, text: result.message });
+    }
+  };
+
+  useWedgeScanner(scanMode && !cameraOpen, handleLabel);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 rounded-[16px] border border-[#e2e8f0] bg-white px-4 py-3 shadow-[0px_1px_3px_0px_rgba(0,0,0,0.10),0px_1px_2px_-1px_rgba(0,0,0,0.10)]">
+      <button
+        type="button"
+        onClick={() => {
+          setScanMode(!scanMode);
+          setStatus(null);
+        }}
+        aria-pressed={scanMode}
+        className={`inline-flex h-10 items-center gap-2 rounded-[10px] px-3 text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-[#93c5fd] ${
+          scanMode ? "bg-[#1E3A8A] text-white hover:bg-[#1D4ED8]" : "border border-[#e2e8f0] bg-white text-slate-700 hover:bg-slate-50"
+        }`}
+      >
+        <ScanLine className="h-4 w-4" aria-hidden="true" />
+        Scan mode {scanMode ? "on" : "off"}
+      </button>
+      {scanMode ? (
+        <button
+          type="button"
+          onClick={() => setCameraOpen(true)}
+          className="inline-flex h-10 items-center gap-2 rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-sm font-medium text-slate-700 transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+        >
+          <Camera className="h-4 w-4" aria-hidden="true" />
+          Use camera
+        </button>
+      ) : null}
+      <span role="status" className={`min-w-0 text-sm ${status && !status.ok ? "text-red-600" : "text-slate-500"}`}>
+        {status?.text ?? (scanMode ? "Ready: scan a location label with the handheld scanner." : null)}
+      </span>
+
+      {cameraOpen ? (
+        <CameraScanner
+          onDetected={(label) => {
+            setCameraOpen(false);
+            handleLabel(label);
+          }}
+          onClose={() => setCameraOpen(false)}
+        />
+      ) : null}
+    </div>
+  );
+}
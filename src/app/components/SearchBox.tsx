@@ -0,0 +1,135 @@
+import * as React from "react";
+import { Search, X } from "lucide-react";
+
+import type { ItemMatch } from "../lib/search";
+
+const primaryButtonClass =
+  "inline-flex h-12 items-center justify-center gap-2 rounded-[10px] bg-[#1E3A8A] px-4 text-[18px] font-medium leading-7 text-white shadow-sm transition-colors hover:bg-[#1D4ED8] focus:outline-none focus:ring-2 focus:ring-[#93c5fd] focus:ring-offset-2 active:bg-[#1E40AF] disabled:cursor-not-allowed disabled:opacity-60 disabled:hover:bg-[#1E3A8A] disabled:active:bg-[#1E3A8A]";
+
+export function SearchBox({
+  value,
+  error,
+  info,
+  suggestions,
+  onChange,
+  onGo,
+  onClear,
+}: {
+  value: string;
+  error: string | null;
+  info: string | null;
+  suggestions: ItemMatch[];
+  onChange: (value: string) => void;
+  /** Run the search; `override` is used when a suggestion is picked. */
+  onGo: (override?: string) => void;
+  onClear: () => void;
+}) {
+  const [open, setOpen] = React.useState(false);
+  const [activeIndex, setActiveIndex] = React.useState(-1);
+  const canSearch = value.trim().length > 0;
+  const showSuggestions = open && suggestions.length > 0;
+
+  React.useEffect(() => setActiveIndex(-1), [suggestions]);
+
+  const pick = (match: ItemMatch) => {
+    setOpen(false);
+    onGo(match.key);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (showSuggestions && e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % suggestions.length);
+    } else if (showSuggestions && e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    } else if (e.key === "Enter") {
+      if (showSuggestions && activeIndex >= 0) pick(suggestions[activeIndex]);
+      else if (canSearch) {
+        setOpen(false);
+        onGo();
+      }
+    }
+  };
+
+  return (
+    <div className="rounded-[16px] border border-[#e2e8f0] bg-white p-4 shadow-[0px_1px_3px_0px_rgba(0,0,0,0.10),0px_1px_2px_-1px_rgba(0,0,0,0.10)]">
+      <h2 className="text-lg font-semibold text-[#0f172b] mb-4 flex items-center gap-2">
+        <Search className="w-5 h-5 text-[#1e3a8a]" />
+        Find Location or Item
+      </h2>
+
+      <div className="flex gap-3 mb-3">
+        <div className="relative flex-1">
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => {
+              onChange(e.target.value.toUpperCase());
+              setOpen(true);
+            }}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setOpen(false)}
+            onKeyDown={onKeyDown}
+            placeholder="Location (I-2-7, I-2, I27), SKU, description or pallet ID"
+            role="combobox"
+            aria-expanded={showSuggestions}
+            aria-controls="search-suggestions"
+            aria-autocomplete="list"
+            aria-activedescendant={activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
+            className={`w-full rounded-[12px] bg-white px-4 py-2 border outline-none ring-offset-2 transition-all ${
+              error ? "border-red-300 ring-2 ring-red-200 bg-red-50" : "border-[#e2e8f0] focus:ring-2 focus:ring-[#93c5fd]"
+            }`}
+          />
+          {showSuggestions ? (
+            <ul
+              id="search-suggestions"
+              role="listbox"
+              className="absolute inset-x-0 top-full z-20 mt-1 max-h-72 overflow-auto rounded-[12px] border border-[#e2e8f0] bg-white py-1 shadow-lg"
+            >
+              {suggestions.map((match, i) => (
+                <li
+                  key={`${match.kind}:${match.key}`}
+                  id={`search-suggestion-${i}`}
+                  role="option"
+                  aria-selected={i === activeIndex}
+                  // Keep focus in the input so blur doesn't close the list before the click lands.
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => pick(match)}
+                  className={`flex cursor-pointer items-center justify-between gap-3 px-3 py-2 text-sm ${
+                    i === activeIndex ? "bg-[#eff6ff]" : "hover:bg-slate-50"
+                  }`}
+                >
+                  <span className="min-w-0">
+                    <span className="font-mono font-semibold text-[#1e3a8a]">{match.key}</span>
+                    {match.description ? <span className="ml-2 truncate text-slate-600">{match.description}</span> : null}
+                    {match.kind === "pallet" ? <span className="ml-2 text-xs text-slate-400">pallet</span> : null}
+                  </span>
+                  <span className="shrink-0 text-xs text-slate-500">
+                    {match.codes.length} {match.codes.length === 1 ? "spot" : "spots"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+          {error ? <p className="text-xs text-red-600 mt-1 ml-1">{error}</p> : null}
+          {!error && info ? <p className="text-xs text-[#1e3a8a] mt-1 ml-1">{info}</p> : null}
+        </div>
+        <button onClick={() => onGo()} disabled={!canSearch} className={primaryButtonClass}>
+          Go
+        </button>
+        {value && (
+          <button
+            onClick={onClear}
+            aria-label="Clear search"
+            className="inline-flex items-center justify-center rounded-[14px] bg-slate-100 px-4 py-3 text-slate-700 transition-colors hover:bg-slate-200 focus:outline-none focus:ring-2 focus:ring-[#93c5fd] focus:ring-offset-2"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import * as React from "react";
+import { Clock, Copy, Download, Route, TriangleAlert } from "lucide-react";
+
+import { downloadBlob } from "../lib/download";
+import { formatMinutesSeconds } from "../lib/format";
+import { getSlot, SLOT_STATUS_LABEL, type SlotChange, type SlotInventory } from "../lib/inventory";
+import type { PlannedRoute } from "../lib/routePlanner";
+import { MAX_TOUR_SPOTS, selectionCsv } from "../lib/selection";
+import { BaySummary, SLOT_STATUS_TEXT_CLASS } from "./SlotDetails";
+import { draftProblem, holdFromDraft, StatusFields, type StatusDraft } from "./StatusFields";
+
+const actionClass =
+  "inline-flex h-9 items-center justify-center gap-1.5 rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-xs font-medium text-slate-700 transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd] disabled:cursor-not-allowed disabled:opacity-60";
+
+/** Right-panel summary and bulk actions for a selection of several spots. */
+export function SelectionSummary({
+  layoutId,
+  codes,
+  inventory,
+  tour,
+  author,
+  onFocus,
+  onSetStatus,
+  onShowRoute,
+  onClear,
+}: {
+  layoutId: string;
+  /** Selected spot codes, in display order. */
+  codes: string[];
+  inventory: SlotInventory;
+  /** Walk through every selected spot that isn't blocked; `null` when there are too many to plan. */
+  tour: PlannedRoute | null;
+  /** Signed-in name the status change is recorded under. */
+  author: string | null;
+  /** Narrow the selection to one spot from the list. */
+  onFocus: (code: string) => void;
+  /** Left out for people who may not change status, along with the bulk status form. */
+  onSetStatus?: (change: SlotChange) => void;
+  onShowRoute: (route: PlannedRoute) => void;
+  onClear: () => void;
+}) {
+  const [draft, setDraft] = React.useState<StatusDraft>({ status: "reserved", reason: "", until: "" });
+  const problem = draftProblem(draft);
+  const blocked = codes.filter((code) => getSlot(inventory, code).status === "blocked").length;
+  const [copyState, setCopyState] = React.useState<"copied" | "failed" | null>(null);
+
+  React.useEffect(() => {
+    if (!copyState) return;
+    const timer = window.setTimeout(() => setCopyState(null), 1500);
+    return () => window.clearTimeout(timer);
+  }, [copyState]);
+
+  const copyCodes = () => {
+    navigator.clipboard
+      .writeText(codes.join("\n"))
+      .then(() => setCopyState("copied"))
+      .catch(() => setCopyState("failed"));
+  };
+
+  return (
+    // Bulk actions mustn't count as a click-away from the selection they act on.
+    <div className="space-y-4" data-keep-selection="true">
+      <div className="bg-[#eff6ff] border border-[#bfdbfe] rounded-[14px] p-4 text-center">
+        <div className="text-3xl font-bold text-[#1e3a8a] mb-1">{codes.length}</div>
+        <div className="text-xs text-blue-800">
+          spots selected, {codes[0]} – {codes[codes.length - 1]}
+        </div>
+      </div>
+
+      <div className="bg-green-50 border border-green-200 rounded-[14px] p-4">
+        <div className="flex items-center gap-2 mb-2">
+          <Clock className="w-5 h-5 text-green-700" />
+          <span className="text-sm font-semibold text-green-700">Approx. Walk Time</span>
+        </div>
+        <div className="text-2xl font-bold text-green-900">{tour ? formatMinutesSeconds(tour.totalSeconds) : "—"}</div>
+        <p className="text-xs text-green-700 mt-1">
+          {tour
+            ? `Visiting every spot from the entrance and back, ${Math.round(tour.totalMeters)} m`
+            : `Estimated for up to ${MAX_TOUR_SPOTS} spots`}
+          {blocked ? ` • ${blocked} blocked ${blocked === 1 ? "spot" : "spots"} left out` : ""}
+        </p>
+        {tour ? (
+          <button type="button" onClick={() => onShowRoute(tour)} className={`${actionClass} mt-2`}>
+            <Route className="h-3.5 w-3.5" aria-hidden="true" />
+            Show route
+          </button>
+        ) : null}
+      </div>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <button type="button" onClick={copyCodes} className={actionClass}>
+            <Copy className="h-3.5 w-3.5" aria-hidden="true" />
+            {copyState === "copied" ? "Copied" : copyState === "failed" ? "Copy failed" : "Copy codes"}
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              downloadBlob(new Blob([selectionCsv(inventory, codes)], { type: "text/csv" }), `${layoutId}-selection.csv`)
+            }
+            className={actionClass}
+          >
+            <Download className="h-3.5 w-3.5" aria-hidden="true" />
+            Export CSV
+          </button>
+        </div>
+        {onSetStatus ? (
+          <form
+            className="space-y-2 rounded-[10px] border border-[#e2e8f0] p-2 text-xs text-slate-600"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!problem) onSetStatus({ status: draft.status, hold: holdFromDraft(draft, author) });
+            }}
+          >
+            <StatusFields draft={draft} onChange={setDraft} />
+            {problem ? <p className="text-[11px] text-amber-700">{problem}</p> : null}
+            <button
+              type="submit"
+              disabled={!!problem}
+              className="inline-flex h-8 items-center rounded-[8px] bg-[#1E3A8A] px-3 text-xs font-medium text-white hover:bg-[#1D4ED8] disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Apply to {codes.length} spots
+            </button>
+          </form>
+        ) : null}
+        <button
+          type="button"
+          onClick={onClear}
+          className="inline-flex h-9 w-full items-center justify-center gap-1.5 rounded-[10px] border border-red-200 bg-red-50 text-xs font-medium text-red-700 hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+        >
+          <TriangleAlert className="h-3.5 w-3.5" aria-hidden="true" />
+          Clear Selection
+        </button>
+      </div>
+
+      <div className="pt-4 border-t border-gray-200">
+        <h4 className="text-xs font-semibold text-gray-700 mb-2">Status</h4>
+        <BaySummary slots={codes.map((code) => getSlot(inventory, code))} />
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-gray-700 mb-2">Spots</h4>
+        <ul className="max-h-64 divide-y divide-slate-100 overflow-y-auto rounded-[10px] border border-[#e2e8f0] text-xs">
+          {codes.map((code) => {
+            const slot = getSlot(inventory, code);
+            return (
+              <li key={code}>
+                <button
+                  type="button"
+                  onClick={() => onFocus(code)}
+                  className="flex w-full items-center justify-between gap-2 px-3 py-1.5 text-left hover:bg-slate-50"
+                >
+                  <span className="font-mono font-semibold text-[#0f172b]">{code}</span>
+                  <span className="truncate text-slate-500">{slot.sku ?? ""}</span>
+                  <span className={`shrink-0 font-medium ${SLOT_STATUS_TEXT_CLASS[slot.status]}`}>
+                    {SLOT_STATUS_LABEL[slot.status]}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import * as React from "react";
+
+import { ChevronDown } from "lucide-react";
+import { SITE_LAYOUTS, siteLabel } from "../lib/sites";
+
+export function SiteSelector({
+  siteId,
+  onSiteChange,
+}: {
+  siteId: string;
+  onSiteChange: (id: string) => void;
+}) {
+  return (
+    <div className="shrink-0 pt-1">
+      <div className="text-[12px] font-medium text-white/70">Warehouse / Client</div>
+      <div className="relative mt-1 inline-flex items-center">
+        <select
+          className="h-8 appearance-none rounded-[10px] bg-white/10 px-3 pr-9 text-sm font-medium text-white outline-none ring-1 ring-white/15 transition hover:bg-white/15 focus-visible:ring-2 focus-visible:ring-white/40"
+          value={siteId}
+          onChange={(e) => onSiteChange(e.target.value)}
+          aria-label="Warehouse and client"
+        >
+          {SITE_LAYOUTS.map((layout) => (
+            <option key={layout.id} value={layout.id} className="text-slate-900">
+              {siteLabel(layout)}
+            </option>
+          ))}
+        </select>
+        <ChevronDown className="pointer-events-none absolute right-2 size-4 opacity-80" />
+      </div>
+    </div>
+  );
+}
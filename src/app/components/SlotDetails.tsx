@@ -0,0 +1,152 @@
+import * as React from "react";
+
+import { SLOT_STATUS_LABEL, type SlotChange, type SlotRecord, type SlotStatus } from "../lib/inventory";
+import { draftFromSlot, draftProblem, holdFromDraft, StatusFields } from "./StatusFields";
+
+export const SLOT_STATUS_TEXT_CLASS: Record<SlotStatus, string> = {
+  occupied: "text-sky-700",
+  empty: "text-green-600",
+  reserved: "text-violet-700",
+  blocked: "text-rose-700",
+};
+
+function formatTimestamp(iso: string | null) {
+  if (!iso) return "—";
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleString();
+}
+
+export function SlotDetails({
+  slot,
+  onEdit,
+  canEditStatus = false,
+  author = null,
+}: {
+  slot: SlotRecord;
+  /** Shows the edit form: the note always, status and holds only with `canEditStatus`. */
+  onEdit?: (change: SlotChange) => void;
+  canEditStatus?: boolean;
+  /** Signed-in name the edit is recorded under. */
+  author?: string | null;
+}) {
+  return (
+    <div className="space-y-1 text-xs text-slate-600">
+      <p>
+        <span className="font-medium">Status:</span>{" "}
+        <span className={`font-semibold ${SLOT_STATUS_TEXT_CLASS[slot.status]}`}>{SLOT_STATUS_LABEL[slot.status]}</span>
+      </p>
+      {slot.hold ? (
+        <div
+          className={`rounded-[8px] border px-2 py-1.5 ${
+            slot.status === "blocked" ? "border-rose-200 bg-rose-50 text-rose-900" : "border-violet-200 bg-violet-50 text-violet-900"
+          }`}
+        >
+          <p className="font-medium">{slot.hold.reason}</p>
+          <p className="text-[11px] opacity-80">
+            {slot.hold.author ? `By ${slot.hold.author}` : "Author unknown"} •{" "}
+            {slot.hold.expiresAt ? `until ${formatTimestamp(slot.hold.expiresAt)}` : "until lifted"}
+          </p>
+        </div>
+      ) : null}
+      <p>
+        <span className="font-medium">SKU:</span> <span className="font-mono">{slot.sku ?? "—"}</span>
+      </p>
+      <p>
+        <span className="font-medium">Description:</span> {slot.description ?? "—"}
+      </p>
+      <p>
+        <span className="font-medium">Quantity:</span> {slot.quantity ?? "—"}
+      </p>
+      <p>
+        <span className="font-medium">Pallet ID:</span> <span className="font-mono">{slot.palletId ?? "—"}</span>
+      </p>
+      <p>
+        <span className="font-medium">Last moved:</span> {formatTimestamp(slot.lastMovedAt)}
+      </p>
+      <p>
+        <span className="font-medium">Note:</span> {slot.note ?? "—"}
+      </p>
+      {onEdit ? (
+        <SlotEditForm key={slot.code} slot={slot} onEdit={onEdit} canEditStatus={canEditStatus} author={author} />
+      ) : null}
+    </div>
+  );
+}
+
+function SlotEditForm({
+  slot,
+  onEdit,
+  canEditStatus,
+  author,
+}: {
+  slot: SlotRecord;
+  onEdit: (change: SlotChange) => void;
+  canEditStatus: boolean;
+  author: string | null;
+}) {
+  const [draft, setDraft] = React.useState(() => draftFromSlot(slot));
+  const [note, setNote] = React.useState(slot.note ?? "");
+  // Reset the form to what was saved, including edits made elsewhere (e.g. an expired hold).
+  // Keyed on content: slots without a record are rebuilt on every render.
+  const saved = JSON.stringify(slot);
+  React.useEffect(() => {
+    setDraft(draftFromSlot(slot));
+    setNote(slot.note ?? "");
+  }, [saved]);
+
+  const statusChanged = JSON.stringify(draft) !== JSON.stringify(draftFromSlot(slot));
+  const noteChanged = note.trim() !== (slot.note ?? "");
+  const problem = draftProblem(draft);
+
+  return (
+    // Editing the selected slot mustn't count as a click-away from it.
+    <form
+      data-keep-selection="true"
+      className="mt-2 space-y-2 border-t border-[#e2e8f0] pt-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if ((!statusChanged && !noteChanged) || problem) return;
+        onEdit({
+          ...(statusChanged ? { status: draft.status, hold: holdFromDraft(draft, author) } : {}),
+          ...(noteChanged ? { note: note.trim() || null } : {}),
+        });
+      }}
+    >
+      {canEditStatus ? <StatusFields draft={draft} onChange={setDraft} /> : null}
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        rows={2}
+        placeholder="Add a note for this spot"
+        aria-label="Note"
+        className="w-full rounded-[8px] border border-[#e2e8f0] bg-white px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-[#93c5fd]"
+      />
+      {(statusChanged || noteChanged) && problem ? <p className="text-[11px] text-amber-700">{problem}</p> : null}
+      <button
+        type="submit"
+        disabled={(!statusChanged && !noteChanged) || !!problem}
+        className="inline-flex h-7 items-center rounded-[8px] bg-[#1E3A8A] px-3 text-xs font-medium text-white hover:bg-[#1D4ED8] disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        Save
+      </button>
+    </form>
+  );
+}
+
+export function BaySummary({ slots }: { slots: SlotRecord[] }) {
+  const counts = slots.reduce<Partial<Record<SlotStatus, number>>>((acc, s) => {
+    acc[s.status] = (acc[s.status] ?? 0) + 1;
+    return acc;
+  }, {});
+  return (
+    <div className="space-y-1 text-xs text-slate-600">
+      {(Object.keys(SLOT_STATUS_LABEL) as SlotStatus[]).map((status) => (
+        <p key={status}>
+          <span className="font-medium">{SLOT_STATUS_LABEL[status]}:</span>{" "}
+          <span className={`font-semibold ${SLOT_STATUS_TEXT_CLASS[status]}`}>{counts[status] ?? 0}</span> of{" "}
+          {slots.length}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import * as React from "react";
+import { Camera, History, Trash2 } from "lucide-react";
+
+import type { SlotPhoto } from "../lib/offlineStore";
+import { useSlotHistory, useSlotPhotos } from "../lib/slotHistory";
+
+/** Audit history for one spot: every status, hold, note and photo change, newest first. */
+export function SlotHistory({ layoutId, code }: { layoutId: string; code: string }) {
+  const { entries, error } = useSlotHistory(layoutId, code);
+  return (
+    <div className="pt-2">
+      <h4 className="text-xs font-semibold text-gray-700 mb-2 flex items-center gap-1.5">
+        <History className="h-3.5 w-3.5" aria-hidden="true" />
+        History
+      </h4>
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+      {entries.length ? (
+        <ol className="max-h-48 space-y-1.5 overflow-y-auto text-xs text-slate-600">
+          {entries.map((e) => (
+            <li key={e.id}>
+              <p className="text-slate-800">{e.summary}</p>
+              <p className="text-[11px] text-slate-400">
+                {new Date(e.at).toLocaleString()} • {e.author ?? "System"}
+              </p>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-xs text-slate-400">No changes recorded on this device.</p>
+      )}
+    </div>
+  );
+}
+
+function PhotoThumb({ photo, onRemove }: { photo: SlotPhoto; onRemove?: () => void }) {
+  const [url, setUrl] = React.useState<string | null>(null);
+  React.useEffect(() => {
+    const objectUrl = URL.createObjectURL(photo.blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [photo.blob]);
+
+  return (
+    <div className="group relative">
+      <a href={url ?? undefined} target="_blank" rel="noreferrer" title={`${photo.name} • ${photo.author ?? "unknown"}`}>
+        {url ? <img src={url} alt={photo.name} className="h-16 w-full rounded-[8px] object-cover" /> : null}
+      </a>
+      {onRemove ? (
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label={`Remove ${photo.name}`}
+          className="absolute right-1 top-1 rounded-md bg-white/90 p-0.5 text-slate-500 opacity-0 hover:text-red-600 focus:opacity-100 group-hover:opacity-100"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      ) : null}
+    </div>
+  );
+}
+
+/** Photos of one spot, e.g. rack damage, kept on this device. Only `editable` lists can add or remove them. */
+export function SlotPhotos({
+  layoutId,
+  code,
+  author,
+  editable,
+}: {
+  layoutId: string;
+  code: string;
+  author: string | null;
+  editable: boolean;
+}) {
+  const { photos, error, add, remove } = useSlotPhotos(layoutId, code);
+  const fileRef = React.useRef<HTMLInputElement | null>(null);
+
+  return (
+    <div className="pt-2" data-keep-selection="true">
+      <div className="mb-2 flex items-center justify-between">
+        <h4 className="text-xs font-semibold text-gray-700">Photos</h4>
+        {editable ? (
+          <>
+            <button
+              type="button"
+              onClick={() => fileRef.current?.click()}
+              className="inline-flex items-center gap-1 rounded-[8px] border border-[#e2e8f0] bg-white px-2 py-1 text-[11px] font-medium text-slate-700 hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+            >
+              <Camera className="h-3.5 w-3.5" aria-hidden="true" />
+              Add photo
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void add(file, author);
+                e.target.value = "";
+              }}
+            />
+          </>
+        ) : null}
+      </div>
+      {photos.length ? (
+        <div className="grid grid-cols-3 gap-1.5">
+          {photos.map((p) => (
+            <PhotoThumb key={p.id} photo={p} onRemove={editable ? () => void remove(p, author) : undefined} />
+          ))}
+        </div>
+      ) : editable ? null : (
+        <p className="text-xs text-slate-400">No photos.</p>
+      )}
+      {error ? <p className="mt-1 text-xs text-red-600">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import * as React from "react";
+import { ArrowRightLeft, Download, Upload, X } from "lucide-react";
+
+import type { AisleGraph } from "../lib/aisleGraph";
+import { downloadBlob } from "../lib/download";
+import { formatMinutesSeconds } from "../lib/format";
+import type { SlotInventory } from "../lib/inventory";
+import {
+  parseVelocityFile,
+  planSlotting,
+  slottingCsv,
+  VelocityImportError,
+  type SkuVelocity,
+  type SlottingMove,
+} from "../lib/slotting";
+import type { TravelModel } from "../lib/travelTime";
+
+export function SlottingAdvisor({
+  graph,
+  travelModel,
+  inventory,
+  onMovesChange,
+}: {
+  graph: AisleGraph;
+  travelModel: TravelModel;
+  inventory: SlotInventory;
+  /** The moves to draw on the grid, or `null` to draw none. */
+  onMovesChange: (moves: SlottingMove[] | null) => void;
+}) {
+  const { layout } = graph;
+  const [velocity, setVelocity] = React.useState<{ skus: SkuVelocity; fileName: string } | null>(null);
+  const [maxMoves, setMaxMoves] = React.useState(layout.slotting.maxMovesPerDay);
+  const [showOnGrid, setShowOnGrid] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const fileRef = React.useRef<HTMLInputElement | null>(null);
+
+  const plan = React.useMemo(
+    () =>
+      velocity
+        ? planSlotting(graph, travelModel, inventory, velocity.skus, {
+            maxMovesPerDay: maxMoves,
+            reservedRows: layout.slotting.reservedRows,
+          })
+        : null,
+    [graph, travelModel, inventory, velocity, maxMoves, layout],
+  );
+
+  React.useEffect(() => {
+    onMovesChange(plan && showOnGrid && plan.moves.length ? plan.moves : null);
+  }, [plan, showOnGrid, onMovesChange]);
+
+  const importFile = async (file: File) => {
+    try {
+      setVelocity({ skus: parseVelocityFile(await file.text(), file.name), fileName: file.name });
+      setError(null);
+    } catch (err) {
+      const detail = err instanceof VelocityImportError && err.problems.length ? ` ${err.problems[0]}` : "";
+      setError(`${(err as Error).message}${detail}`);
+    }
+  };
+
+  const reserved = layout.slotting.reservedRows;
+
+  return (
+    <div className="rounded-[16px] border border-[#e2e8f0] bg-white p-4 shadow-[0px_1px_3px_0px_rgba(0,0,0,0.10),0px_1px_2px_-1px_rgba(0,0,0,0.10)]">
+      <h2 className="text-lg font-semibold text-[#0f172b] mb-1 flex items-center gap-2">
+        <ArrowRightLeft className="w-5 h-5 text-[#1e3a8a]" />
+        Slotting Advisor
+      </h2>
+      <p className="mb-4 text-xs text-slate-500">
+        Moves fast movers toward the {layout.compass[layout.entranceSide]} entrance. Blocked and reserved spots stay
+        put{reserved.length ? `, and row ${reserved.join(", ")} is reserved at this site` : ""}.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          className="inline-flex h-10 items-center gap-1.5 rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-sm font-medium text-slate-700 transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+        >
+          <Upload className="h-4 w-4" aria-hidden="true" />
+          Import SKU velocity (CSV)
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) void importFile(file);
+          }}
+        />
+        <label className="inline-flex items-center gap-2 text-sm text-slate-600">
+          Max moves per day
+          <input
+            type="number"
+            min={1}
+            value={maxMoves}
+            onChange={(e) => {
+              const n = Math.floor(Number(e.target.value));
+              if (n >= 1) setMaxMoves(n);
+            }}
+            className="h-10 w-20 rounded-[10px] border border-[#e2e8f0] bg-white px-3 text-sm outline-none focus:ring-2 focus:ring-[#93c5fd]"
+          />
+        </label>
+        <label className="inline-flex items-center gap-2 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={showOnGrid}
+            onChange={(e) => setShowOnGrid(e.target.checked)}
+            className="h-4 w-4 rounded border-slate-300"
+          />
+          Show on grid
+        </label>
+        {velocity ? (
+          <button
+            type="button"
+            onClick={() => setVelocity(null)}
+            aria-label="Clear SKU velocity"
+            className="ml-auto inline-flex h-10 items-center justify-center rounded-[10px] bg-slate-100 px-3 text-slate-700 transition-colors hover:bg-slate-200 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        ) : null}
+      </div>
+
+      {error ? <p className="mt-3 text-xs text-red-600">{error}</p> : null}
+
+      {velocity && plan ? (
+        <div className="mt-4">
+          <p className="mb-2 text-xs text-slate-500">
+            {Object.keys(velocity.skus).length} SKUs from {velocity.fileName}
+            {plan.deferred ? ` • ${plan.deferred} more ${plan.deferred === 1 ? "move" : "moves"} over today's cap` : ""}
+          </p>
+          {plan.moves.length ? (
+            <>
+              <ol className="divide-y divide-slate-100 rounded-[12px] border border-[#e2e8f0] text-sm">
+                {plan.moves.map((m) => (
+                  <li key={m.rank} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <span className="min-w-0">
+                      <span className="mr-2 inline-flex h-5 w-5 items-center justify-center rounded-full bg-violet-600 text-[11px] font-semibold text-white">
+                        {m.rank}
+                      </span>
+                      <span className="font-semibold text-[#0f172b]">{m.sku}</span>{" "}
+                      <span className="font-mono text-slate-500">{m.from}</span>
+                      {m.kind === "swap" ? " ⇄ " : " → "}
+                      <span className="font-mono font-semibold text-[#0f172b]">{m.to}</span>
+                      {m.swapSku ? <span className="text-xs text-slate-500"> (swap with {m.swapSku})</span> : null}
+                    </span>
+                    <span className="shrink-0 text-xs text-slate-500">
+                      {m.picksPerDay}/day • saves {formatMinutesSeconds(m.secondsSavedPerDay)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+              <div className="mt-3 flex flex-wrap items-center justify-between gap-2 rounded-[12px] border border-green-200 bg-green-50 px-3 py-2 text-sm">
+                <span className="font-semibold text-green-700">
+                  Saves {formatMinutesSeconds(plan.secondsSavedPerDay)} of walking per day
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    downloadBlob(
+                      new Blob([slottingCsv(plan.moves)], { type: "text/csv" }),
+                      `${layout.id}-slotting-moves.csv`,
+                    )
+                  }
+                  className="inline-flex h-8 items-center gap-1.5 rounded-[10px] border border-green-300 bg-white px-3 text-xs font-medium text-green-800 hover:bg-green-100"
+                >
+                  <Download className="h-3.5 w-3.5" aria-hidden="true" />
+                  Export CSV
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-slate-500">No moves would save walking time; the fast movers are already close.</p>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
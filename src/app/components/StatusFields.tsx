@@ -0,0 +1,91 @@
+import * as React from "react";
+
+import {
+  HOLD_STATUSES,
+  SLOT_STATUS_LABEL,
+  SLOT_STATUSES,
+  type SlotHold,
+  type SlotRecord,
+  type SlotStatus,
+} from "../lib/inventory";
+
+const fieldClass =
+  "h-7 rounded-[8px] border border-[#e2e8f0] bg-white px-2 text-xs outline-none focus:ring-2 focus:ring-[#93c5fd]";
+
+/** A status change being filled in; `until` is a `datetime-local` value, empty for no expiry. */
+export interface StatusDraft {
+  status: SlotStatus;
+  reason: string;
+  until: string;
+}
+
+// `datetime-local` wants local time without a zone.
+function toLocalInput(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+export function draftFromSlot(slot: SlotRecord): StatusDraft {
+  return { status: slot.status, reason: slot.hold?.reason ?? "", until: toLocalInput(slot.hold?.expiresAt ?? null) };
+}
+
+/** Why the draft can't be saved yet, or `null` if it can. */
+export function draftProblem(draft: StatusDraft): string | null {
+  if (!HOLD_STATUSES.includes(draft.status)) return null;
+  if (!draft.reason.trim()) return `Give a reason for the ${SLOT_STATUS_LABEL[draft.status].toLowerCase()} status.`;
+  if (draft.until && new Date(draft.until).getTime() <= Date.now()) return "The expiry must be in the future.";
+  return null;
+}
+
+export function holdFromDraft(draft: StatusDraft, author: string | null): SlotHold | null {
+  if (!HOLD_STATUSES.includes(draft.status)) return null;
+  return {
+    reason: draft.reason.trim(),
+    author,
+    expiresAt: draft.until ? new Date(draft.until).toISOString() : null,
+  };
+}
+
+/** Status select, plus reason and expiry when the status puts the spot on hold. */
+export function StatusFields({ draft, onChange }: { draft: StatusDraft; onChange: (draft: StatusDraft) => void }) {
+  const onHold = HOLD_STATUSES.includes(draft.status);
+  return (
+    <>
+      <label className="flex items-center gap-2">
+        <span className="font-medium">Set status:</span>
+        <select
+          value={draft.status}
+          onChange={(e) => onChange({ ...draft, status: e.target.value as SlotStatus })}
+          className={fieldClass}
+        >
+          {SLOT_STATUSES.map((s) => (
+            <option key={s} value={s}>
+              {SLOT_STATUS_LABEL[s]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {onHold ? (
+        <>
+          <input
+            value={draft.reason}
+            onChange={(e) => onChange({ ...draft, reason: e.target.value })}
+            placeholder={draft.status === "blocked" ? "Reason, e.g. rack upright damaged" : "Reason, e.g. held for PO 4471"}
+            aria-label="Reason"
+            className={`${fieldClass} w-full`}
+          />
+          <label className="flex items-center gap-2">
+            <span className="font-medium">Until:</span>
+            <input
+              type="datetime-local"
+              value={draft.until}
+              onChange={(e) => onChange({ ...draft, until: e.target.value })}
+              className={`${fieldClass} flex-1`}
+            />
+          </label>
+        </>
+      ) : null}
+    </>
+  );
+}
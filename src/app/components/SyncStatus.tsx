@@ -0,0 +1,60 @@
+import * as React from "react";
+import { CloudOff, HardDrive, RefreshCw } from "lucide-react";
+
+function formatAge(iso: string, now: number) {
+  const minutes = Math.floor((now - new Date(iso).getTime()) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+export function SyncStatus({
+  online,
+  lastSyncedAt,
+  pendingEdits,
+  offlineCopyError = null,
+}: {
+  online: boolean;
+  lastSyncedAt: string | null;
+  pendingEdits: number;
+  /** Why the device copy of the inventory couldn't be saved; the plan then can't open offline. */
+  offlineCopyError?: string | null;
+}) {
+  const [now, setNow] = React.useState(() => Date.now());
+
+  React.useEffect(() => {
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 30_000);
+    return () => window.clearInterval(timer);
+  }, [lastSyncedAt]);
+
+  return (
+    <>
+      {!online ? (
+        <span className="inline-flex items-center gap-1 rounded-full border border-amber-200 bg-amber-50 px-3 py-1 text-xs font-semibold text-amber-700">
+          <CloudOff className="h-3.5 w-3.5" aria-hidden="true" />
+          Offline
+        </span>
+      ) : null}
+      {offlineCopyError ? (
+        <span
+          className="inline-flex items-center gap-1 rounded-full border border-amber-200 bg-amber-50 px-3 py-1 text-xs font-semibold text-amber-700"
+          title={`The plan can't open offline on this device: ${offlineCopyError}`}
+        >
+          <HardDrive className="h-3.5 w-3.5" aria-hidden="true" />
+          No offline copy
+        </span>
+      ) : null}
+      <span
+        className="inline-flex items-center gap-1 text-xs text-slate-500"
+        title={lastSyncedAt ? new Date(lastSyncedAt).toLocaleString() : undefined}
+      >
+        <RefreshCw className="h-3.5 w-3.5" aria-hidden="true" />
+        {lastSyncedAt ? `Synced ${formatAge(lastSyncedAt, now)}` : "Not synced yet"}
+        {pendingEdits ? ` • ${pendingEdits} ${pendingEdits === 1 ? "edit" : "edits"} queued` : ""}
+      </span>
+    </>
+  );
+}
@@ -0,0 +1,142 @@
+import * as React from "react";
+import { act, render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import axe from "axe-core";
+import { describe, expect, it } from "vitest";
+
+import { buildCode } from "../lib/layout";
+import { DEFAULT_LAYOUT } from "../lib/sites";
+import { WarehouseFloorPlan } from "./WarehouseFloorPlan";
+
+const { spotOrder, spotColumns } = DEFAULT_LAYOUT;
+
+// The table grid, drawn as the layout is (entrance at the bottom); the scale map is the default floor view.
+async function renderGrid() {
+  const user = userEvent.setup();
+  render(<WarehouseFloorPlan layout={DEFAULT_LAYOUT} entranceView="bottom" syncUrl={false} />);
+  await user.click(screen.getByRole("button", { name: "Table" }));
+  const grid = screen.getByRole("grid");
+  const spot = (code: string) => within(grid).getByRole("button", { name: new RegExp(`^${code},`) });
+  const tabStops = () => within(grid).getAllByRole("button").filter((b) => b.tabIndex === 0);
+  const announcement = () => document.querySelector('[aria-live="polite"]')?.textContent ?? "";
+  return { user, grid, spot, tabStops, announcement };
+}
+
+describe("WarehouseFloorPlan grid", () => {
+  it("exposes grid, row, header and cell roles", async () => {
+    const { grid } = await renderGrid();
+
+    expect(grid.tagName).toBe("TABLE");
+    expect(grid.getAttribute("aria-label")).toMatch(/Arrow keys move between spots, Enter selects, Escape clears\./);
+    const rows = within(grid).getAllByRole("row");
+    // One header row, then one per layout row.
+    expect(rows).toHaveLength(DEFAULT_LAYOUT.rows.length + 1);
+    expect(within(rows[0]).getAllByRole("columnheader")).toHaveLength(DEFAULT_LAYOUT.aisleCount + 1);
+    for (const row of rows.slice(1)) {
+      expect(within(row).getAllByRole("rowheader")).toHaveLength(1);
+      expect(within(row).getAllByRole("gridcell")).toHaveLength(DEFAULT_LAYOUT.aisleCount);
+    }
+    // Bays past a row's last aisle have no storage and no spots.
+    const empty = within(grid)
+      .getAllByRole("gridcell")
+      .filter((cell) => cell.getAttribute("aria-disabled") === "true");
+    expect(empty.length).toBeGreaterThan(0);
+    for (const cell of empty) expect(within(cell).queryAllByRole("button")).toHaveLength(0);
+  });
+
+  it("has no axe violations", async () => {
+    const { grid } = await renderGrid();
+    // jsdom computes no colors, so contrast can't be checked here.
+    const results = await axe.run(grid, { rules: { "color-contrast": { enabled: false } } });
+    expect(results.violations.map((v) => `${v.id}: ${v.help}`)).toEqual([]);
+  });
+
+  it("keeps a single tab stop that follows focus", async () => {
+    const { user, spot, tabStops } = await renderGrid();
+    const first = buildCode("I", 1, spotOrder[0]);
+
+    expect(tabStops()).toEqual([spot(first)]);
+    act(() => spot(first).focus());
+    await user.keyboard("{ArrowRight}");
+
+    const second = spot(buildCode("I", 1, spotOrder[1]));
+    expect(document.activeElement).toBe(second);
+    expect(tabStops()).toEqual([second]);
+    expect(spot(first).tabIndex).toBe(-1);
+  });
+
+  it("moves with the arrow keys in spotOrder order, across bays", async () => {
+    const { user, spot } = await renderGrid();
+    act(() => spot(buildCode("I", 1, spotOrder[0])).focus());
+
+    // Right walks the first spot line of the bay, then into the next aisle's bay.
+    const across = [
+      ...spotOrder.slice(1, spotColumns).map((s) => buildCode("I", 1, s)),
+      buildCode("I", 2, spotOrder[0]),
+    ];
+    for (const code of across) {
+      await user.keyboard("{ArrowRight}");
+      expect(document.activeElement).toBe(spot(code));
+    }
+    await user.keyboard("{ArrowLeft}");
+    expect(document.activeElement).toBe(spot(buildCode("I", 1, spotOrder[spotColumns - 1])));
+
+    // Down walks the bay's spot lines, then into the next row's bay.
+    act(() => spot(buildCode("I", 1, spotOrder[0])).focus());
+    const lines = spotOrder.length / spotColumns;
+    const down = [
+      ...Array.from({ length: lines - 1 }, (_, i) => buildCode("I", 1, spotOrder[(i + 1) * spotColumns])),
+      buildCode(DEFAULT_LAYOUT.rows[1].code, 1, spotOrder[0]),
+    ];
+    for (const code of down) {
+      await user.keyboard("{ArrowDown}");
+      expect(document.activeElement).toBe(spot(code));
+    }
+    await user.keyboard("{ArrowUp}");
+    expect(document.activeElement).toBe(spot(buildCode("I", 1, spotOrder[spotOrder.length - spotColumns])));
+  });
+
+  it("stays put at the edge of storage", async () => {
+    const { user, spot } = await renderGrid();
+    // Row A ends at aisle 6; everything to its right has no storage.
+    const edge = spot(buildCode("A", 6, spotOrder[spotColumns - 1]));
+    act(() => edge.focus());
+    await user.keyboard("{ArrowRight}");
+    expect(document.activeElement).toBe(edge);
+  });
+
+  it("selects the focused spot with Enter and announces it", async () => {
+    const { user, spot, announcement } = await renderGrid();
+    const code = buildCode("I", 1, spotOrder[0]);
+    act(() => spot(code).focus());
+    await user.keyboard("{ArrowRight}{Enter}");
+
+    const selected = buildCode("I", 1, spotOrder[1]);
+    expect(spot(selected).className).toMatch(/ring-blue-700/);
+    expect(announcement()).toMatch(new RegExp(`^${selected} selected, empty\\. Walk from the entrance: about .+\\.$`));
+  });
+
+  it("clears the selection with Escape and announces it", async () => {
+    const { user, spot, announcement } = await renderGrid();
+    const code = buildCode("I", 1, spotOrder[0]);
+    act(() => spot(code).focus());
+    await user.keyboard("{Enter}");
+    expect(spot(code).className).toMatch(/ring-blue-700/);
+
+    await user.keyboard("{Escape}");
+    expect(spot(code).className).not.toMatch(/ring-blue-700/);
+    expect(announcement()).toBe("Selection cleared.");
+    // Focus stays on the spot so the keyboard user can carry on from there.
+    expect(document.activeElement).toBe(spot(code));
+  });
+
+  it("announces a multi-selection by count", async () => {
+    const { user, spot, announcement } = await renderGrid();
+    await user.click(spot(buildCode("I", 1, spotOrder[0])));
+    await user.keyboard("{Control>}");
+    await user.click(spot(buildCode("I", 2, spotOrder[0])));
+    await user.keyboard("{/Control}");
+
+    expect(announcement()).toMatch(/^2 spots selected\. Walk to visit them all: about .+\.$/);
+  });
+});
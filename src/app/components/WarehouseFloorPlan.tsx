@@ -1,233 +1,963 @@
 import * as React from "react";
-import { Search, X, MapPin, Clock, TriangleAlert } from "lucide-react";
+import {
+  MapPin,
+  Clock,
+  Gauge,
+  GraduationCap,
+  MapIcon,
+  PencilRuler,
+  Table2,
+  Tags,
+  TriangleAlert,
+} from "lucide-react";
 
-type RowCode = 'I' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G';
+import {
+  buildCode,
+  codesInRange,
+  describeRows,
+  fullCode,
+  getRow,
+  getSpotNumbers,
+  isValidLocation,
+  parseLocationCode,
+  qualifyCode,
+  type CompassSide,
+  type Location,
+  type RowCode,
+  type WarehouseLayout,
+} from "../lib/layout";
+import { DEFAULT_LAYOUT } from "../lib/sites";
+import { buildGridView, type BayCell, type GridHeader } from "../lib/entranceView";
+import { getSlot, SLOT_STATUS_LABEL, useInventory, type SlotRecord } from "../lib/inventory";
+import { buildAisleGraph } from "../lib/aisleGraph";
+import { can, canEdit, useIdentity } from "../lib/auth";
+import { buildFloorMapScene, useFloorView } from "../lib/floorMap";
+import { HIGHLIGHT } from "../lib/floorPlanExport";
+import { formatMinutesSeconds } from "../lib/format";
+import { applyLiveEvent, useLiveUpdates } from "../lib/liveUpdates";
+import { buildSpotMatrix, firstSpot, nextSpot, selectionAnnouncement } from "../lib/gridNavigation";
+import {
+  buildHeatMap,
+  formatHeatValue,
+  HEAT_COLORS,
+  HEAT_METRIC_LABEL,
+  HEAT_METRICS,
+  heatBin,
+  ordinal,
+  usePickHistory,
+  type HeatMap,
+  type HeatMetric,
+} from "../lib/heatmap";
+import { useQuiz, useQuizResults } from "../lib/quiz";
+import type { PutAwaySuggestion } from "../lib/putAway";
+import type { PlannedRoute } from "../lib/routePlanner";
+import { resolveLocation, runSearch, suggestItems } from "../lib/search";
+import { lineIndexOf, phoneLines, type PhoneLineKind } from "../lib/phoneLayout";
+import { planSelectionTour, sortCodes, useDragSelect } from "../lib/selection";
+import type { SlottingMove } from "../lib/slotting";
+import { estimateTravelSeconds, liftSeconds, useTravelCalibration } from "../lib/travelTime";
+import { readUrlParam, usePopState, writeUrlParams } from "../lib/urlState";
+import type { EntranceView } from "../types";
+import { AccountMenu } from "./AccountMenu";
+import { BottomSheet } from "./BottomSheet";
+import { CalibrationDialog } from "./CalibrationDialog";
+import { ExportMenu } from "./ExportMenu";
+import { HEAT_TEXT_CLASS, HeatMapControls, HeatPercentiles } from "./HeatMapControls";
+import { InventoryLegend, SLOT_STATUS_SPOT_CLASS } from "./InventoryLegend";
+import { LabelGenerator } from "./LabelGenerator";
+import { LiveBadge } from "./LiveBadge";
+import { MoveOverlay } from "./MoveOverlay";
+import { PhoneFloorLine } from "./PhoneFloorLine";
+import { PutAwayAssistant } from "./PutAwayAssistant";
+import { QuizPanel } from "./QuizPanel";
+import { QuizResultsDialog } from "./QuizResultsDialog";
+import { RackElevation } from "./RackElevation";
+import { RouteOverlay } from "./RouteOverlay";
+import { RoutePlanner } from "./RoutePlanner";
+import { ScaleFloorMap } from "./ScaleFloorMap";
+import { ScanBar } from "./ScanBar";
+import { SearchBox } from "./SearchBox";
+import { SelectionSummary } from "./SelectionSummary";
+import { BaySummary, SlotDetails } from "./SlotDetails";
+import { SlotHistory, SlotPhotos } from "./SlotHistory";
+import { SlottingAdvisor } from "./SlottingAdvisor";
+import { SyncStatus } from "./SyncStatus";
 
-interface Location {
-  row: RowCode;
-  aisle: number;
-  spot: number | null;
-  code: string;
-}
-
-// Determine if a location is valid based on warehouse geometry
-function isValidLocation(row: RowCode, aisle: number): boolean {
-  if (row === 'I') return aisle >= 1 && aisle <= 9;
-  if (['A', 'B', 'C', 'D'].includes(row)) return aisle >= 1 && aisle <= 6;
-  if (['E', 'F', 'G'].includes(row)) return aisle >= 1 && aisle <= 5;
-  return false;
-}
-
-type Location3D = { row: RowCode; aisle: number; spot: number };
-
-const ROW_INDEX: Record<RowCode, number> = {
-  G: 0,
-  F: 1,
-  E: 2,
-  D: 3,
-  C: 4,
-  B: 5,
-  A: 6,
-  I: 7,
-};
-
-const WALK_TIME_ANCHORS: Array<Location3D & { seconds: number }> = [
-  { row: "I", aisle: 1, spot: 1, seconds: 70 },
-  { row: "I", aisle: 9, spot: 9, seconds: 100 },
-  { row: "D", aisle: 6, spot: 9, seconds: 48 },
-  { row: "G", aisle: 1, spot: 9, seconds: 25 },
-  { row: "E", aisle: 5, spot: 5, seconds: 30 },
-];
-
-function formatMinutesSeconds(totalSeconds: number) {
-  const clamped = Math.max(0, Math.round(totalSeconds));
-  const minutes = Math.floor(clamped / 60);
-  const seconds = clamped % 60;
-  const secondLabel = seconds === 1 ? "second" : "seconds";
-  if (minutes <= 0) return `${seconds} ${secondLabel}`;
-  const minuteLabel = minutes === 1 ? "minute" : "minutes";
-  if (seconds <= 0) return `${minutes} ${minuteLabel}`;
-  return `${minutes} ${minuteLabel} ${seconds} ${secondLabel}`;
-}
-
-function estimateWalkSecondsIDW(loc: Location3D) {
-  const ROW_SPAN = 7;
-  const AISLE_SPAN = 8; // 1..9
-  const SPOT_SPAN = 8; // 1..9
-
-  const eps = 1e-6;
-  const power = 2;
+const PUT_AWAY_RING = "#06b6d4";
 
-  const anchorSeconds = WALK_TIME_ANCHORS.map((a) => a.seconds);
-  const minAnchorSeconds = Math.min(...anchorSeconds);
-  const maxAnchorSeconds = Math.max(...anchorSeconds);
+const putAwayTitle = (c: PutAwaySuggestion) => `Put-away #${c.rank} ${c.code}: ${c.reasons.join("; ")}`;
 
-  let weightedSum = 0;
-  let weightTotal = 0;
+// How long a spot changed by the live feed stays flashing.
+const LIVE_FLASH_MS = 2_000;
 
-  for (const a of WALK_TIME_ANCHORS) {
-    if (a.row === loc.row && a.aisle === loc.aisle && a.spot === loc.spot) return a.seconds;
+const floorViewToggleClass = (active: boolean) =>
+  `inline-flex items-center gap-1.5 rounded-[8px] px-2.5 py-1 text-xs font-medium transition-colors ${
+    active ? "bg-[#1E3A8A] text-white" : "border border-[#e2e8f0] bg-white text-slate-700 hover:bg-slate-50"
+  }`;
 
-    const dr = Math.abs(ROW_INDEX[loc.row] - ROW_INDEX[a.row]) / ROW_SPAN;
-    const da = Math.abs(loc.aisle - a.aisle) / AISLE_SPAN;
-    const ds = Math.abs(loc.spot - a.spot) / SPOT_SPAN;
-    const distance = Math.sqrt(dr * dr + da * da + ds * ds);
-    const w = 1 / Math.pow(distance + eps, power);
-
-    weightedSum += w * a.seconds;
-    weightTotal += w;
-  }
-
-  const pred = weightedSum / weightTotal;
-  const clamped = Math.max(minAnchorSeconds, Math.min(maxAnchorSeconds, pred));
-  return Math.round(clamped);
+// `?loc=` accepts anything the search box does (I-2-7, I-2-7-C, I-2, I27, dtx-lola:I-2-7).
+function locationFromUrl(layout: WarehouseLayout): Location | null {
+  const raw = readUrlParam("loc");
+  return raw ? resolveLocation(layout, raw) : null;
 }
 
-function buildCode(row: RowCode, aisle: number, spot: number | null) {
-  return spot ? `${row}-${aisle}-${spot}` : `${row}-${aisle}`;
+// `?sel=` lists the spots of a multi-selection, comma-separated; codes that aren't spots are dropped.
+function codesFromUrl(layout: WarehouseLayout): string[] {
+  const codes = (readUrlParam("sel") ?? "").split(",").flatMap((raw) => {
+    const loc = parseLocationCode(layout, raw.trim());
+    return loc?.spot ? [buildCode(loc.row, loc.aisle, loc.spot)] : [];
+  });
+  const sorted = sortCodes(layout, new Set(codes));
+  return sorted.length > 1 ? sorted : [];
 }
 
-type ParsedSearch =
-  | { ok: true; row: RowCode; aisle: number; spot: number | null }
-  | { ok: false; message: string };
-
-function parseSearchInput(raw: string): ParsedSearch {
-  const value = raw.trim().toUpperCase();
-  if (!value) return { ok: false, message: "Enter a location (e.g., I-2-7 or I27)" };
-  const allowedRows: RowCode[] = ["I", "A", "B", "C", "D", "E", "F", "G"];
-  const firstChar = value[0];
-  if (/^[A-Z]$/.test(firstChar) && !allowedRows.includes(firstChar as RowCode)) {
-    return { ok: false, message: "Invalid row (valid rows: I, A–G)." };
-  }
-
-  // Hyphen formats: I-1 or I-1-2
-  const hyphen = value.match(/^([IA-G])-(\d)(?:-(\d))?$/);
-  if (hyphen) {
-    const row = hyphen[1] as RowCode;
-    const aisle = Number(hyphen[2]);
-    const spot = hyphen[3] ? Number(hyphen[3]) : null;
-    if (aisle < 1 || aisle > 9) return { ok: false, message: "Invalid aisle (valid range is 1–9)." };
-    if (spot !== null && (spot < 1 || spot > 9)) return { ok: false, message: "Invalid spot (valid range is 1–9)." };
-    return { ok: true, row, aisle, spot };
-  }
-
-  // Compact formats: I2 (partial) or I21 (full)
-  const compact = value.match(/^([IA-G])(\d)(\d)?$/);
-  if (compact) {
-    const row = compact[1] as RowCode;
-    const aisle = Number(compact[2]);
-    const spot = compact[3] ? Number(compact[3]) : null;
-    if (aisle < 1 || aisle > 9) return { ok: false, message: "Invalid aisle (valid range is 1–9)." };
-    if (spot !== null && (spot < 1 || spot > 9)) return { ok: false, message: "Invalid spot (valid range is 1–9)." };
-    return { ok: true, row, aisle, spot };
-  }
-
-  return {
-    ok: false,
-    message: "Invalid format. Use ROW-AISLE-SPOT (I-2-7), partial (I-2), or compact (I27).",
-  };
-}
-
-export function WarehouseFloorPlan() {
-  const [selectedLocation, setSelectedLocation] = React.useState<Location | null>(null);
+export function WarehouseFloorPlan({
+  layout = DEFAULT_LAYOUT,
+  entranceView = "bottom",
+  selectRequest,
+  highlightCodes,
+  inventoryRecords,
+  identityToken,
+  onSelect,
+  onClearSelection,
+  syncUrl = true,
+  phone = false,
+}: {
+  layout?: WarehouseLayout;
+  entranceView?: EntranceView;
+  /** Selects a location when given; pass a new object to re-apply the same one. */
+  selectRequest?: { location: Location | null };
+  /** Replaces the highlighted spots, e.g. with codes pushed by a host app. */
+  highlightCodes?: string[];
+  /** Validated slot records merged over the loaded inventory. */
+  inventoryRecords?: SlotRecord[];
+  /** An embedding host's SSO ID token (`null` for nobody); when given, the host owns sign-in. */
+  identityToken?: string | null;
+  onSelect?: (location: Location, slot: SlotRecord | null) => void;
+  onClearSelection?: () => void;
+  /** Keep selection and search in `?loc=`/`?q=`. Embedded widgets leave the host's history alone. */
+  syncUrl?: boolean;
+  /** Phone layout: one aisle or row at a time, and the selected-location panel as a bottom sheet. */
+  phone?: boolean;
+}) {
+  const [selectedCodes, setSelectedCodes] = React.useState<Set<string>>(
+    () => new Set(syncUrl ? codesFromUrl(layout) : []),
+  );
+  // Spots picked with shift/ctrl-click, a drag or a range search. While there are several,
+  // `selectedLocation` is only the anchor that shift-click ranges start from.
+  const [selectedLocation, setAnchorLocation] = React.useState<Location | null>(() => {
+    if (!syncUrl) return null;
+    const [first] = selectedCodes;
+    return locationFromUrl(layout) ?? (first ? resolveLocation(layout, first) : null);
+  });
+  const multiSelected = selectedCodes.size > 1;
+  // The multi-selection as `?sel=` holds it.
+  const selectionParam = React.useMemo(
+    () => (multiSelected ? sortCodes(layout, selectedCodes).join(",") : null),
+    [layout, multiSelected, selectedCodes],
+  );
+  // Includes the rack level, so picking another level of the same spot counts as a new selection.
+  const selectedFullCode = selectedLocation ? fullCode(selectedLocation) : null;
   const [searchValue, setSearchValue] = React.useState("");
   const [searchError, setSearchError] = React.useState<string | null>(null);
+  const [searchInfo, setSearchInfo] = React.useState<string | null>(null);
+  const [highlightedCodes, setHighlightedCodes] = React.useState<Set<string>>(() => new Set());
+  // Item search whose results are highlighted; kept in `?q=` next to the selection in `?loc=`.
+  const [activeQuery, setActiveQuery] = React.useState<string | null>(() => (syncUrl ? readUrlParam("q") : null));
   const scrollRootRef = React.useRef<HTMLDivElement | null>(null);
   const spotRefs = React.useRef<Record<string, HTMLButtonElement | null>>({});
+  const gridFrameRef = React.useRef<HTMLDivElement | null>(null);
+  const {
+    inventory,
+    loading: inventoryLoading,
+    error: inventoryError,
+    importFile,
+    mergeRecords,
+    editSlot,
+    receiveLiveEvent,
+    online,
+    lastSyncedAt,
+    pendingEdits,
+    offlineCopyError,
+  } = useInventory(layout);
+  const graph = React.useMemo(() => buildAisleGraph(layout), [layout]);
+  const { identity, error: identityError, signIn, signOut } = useIdentity(identityToken);
+  const author = identity?.name ?? null;
+  // Edit mode turns spot clicks into selection toggles and shows the controls the role allows.
+  const [editModeOn, setEditModeOn] = React.useState(false);
+  const editing = editModeOn && canEdit(identity);
+  const allowed = (permission: Parameters<typeof can>[1]) => editing && can(identity, permission);
+  const [route, setRoute] = React.useState<PlannedRoute | null>(null);
+  const [slottingMoves, setSlottingMoves] = React.useState<SlottingMove[] | null>(null);
+  const [putAwayCandidates, setPutAwayCandidates] = React.useState<PutAwaySuggestion[] | null>(null);
+  const putAwayByCode = React.useMemo(
+    () => new Map((putAwayCandidates ?? []).map((c) => [c.code, c])),
+    [putAwayCandidates],
+  );
+  const { calibration, saveCalibration } = useTravelCalibration(layout);
+  const [calibrating, setCalibrating] = React.useState(false);
+  const [printingLabels, setPrintingLabels] = React.useState(false);
+  const [heatMetric, setHeatMetric] = React.useState<HeatMetric | null>(null);
+  const pickHistory = usePickHistory(layout);
+  const heatMaps = React.useMemo(() => {
+    const inputs = { graph, model: calibration.model, inventory, history: pickHistory.history, now: Date.now() };
+    return Object.fromEntries(HEAT_METRICS.map((m) => [m, buildHeatMap(m, inputs)])) as Record<HeatMetric, HeatMap>;
+  }, [graph, calibration.model, inventory, pickHistory.history]);
+  const activeHeatMap = heatMetric ? heatMaps[heatMetric] : null;
+  const [quizOpen, setQuizOpen] = React.useState(false);
+  const [showingQuizResults, setShowingQuizResults] = React.useState(false);
+  const quizResults = useQuizResults();
+  const { quiz, start: startQuiz, answer: answerQuiz, stop: stopQuiz } = useQuiz({
+    layout,
+    inventory,
+    view: entranceView,
+    onFinish: quizResults.addSession,
+  });
+  // Level 3 questions turn the grid to a view the trainee doesn't normally use.
+  const displayView = quiz?.question.entranceView ?? entranceView;
+
+  const suggestions = React.useMemo(() => suggestItems(inventory, searchValue), [inventory, searchValue]);
+
+  // Selecting one location drops any multi-selection.
+  const setSelectedLocation = (location: Location | null) => {
+    setAnchorLocation(location);
+    setSelectedCodes(new Set());
+  };
+
+  const locationOf = (code: string): Location | null => {
+    const loc = parseLocationCode(layout, code);
+    return loc ? { ...loc, code } : null;
+  };
+
+  // Select several spots at once; a single spot (or none) is a plain selection.
+  const selectCodes = (codes: Iterable<string>, anchor?: Location | null) => {
+    const sorted = sortCodes(layout, new Set(codes));
+    if (sorted.length <= 1) {
+      setSelectedLocation(sorted.length ? locationOf(sorted[0]) : null);
+      return;
+    }
+    setAnchorLocation(anchor ?? locationOf(sorted[0]));
+    setSelectedCodes(new Set(sorted));
+  };
 
-  const primaryButtonClass =
-    "inline-flex h-12 items-center justify-center gap-2 rounded-[10px] bg-[#1E3A8A] px-4 text-[18px] font-medium leading-7 text-white shadow-sm transition-colors hover:bg-[#1D4ED8] focus:outline-none focus:ring-2 focus:ring-[#93c5fd] focus:ring-offset-2 active:bg-[#1E40AF] disabled:cursor-not-allowed disabled:opacity-60 disabled:hover:bg-[#1E3A8A] disabled:active:bg-[#1E3A8A]";
+  // What modifier clicks and drags add to: the multi-selection, else the one selected spot.
+  const currentCodes = (): string[] =>
+    selectedCodes.size ? [...selectedCodes] : selectedLocation?.spot ? [selectedLocation.code] : [];
 
-  const canSearch = searchValue.trim().length > 0;
+  const handleDragSelect = (codes: string[], additive: boolean) => {
+    selectCodes(additive ? [...currentCodes(), ...codes] : codes);
+    setSearchValue("");
+    setSearchError(null);
+  };
+  const dragSelect = useDragSelect({ containerRef: gridFrameRef, spotRefs, enabled: !quiz, onSelect: handleDragSelect });
 
-  const handleSpotClick = (row: RowCode, aisle: number, spot: number) => {
-    if (isValidLocation(row, aisle)) {
+  // Plain click selects one spot, ctrl/cmd-click toggles one, shift-click selects from the anchor.
+  const handleSpotClick = (row: RowCode, aisle: number, spot: number, e: React.MouseEvent) => {
+    if (dragSelect.consumeClick()) return;
+    if (isValidLocation(layout, row, aisle)) {
       const code = buildCode(row, aisle, spot);
-      setSelectedLocation({ row, aisle, spot, code });
+      if (quiz) {
+        answerQuiz(code);
+        return;
+      }
+      const location = { row, aisle, spot, code };
+      const toggle = e.ctrlKey || e.metaKey || editing;
+      if (e.shiftKey && selectedLocation) {
+        const range = codesInRange(layout, selectedLocation, location);
+        selectCodes(toggle ? [...currentCodes(), ...range] : range, selectedLocation);
+      } else if (toggle) {
+        const next = new Set(currentCodes());
+        if (next.has(code)) next.delete(code);
+        else next.add(code);
+        selectCodes(next, next.has(code) ? location : selectedLocation);
+      } else {
+        setSelectedLocation(location);
+      }
       setSearchValue("");
       setSearchError(null);
     }
   };
 
-  const clearSelection = () => {
-    setSelectedLocation(null);
+  const clearSearch = () => {
     setSearchValue("");
     setSearchError(null);
+    setSearchInfo(null);
+    setHighlightedCodes(new Set());
+    setActiveQuery(null);
+  };
+
+  // Highlight every spot holding an item match; returns the first spot so callers can jump to it.
+  const showItemResults = (query: string): Location | null => {
+    const result = runSearch(layout, inventory, query);
+    if (result.kind !== "items") {
+      setSearchInfo(null);
+      setHighlightedCodes(new Set());
+      return null;
+    }
+    const [first] = result.matches;
+    const label = first.description ? `${first.key} • ${first.description}` : first.key;
+    const others = result.matches.length > 1 ? ` (+${result.matches.length - 1} more matches)` : "";
+    setSearchInfo(`${label}: ${result.codes.length} ${result.codes.length === 1 ? "spot" : "spots"}${others}`);
+    setHighlightedCodes(new Set(result.codes));
+    const loc = parseLocationCode(layout, first.codes[0]);
+    return loc ? { ...loc, code: buildCode(loc.row, loc.aisle, loc.spot) } : null;
+  };
+
+  const clearSelection = () => {
+    setSelectedLocation(null);
+    clearSearch();
   };
 
   // Click-away: if a spot is selected and the user clicks anywhere else on the page,
-  // clear the selection. Spot clicks are ignored so selection still works.
+  // clear the selection. Spot clicks (and controls marked data-keep-selection) are ignored.
   React.useEffect(() => {
-    if (!selectedLocation) return;
+    if (!selectedLocation && !selectedCodes.size) return;
 
     const captureOptions = { capture: true } as const;
 
     const onPointerDown = (e: PointerEvent) => {
       const target = e.target as HTMLElement | null;
       if (!target) return;
-      if (target.closest('[data-spot-button="true"]')) return;
+      // Modifier clicks and drags add to the selection rather than leave it.
+      if (e.shiftKey || e.ctrlKey || e.metaKey) return;
+      if (target.closest('[data-spot-button="true"], [data-keep-selection="true"]')) return;
       clearSelection();
     };
 
     document.addEventListener("pointerdown", onPointerDown, captureOptions);
     return () => document.removeEventListener("pointerdown", onPointerDown, captureOptions);
-  }, [selectedLocation]);
+  }, [selectedLocation, selectedCodes]);
 
-  const handleSearchGo = () => {
-    const parsed = parseSearchInput(searchValue);
-    if (!parsed.ok) {
-      setSearchError(parsed.message);
+  const handleSearchGo = (override?: string) => {
+    const result = runSearch(layout, inventory, override ?? searchValue);
+    if (result.kind === "error") {
+      setSearchError(result.message);
       return;
     }
 
-    if (!isValidLocation(parsed.row, parsed.aisle)) {
-      setSearchError(`No storage at ${parsed.row}-${parsed.aisle}.`);
+    setSearchValue("");
+    setSearchError(null);
+
+    if (result.kind === "range") {
+      selectCodes(result.codes);
+      setSearchInfo(null);
+      setHighlightedCodes(new Set());
+      setActiveQuery(null);
       return;
     }
 
-    const code = buildCode(parsed.row, parsed.aisle, parsed.spot);
-    setSelectedLocation({ row: parsed.row, aisle: parsed.aisle, spot: parsed.spot, code });
-    setSearchValue("");
-    setSearchError(null);
+    if (result.kind === "location") {
+      const { row, aisle, spot, level, code } = result;
+      // A bay typed in the search box selects all of its spots.
+      if (spot === null) selectCodes(codesInRange(layout, result, result), { row, aisle, spot, code });
+      else setSelectedLocation({ row, aisle, spot, level, code });
+      setSearchInfo(null);
+      setHighlightedCodes(new Set());
+      setActiveQuery(null);
+      return;
+    }
+
+    // Item search: highlight every spot holding the match and jump to the first one.
+    const query = (override ?? searchValue).trim();
+    setActiveQuery(query);
+    const first = showItemResults(query);
+    if (first) setSelectedLocation(first);
   };
 
+  // A `?q=` from the URL can only be resolved once inventory has loaded.
+  const restoredQueryRef = React.useRef(false);
+  React.useEffect(() => {
+    if (inventoryLoading || restoredQueryRef.current) return;
+    restoredQueryRef.current = true;
+    if (!activeQuery) return;
+    const first = showItemResults(activeQuery);
+    if (first && !selectedLocation) setSelectedLocation(first);
+  }, [inventoryLoading]);
+
+  // Mirror selection and item search into the URL. Each change is a history entry so back/forward
+  // step through past selections; the first sync only normalizes the URL the page was opened with.
+  const urlSyncedRef = React.useRef(false);
+  React.useEffect(() => {
+    if (!syncUrl) return;
+    writeUrlParams({ loc: selectedFullCode, sel: selectionParam, q: activeQuery }, { push: urlSyncedRef.current });
+    urlSyncedRef.current = true;
+  }, [selectedFullCode, selectionParam, activeQuery]);
+
+  usePopState(() => {
+    if (!syncUrl) return;
+    const codes = codesFromUrl(layout);
+    if (codes.length) selectCodes(codes, locationFromUrl(layout));
+    else setSelectedLocation(locationFromUrl(layout));
+    const query = readUrlParam("q");
+    setActiveQuery(query);
+    if (query) showItemResults(query);
+    else {
+      setSearchInfo(null);
+      setHighlightedCodes(new Set());
+    }
+  });
+
+  React.useEffect(() => {
+    if (selectRequest) setSelectedLocation(selectRequest.location);
+  }, [selectRequest]);
+
+  React.useEffect(() => {
+    if (!highlightCodes) return;
+    setHighlightedCodes(new Set(highlightCodes));
+    setSearchInfo(null);
+    setActiveQuery(null);
+  }, [highlightCodes]);
+
+  React.useEffect(() => {
+    if (inventoryRecords?.length) mergeRecords(inventoryRecords);
+  }, [inventoryRecords, mergeRecords]);
+
+  // Tell the owner about selection changes, but not about the selection the plan started with.
+  const notifiedCodeRef = React.useRef(selectedFullCode);
+  React.useEffect(() => {
+    if (selectedFullCode === notifiedCodeRef.current) return;
+    notifiedCodeRef.current = selectedFullCode;
+    if (!selectedLocation) onClearSelection?.();
+    else onSelect?.(selectedLocation, selectedLocation.spot ? getSlot(inventory, selectedLocation.code) : null);
+  }, [selectedFullCode]);
+
   const isSelected = (row: RowCode, aisle: number, spot: number) => {
+    if (selectedCodes.size) return selectedCodes.has(buildCode(row, aisle, spot));
     return selectedLocation?.row === row && 
            selectedLocation?.aisle === aisle && 
            selectedLocation?.spot === spot;
   };
 
+  const selectionList = React.useMemo(() => [...selectedCodes], [selectedCodes]);
+  const selectionTour = React.useMemo(
+    () => (selectionList.length > 1 ? planSelectionTour(graph, calibration.model, inventory, selectionList) : null),
+    [graph, calibration.model, inventory, selectionList],
+  );
+
+  // Upper rack levels add the time to bring a lift on top of the walk.
+  const selectedLiftSeconds = liftSeconds(layout, selectedLocation?.level);
+  const approxWalkTimeLabel = React.useMemo(() => {
+    if (!selectedLocation?.spot) return null;
+    const seconds = estimateTravelSeconds(graph, calibration.model, selectedLocation.code);
+    return formatMinutesSeconds(seconds + selectedLiftSeconds);
+  }, [graph, calibration.model, selectedLocation, selectedLiftSeconds]);
+
+  const gridView = React.useMemo(() => buildGridView(layout, displayView), [layout, displayView]);
+  // Desktop and tablet grids can be the scale map or the compact table; phones always show one line.
+  const [floorView, setFloorView] = useFloorView();
+  const showMap = !phone && floorView === "map";
+  const mapScene = React.useMemo(() => buildFloorMapScene(layout, gridView.quarterTurns), [layout, gridView]);
+  const spotMatrix = React.useMemo(() => buildSpotMatrix(layout, gridView), [layout, gridView]);
+
+  // Roving focus: one spot is in the tab order, and arrow keys move focus between spots.
+  const [focusedCode, setFocusedCode] = React.useState<string | null>(null);
+  const tabStop = focusedCode && spotMatrix.positions.has(focusedCode) ? focusedCode : firstSpot(spotMatrix);
+
+  // Phone layout: which line is on screen, and whether the panel's sheet is pulled up.
+  const [phoneLineKind, setPhoneLineKind] = React.useState<PhoneLineKind>("aisle");
+  const lines = React.useMemo(() => phoneLines(gridView, phoneLineKind), [gridView, phoneLineKind]);
+  const [phoneLine, setPhoneLine] = React.useState(0);
+  const [sheetExpanded, setSheetExpanded] = React.useState(false);
+  // Bring the selected bay's line on screen, e.g. after a search or scan.
   React.useEffect(() => {
-    if (!selectedLocation) return;
+    if (!phone || !selectedLocation) return;
+    const index = lineIndexOf(lines, selectedLocation.row, selectedLocation.aisle);
+    if (index >= 0) setPhoneLine(index);
+  }, [phone, lines, selectedLocation?.row, selectedLocation?.aisle]);
+
+  // Scroll to a newly selected spot; spots added to a multi-selection are already in view.
+  React.useEffect(() => {
+    if (!selectedLocation || selectedCodes.size) return;
     const targetSpot = selectedLocation.spot ?? 1;
     const key = `${selectedLocation.row}-${selectedLocation.aisle}-${targetSpot}`;
     const el = spotRefs.current[key];
     if (!el) return;
     el.scrollIntoView({ block: "center", inline: "center", behavior: "smooth" });
-  }, [selectedLocation?.row, selectedLocation?.aisle, selectedLocation?.spot]);
+  }, [selectedLocation?.row, selectedLocation?.aisle, selectedLocation?.spot, phoneLine]);
 
-  const approxWalkTimeLabel = React.useMemo(() => {
-    if (!selectedLocation?.spot) return null;
-    const seconds = estimateWalkSecondsIDW({
-      row: selectedLocation.row,
-      aisle: selectedLocation.aisle,
-      spot: selectedLocation.spot,
-    });
-    return formatMinutesSeconds(seconds);
-  }, [selectedLocation]);
+  React.useEffect(() => {
+    if (selectedLocation?.spot) setFocusedCode(selectedLocation.code);
+  }, [selectedLocation?.code]);
+
+  // Enter/Space press the focused spot's button, so only movement and Escape are handled here.
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      if (!quiz && (selectedLocation || selectedCodes.size)) clearSelection();
+      return;
+    }
+    const next = tabStop && nextSpot(spotMatrix, tabStop, e.key, e.ctrlKey || e.metaKey);
+    if (!next) return;
+    e.preventDefault();
+    setFocusedCode(next);
+    spotRefs.current[next]?.focus();
+  };
+
+  // Screen readers hear selection changes and their walk times through a live region.
+  const [announcement, setAnnouncement] = React.useState("");
+  const announcedRef = React.useRef(false);
+  React.useEffect(() => {
+    if (!announcedRef.current) {
+      announcedRef.current = true;
+      return;
+    }
+    const code = selectedLocation?.code ?? null;
+    setAnnouncement(
+      selectionAnnouncement({
+        code: selectedFullCode,
+        statusLabel: code && selectedLocation?.spot ? SLOT_STATUS_LABEL[getSlot(inventory, code).status] : null,
+        walkTime: multiSelected
+          ? selectionTour && formatMinutesSeconds(selectionTour.totalSeconds)
+          : approxWalkTimeLabel,
+        count: selectedCodes.size,
+      }),
+    );
+  }, [selectedFullCode, selectedCodes]);
+
+  React.useEffect(() => {
+    if (route) {
+      const stops = `${route.stops.length} ${route.stops.length === 1 ? "stop" : "stops"}`;
+      setAnnouncement(`Pick route planned: ${stops}, about ${formatMinutesSeconds(route.totalSeconds)}.`);
+    }
+  }, [route]);
+
+  // Spots changed by the live feed flash for a moment. The panel reads the slot from the
+  // inventory, so it shows the change by itself; the live region says so too.
+  const [flashCodes, setFlashCodes] = React.useState<Set<string>>(() => new Set());
+  const liveStatus = useLiveUpdates(layout, (event) => {
+    receiveLiveEvent(event);
+    setFlashCodes((prev) => new Set(prev).add(event.code));
+    window.setTimeout(() => {
+      setFlashCodes((prev) => {
+        const next = new Set(prev);
+        next.delete(event.code);
+        return next;
+      });
+    }, LIVE_FLASH_MS);
+    if (event.code === selectedLocation?.code && !multiSelected) {
+      const status = applyLiveEvent(getSlot(inventory, event.code), event).status;
+      setAnnouncement(`Live update: ${event.code} is now ${SLOT_STATUS_LABEL[status].toLowerCase()}.`);
+    }
+  });
+
+  // Heat-map colors and tooltip for one spot; `null` keeps the slot status colors.
+  const spotHeat = (code: string) => {
+    if (!heatMetric || !activeHeatMap) return null;
+    const value = activeHeatMap.values[code];
+    if (value === undefined) {
+      const title = `${code}: no ${HEAT_METRIC_LABEL[heatMetric].toLowerCase()} data`;
+      return { className: "border-gray-200 bg-white text-slate-300", color: null, title };
+    }
+    const percentile = activeHeatMap.percentiles[code];
+    const bin = heatBin(percentile);
+    return {
+      className: `border-black/10 ${HEAT_TEXT_CLASS[bin]}`,
+      color: HEAT_COLORS[bin],
+      title: `${code}: ${formatHeatValue(heatMetric, value)} (${ordinal(percentile)} percentile)`,
+    };
+  };
+
+  // One spot button, for both the desktop grid and the phone line.
+  const renderSpot = (row: RowCode, aisle: number, spot: number) => {
+    const selected = isSelected(row, aisle, spot);
+    const code = buildCode(row, aisle, spot);
+    const highlighted = !selected && highlightedCodes.has(code);
+    // After a quiz answer: the right spots in green, a wrong tap in red.
+    const revealed = !!quiz?.feedback && quiz.question.answers.includes(code);
+    const missed = quiz?.feedback?.tapped === code && !quiz.feedback.correct;
+    const slot = getSlot(inventory, code);
+    const status = slot.status;
+    const heat = spotHeat(code);
+    const holdTitle = slot.hold ? `${code} ${SLOT_STATUS_LABEL[status].toLowerCase()}: ${slot.hold.reason}` : undefined;
+    const flashing = flashCodes.has(code);
+    const candidate = putAwayByCode.get(code);
+
+    return (
+      <button
+        key={spot}
+        onClick={(e) => handleSpotClick(row, aisle, spot, e)}
+        ref={(el) => {
+          spotRefs.current[code] = el;
+        }}
+        data-spot-button="true"
+        // The phone line has no arrow-key grid, so every spot there is in the tab order.
+        tabIndex={phone || code === tabStop ? 0 : -1}
+        onFocus={() => setFocusedCode(code)}
+        className={`relative flex h-full w-full items-center justify-center rounded-md border text-[11px] font-semibold leading-none transition-colors focus:outline-none focus:ring-2 focus:ring-[#93c5fd] focus:ring-offset-1 ${
+          selected
+            ? "border-blue-700 bg-blue-50 text-blue-800 ring-[3px] ring-blue-700"
+            : (heat?.className ?? SLOT_STATUS_SPOT_CLASS[status])
+        }${highlighted ? " ring-[3px] ring-amber-400" : ""}${revealed ? " ring-[3px] ring-green-500" : ""}${
+          missed ? " ring-[3px] ring-red-500" : ""
+        }${candidate && !selected ? " ring-[3px] ring-cyan-500" : ""}${
+          flashing ? " ring-[3px] ring-emerald-400 motion-safe:animate-pulse" : ""
+        }`}
+        style={heat?.color && !selected ? { background: heat.color } : undefined}
+        title={heat?.title ?? (candidate ? putAwayTitle(candidate) : holdTitle)}
+        aria-label={`${code}, ${SLOT_STATUS_LABEL[status]}`}
+        aria-pressed={selected}
+      >
+        <span className="pointer-events-none select-none">{spot}</span>
+        {candidate ? (
+          <span className="pointer-events-none absolute -left-1 -top-1 flex h-3.5 w-3.5 items-center justify-center rounded-full bg-cyan-600 text-[9px] text-white">
+            {candidate.rank}
+          </span>
+        ) : null}
+
+        {/* Marker */}
+        {selected && !multiSelected ? (
+          <div className="absolute inset-0 pointer-events-none">
+            <div className="absolute bottom-0.5 right-0.5 h-1.5 w-1.5 rounded-full bg-blue-700" />
+            <MapPin className="w-3 h-3 text-blue-700 absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2" />
+          </div>
+        ) : null}
+      </button>
+    );
+  };
+
+  // The scale map's outline for a spot: quiz feedback first, then put-away candidates, then search matches.
+  const spotRing = (code: string) => {
+    if (quiz?.feedback?.tapped === code && !quiz.feedback.correct) return { color: "#ef4444", title: null };
+    if (quiz?.feedback && quiz.question.answers.includes(code)) return { color: "#22c55e", title: null };
+    const candidate = putAwayByCode.get(code);
+    if (candidate) return { color: PUT_AWAY_RING, title: putAwayTitle(candidate) };
+    return highlightedCodes.has(code) ? { color: HIGHLIGHT, title: null } : null;
+  };
+
+  // A bay's spots, arranged as the current view draws them.
+  const renderSpotGroup = (row: RowCode, aisle: number, className: string) => (
+    <div
+      role="group"
+      aria-label={`Bay ${buildCode(row, aisle, null)}`}
+      className={`grid gap-0.5 p-1 ${className}`}
+      style={{
+        gridTemplateColumns: `repeat(${gridView.spotMatrix[0].length}, minmax(0, 1fr))`,
+        gridTemplateRows: `repeat(${gridView.spotMatrix.length}, minmax(0, 1fr))`,
+      }}
+    >
+      {gridView.spotMatrix.flat().map((spot) => renderSpot(row, aisle, spot))}
+    </div>
+  );
+
+  // A bay in the phone line: its code, then its spots, or a "No storage" gap.
+  const renderPhoneBay = ({ row, aisle }: BayCell) => {
+    const current = selectedLocation?.row === row && selectedLocation.aisle === aisle;
+    return (
+      <div className="flex items-stretch overflow-hidden rounded-md border border-gray-300 bg-[#f8fafc]">
+        <div
+          className={`flex w-14 shrink-0 items-center justify-center font-mono text-xs font-bold ${
+            current ? "bg-[#1e3a8a] text-white" : "bg-[#dbeafe] text-[#1e3a8a]"
+          }`}
+        >
+          {buildCode(row, aisle, null)}
+        </div>
+        {isValidLocation(layout, row, aisle) ? (
+          renderSpotGroup(row, aisle, "h-16 flex-1")
+        ) : (
+          <div className="flex h-16 flex-1 items-center justify-center bg-gray-200">
+            <span className="text-[11px] text-gray-500 italic">No storage</span>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const headerKey = (h: GridHeader) => (h.kind === "row" ? `row-${h.row}` : `aisle-${h.aisle}`);
+
+  const headerClass = (h: GridHeader) => {
+    if (h.kind === "row") {
+      if (selectedLocation?.row === h.row) return "bg-[#1e3a8a] text-white";
+      return getRow(layout, h.row)?.accent ? "bg-orange-200 text-orange-900" : "bg-[#f8fafc] text-[#0f172b]";
+    }
+    if (selectedLocation?.aisle === h.aisle) return "bg-[#1e3a8a] text-white";
+    return "bg-[#dbeafe] text-[#1e3a8a]";
+  };
+
+  // Pill colors follow the compass side they label, so they travel with the rotation.
+  const SIDE_PILL_CLASS: Record<CompassSide, string> = {
+    top: "text-[#1e3a8a] bg-[#eff6ff] border border-[#bfdbfe]",
+    left: "text-red-700 bg-red-50",
+    right: "text-gray-700 bg-gray-100",
+    bottom: "text-[#1e3a8a] bg-[#eff6ff] border border-[#bfdbfe]",
+  };
+
+  const renderSidePill = (screenSide: CompassSide) => {
+    const layoutSide = gridView.screenSides[screenSide];
+    return (
+      <span className={`text-sm font-semibold px-4 py-1 rounded-full ${SIDE_PILL_CLASS[layoutSide]}`}>
+        This side {layout.compass[layoutSide]}
+      </span>
+    );
+  };
+
+  const renderEntranceBar = (screenSide: CompassSide) => {
+    const label = `The side ${layout.compass[layout.entranceSide]} warehouse entrance`;
+    if (screenSide === "left" || screenSide === "right") {
+      return (
+        <div
+          data-entrance-bar="true"
+          className="shrink-0 flex items-center justify-center bg-[#0f172b] text-white px-3 rounded-[12px] font-semibold text-sm"
+        >
+          <span className="[writing-mode:vertical-rl] rotate-180 py-3">{label}</span>
+        </div>
+      );
+    }
+    return (
+      <div
+        data-entrance-bar="true"
+        className={`${screenSide === "top" ? "mb-4" : "mt-4"} bg-[#0f172b] text-white text-center py-3 rounded-[12px] font-semibold text-sm`}
+      >
+        {label}
+      </div>
+    );
+  };
+
+  const renderSide = (screenSide: "top" | "bottom") => {
+    if (gridView.entranceSide === screenSide) return renderEntranceBar(screenSide);
+    return <div className={`text-center ${screenSide === "top" ? "mb-3" : "mt-3"}`}>{renderSidePill(screenSide)}</div>;
+  };
+
+  // The selected-location panel's contents: in the right column, or in a bottom sheet on phones.
+  const selectionPanel = multiSelected ? (
+    <SelectionSummary
+      layoutId={layout.id}
+      codes={selectionList}
+      inventory={inventory}
+      tour={selectionTour}
+      author={author}
+      onFocus={(code) => setSelectedLocation(locationOf(code))}
+      onSetStatus={
+        allowed("editStatus")
+          ? (change) => {
+              for (const code of selectionList) void editSlot(code, change, author);
+            }
+          : undefined
+      }
+      onShowRoute={setRoute}
+      onClear={clearSelection}
+    />
+  ) : selectedLocation ? (
+    <div className="space-y-4">
+      {/* Location Code */}
+      <div className="bg-[#eff6ff] border border-[#bfdbfe] rounded-[14px] p-4 text-center">
+        <div className="text-3xl font-bold text-[#1e3a8a] font-mono mb-2">
+          {fullCode(selectedLocation)}
+        </div>
+        <div className="text-[11px] font-mono text-blue-700/70">
+          {qualifyCode(layout, fullCode(selectedLocation))}
+        </div>
+        <div className={`mt-2 grid ${layout.levels.length ? "grid-cols-4" : "grid-cols-3"} gap-2 text-xs text-blue-800`}>
+          <div className="rounded-md bg-white/60 px-2 py-1">
+            <span className="font-semibold">Row:</span> <span className="font-mono">{selectedLocation.row}</span>
+          </div>
+          <div className="rounded-md bg-white/60 px-2 py-1">
+            <span className="font-semibold">Aisle:</span>{" "}
+            <span className="font-mono">{selectedLocation.aisle}</span>
+          </div>
+          <div className="rounded-md bg-white/60 px-2 py-1">
+            <span className="font-semibold">Spot:</span>{" "}
+            <span className="font-mono">{selectedLocation.spot ?? "—"}</span>
+          </div>
+          {layout.levels.length ? (
+            <div className="rounded-md bg-white/60 px-2 py-1">
+              <span className="font-semibold">Level:</span>{" "}
+              <span className="font-mono">{selectedLocation.level ?? "—"}</span>
+            </div>
+          ) : null}
+        </div>
+      </div>
+
+      {/* Walk Time */}
+      <div className="bg-green-50 border border-green-200 rounded-[14px] p-4">
+        <div className="flex items-center gap-2 mb-2">
+          <Clock className="w-5 h-5 text-green-700" />
+          <span className="text-sm font-semibold text-green-700">Approx. Walk Time</span>
+        </div>
+        <div className="text-2xl font-bold text-green-900">
+          {approxWalkTimeLabel ?? "—"}
+        </div>
+        <p className="text-xs text-green-700 mt-1">
+          From entrance
+          {selectedLiftSeconds ? `, including ${selectedLiftSeconds} s for the lift to level ${selectedLocation.level}` : ""}
+        </p>
+      </div>
+
+      {layout.levels.length ? (
+        <RackElevation
+          levels={layout.levels}
+          bay={buildCode(selectedLocation.row, selectedLocation.aisle, null)}
+          spots={getSpotNumbers(layout)}
+          spot={selectedLocation.spot}
+          level={selectedLocation.level ?? null}
+          onSelect={(spot, level) =>
+            setSelectedLocation({
+              row: selectedLocation.row,
+              aisle: selectedLocation.aisle,
+              spot,
+              level,
+              code: buildCode(selectedLocation.row, selectedLocation.aisle, spot),
+            })
+          }
+        />
+      ) : null}
+
+      {/* Action Buttons */}
+      <div className="space-y-3">
+        <button
+          onClick={clearSelection}
+          className="inline-flex cursor-pointer items-center justify-center gap-2 rounded-xl px-5 font-medium shadow-sm transition enabled:hover:-translate-y-[1px] enabled:hover:shadow-md active:translate-y-[1px] disabled:cursor-not-allowed disabled:opacity-60 focus:outline-none focus-visible:ring-4 focus-visible:ring-[rgba(23,42,130,0.22)] focus-visible:ring-offset-2 focus-visible:ring-offset-white h-11 text-sm border border-rose-200 bg-rose-50 text-rose-700 hover:bg-rose-100 w-full justify-center border border-red-200 bg-red-50 text-red-700 hover:bg-red-100 disabled:hover:bg-red-50"
+          type="button"
+          data-testid="clear-selection"
+          aria-disabled="false"
+        >
+          <TriangleAlert className="h-4 w-4" aria-hidden="true" />
+          Clear Selection
+        </button>
+      </div>
+
+      {/* Additional Info */}
+      <div className="pt-4 border-t border-gray-200">
+        <h4 className="text-xs font-semibold text-gray-700 mb-2">Location Details</h4>
+        <div className="space-y-1 text-xs text-slate-600">
+          <p><span className="font-medium">Row:</span> {selectedLocation.row}</p>
+          <p><span className="font-medium">Aisle:</span> {selectedLocation.aisle}</p>
+          <p><span className="font-medium">Spot:</span> {selectedLocation.spot ?? "—"}</p>
+          {layout.levels.length ? (
+            <p><span className="font-medium">Level:</span> {selectedLocation.level ?? "—"}</p>
+          ) : null}
+        </div>
+        <div className="pt-2">
+          {selectedLocation.spot ? (
+            <SlotDetails
+              slot={getSlot(inventory, selectedLocation.code)}
+              onEdit={
+                allowed("annotate")
+                  ? (change) => void editSlot(selectedLocation.code, change, author)
+                  : undefined
+              }
+              canEditStatus={allowed("editStatus")}
+              author={author}
+            />
+          ) : (
+            <BaySummary
+              slots={getSpotNumbers(layout).map((spot) =>
+                getSlot(inventory, buildCode(selectedLocation.row, selectedLocation.aisle, spot)),
+              )}
+            />
+          )}
+        </div>
+        {selectedLocation.spot ? (
+          <>
+            <HeatPercentiles code={selectedLocation.code} heatMaps={heatMaps} />
+            <SlotPhotos
+              layoutId={layout.id}
+              code={selectedLocation.code}
+              author={author}
+              editable={allowed("annotate")}
+            />
+            <SlotHistory layoutId={layout.id} code={selectedLocation.code} />
+          </>
+        ) : null}
+      </div>
+    </div>
+  ) : (
+    <div className="text-center py-12">
+      <MapPin className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+      <p className="text-slate-600 font-medium mb-1">No location selected</p>
+      <p className="text-sm text-slate-500">
+        Click a spot on the grid or use search
+      </p>
+      <p className="mt-2 text-xs text-slate-400">
+        Shift-click, ctrl-click or drag to select several; search B-2-1..B-2-9, C-* or I-3
+      </p>
+    </div>
+  );
+
+  // What the phone's bottom sheet shows while it's pulled down.
+  const sheetSummary = multiSelected
+    ? `${selectedCodes.size} spots selected`
+    : selectedLocation?.spot
+      ? [selectedFullCode, SLOT_STATUS_LABEL[getSlot(inventory, selectedLocation.code).status], approxWalkTimeLabel]
+          .filter(Boolean)
+          .join(" • ")
+      : `Bay ${selectedLocation?.code ?? ""}`;
 
   return (
-    <div className="mx-auto w-full max-w-7xl">
+    // On phones, room is left below the content for the bottom sheet's summary.
+    <div className={`mx-auto w-full max-w-7xl ${phone && selectedLocation ? "pb-20" : ""}`}>
+        <div role="status" aria-live="polite" className="sr-only">
+          {announcement}
+        </div>
+
         {/* Header */}
         <div className="rounded-[16px] border border-[#e2e8f0] bg-white p-4 mb-4 shadow-[0px_1px_3px_0px_rgba(0,0,0,0.10),0px_1px_2px_-1px_rgba(0,0,0,0.10)]">
-          <div className="flex items-start justify-between">
+          <div className={phone ? "flex flex-col gap-3" : "flex items-start justify-between"}>
             <div>
-              <h1 className="text-2xl font-semibold text-[#1e3a8a] mb-2">Warehouse Plan • Lola Blankets</h1>
+              <h1 className="text-2xl font-semibold text-[#1e3a8a] mb-2">
+                {layout.name} • {layout.client}
+              </h1>
               <p className="text-sm text-slate-600">
-                <span className="font-medium">Rows:</span> I, A–G • <span className="font-medium">Aisles:</span> 1–9 • <span className="font-medium">Spots:</span> 1–9
+                <span className="font-medium">Rows:</span> {describeRows(layout)} •{" "}
+                <span className="font-medium">Aisles:</span> 1–{layout.aisleCount} •{" "}
+                <span className="font-medium">Spots:</span> 1–{layout.spotsPerBay}
               </p>
             </div>
-            <div className="flex items-center gap-2">
+            <div className={`flex flex-wrap items-center gap-2 ${phone ? "justify-start" : "justify-end"}`}>
+              <ExportMenu
+                snapshot={() => ({
+                  layout,
+                  entranceView,
+                  inventory,
+                  selected: selectedLocation,
+                  selectedCodes,
+                  highlighted: highlightedCodes,
+                  route,
+                })}
+              />
+              <button
+                type="button"
+                onClick={() => setQuizOpen(true)}
+                disabled={quizOpen}
+                className="inline-flex items-center gap-1.5 rounded-[10px] border border-[#e2e8f0] bg-white px-3 py-1 text-xs font-medium text-slate-700 transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd] disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                <GraduationCap className="h-3.5 w-3.5" aria-hidden="true" />
+                Training quiz
+              </button>
+              <button
+                type="button"
+                onClick={() => setPrintingLabels(true)}
+                className="inline-flex items-center gap-1.5 rounded-[10px] border border-[#e2e8f0] bg-white px-3 py-1 text-xs font-medium text-slate-700 transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+              >
+                <Tags className="h-3.5 w-3.5" aria-hidden="true" />
+                Print labels
+              </button>
+              {allowed("calibrate") ? (
+                <button
+                  type="button"
+                  onClick={() => setCalibrating(true)}
+                  className="inline-flex items-center gap-1.5 rounded-[10px] border border-[#e2e8f0] bg-white px-3 py-1 text-xs font-medium text-slate-700 transition-colors hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-[#93c5fd]"
+                >
+                  <Gauge className="h-3.5 w-3.5" aria-hidden="true" />
+                  Calibrate walk times
+                </button>
+              ) : null}
+              {canEdit(identity) ? (
+                <button
+                  type="button"
+                  onClick={() => setEditModeOn((on) => !on)}
+                  aria-pressed={editing}
+                  className={`inline-flex items-center gap-1.5 rounded-[10px] border px-3 py-1 text-xs font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-[#93c5fd] ${
+                    editing
+                      ? "border-amber-300 bg-amber-50 text-amber-800 hover:bg-amber-100"
+                      : "border-[#e2e8f0] bg-white text-slate-700 hover:bg-slate-50"
+                  }`}
+                >
+                  <PencilRuler className="h-3.5 w-3.5" aria-hidden="true" />
+                  {editing ? "Editing" : "Edit mode"}
+                </button>
+              ) : null}
+              <span className="mr-2">
+                <AccountMenu identity={identity} error={identityError} onSignIn={signIn} onSignOut={signOut} />
+              </span>
               <span className="text-xs text-slate-500">Status:</span>
               <span
                 className={`px-3 py-1 text-xs font-semibold rounded-full ${
@@ -238,6 +968,13 @@ export function WarehouseFloorPlan() {
               >
                 {selectedLocation ? "Active" : "Not Active"}
               </span>
+              <LiveBadge status={liveStatus} />
+              <SyncStatus
+                online={online}
+                lastSyncedAt={lastSyncedAt}
+                pendingEdits={pendingEdits}
+                offlineCopyError={offlineCopyError}
+              />
             </div>
           </div>
         </div>
@@ -246,271 +983,327 @@ export function WarehouseFloorPlan() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
           {/* Left Column - Search + Grid */}
           <div className="lg:col-span-2 space-y-4">
-            {/* Search Section */}
-            <div className="rounded-[16px] border border-[#e2e8f0] bg-white p-4 shadow-[0px_1px_3px_0px_rgba(0,0,0,0.10),0px_1px_2px_-1px_rgba(0,0,0,0.10)]">
-              <h2 className="text-lg font-semibold text-[#0f172b] mb-4 flex items-center gap-2">
-                <Search className="w-5 h-5 text-[#1e3a8a]" />
-                Find Location
-              </h2>
-              
-              <div className="flex gap-3 mb-3">
-                <div className="flex-1">
-                  <input
-                    type="text"
-                    value={searchValue}
-                    onChange={(e) => {
-                      setSearchValue(e.target.value.toUpperCase());
-                      setSearchError(null);
-                    }}
-                    onKeyDown={(e) => e.key === "Enter" && canSearch && handleSearchGo()}
-                    placeholder="Find a location (e.g., I-2-7, I-2, I27)"
-                    className={`w-full rounded-[12px] bg-white px-4 py-2 border outline-none ring-offset-2 transition-all ${
-                      searchError 
-                        ? 'border-red-300 ring-2 ring-red-200 bg-red-50' 
-                        : 'border-[#e2e8f0] focus:ring-2 focus:ring-[#93c5fd]'
-                    }`}
-                  />
-                  {searchError ? (
-                    <p className="text-xs text-red-600 mt-1 ml-1">
-                      {searchError}
-                    </p>
-                  ) : null}
-                </div>
-                <button
-                  onClick={handleSearchGo}
-                  disabled={!canSearch}
-                  className={primaryButtonClass}
-                >
-                  Go
-                </button>
-                {searchValue && (
-                  <button
-                    onClick={() => {
-                      setSearchValue("");
-                      setSearchError(null);
-                    }}
-                    className="inline-flex items-center justify-center rounded-[14px] bg-slate-100 px-4 py-3 text-slate-700 transition-colors hover:bg-slate-200 focus:outline-none focus:ring-2 focus:ring-[#93c5fd] focus:ring-offset-2"
-                  >
-                    <X className="w-5 h-5" />
-                  </button>
-                )}
-              </div>
+            {quizOpen ? (
+              <QuizPanel
+                quiz={quiz}
+                lastTrainee={quizResults.lastTrainee}
+                onStart={(trainee) => {
+                  clearSelection();
+                  setRoute(null);
+                  startQuiz(trainee);
+                }}
+                onStop={stopQuiz}
+                onShowResults={() => setShowingQuizResults(true)}
+                onClose={() => setQuizOpen(false)}
+              />
+            ) : null}
 
-            </div>
+            {/* Search Section (hidden during a quiz so it can't give answers away) */}
+            {!quiz ? (
+              <>
+                <SearchBox
+                  value={searchValue}
+                  error={searchError}
+                  info={searchInfo}
+                  suggestions={suggestions}
+                  onChange={(value) => {
+                    setSearchValue(value);
+                    setSearchError(null);
+                  }}
+                  onGo={handleSearchGo}
+                  onClear={clearSearch}
+                />
+
+                <ScanBar
+                  layout={layout}
+                  onLocation={(location) => {
+                    setSelectedLocation(location);
+                    setSearchValue("");
+                    setSearchError(null);
+                  }}
+                />
+              </>
+            ) : null}
 
             {/* Warehouse Grid */}
             <div
-              className="rounded-[16px] border border-[#e2e8f0] bg-white p-4 overflow-x-auto shadow-[0px_1px_3px_0px_rgba(0,0,0,0.10),0px_1px_2px_-1px_rgba(0,0,0,0.10)]"
+              className={`rounded-[16px] border bg-white p-4 overflow-x-auto shadow-[0px_1px_3px_0px_rgba(0,0,0,0.10),0px_1px_2px_-1px_rgba(0,0,0,0.10)] ${
+                editing ? "border-amber-300 ring-2 ring-amber-200" : "border-[#e2e8f0]"
+              }`}
               ref={scrollRootRef}
             >
-              <div className="relative min-w-[640px]">
-                {/* WEST label (top) */}
-                <div className="text-center mb-3">
-                  <span className="text-sm font-semibold text-[#1e3a8a] bg-[#eff6ff] px-4 py-1 rounded-full border border-[#bfdbfe]">
-                    This side WEST
-                  </span>
-                </div>
-
-                {/* Grid Table */}
-                <div className="overflow-hidden border border-gray-300 rounded-lg">
-                  <table className="w-full border-collapse">
-                    <thead>
-                      <tr>
-                        <th className="bg-[#f8fafc] border border-gray-300 p-2 w-16"></th>
-                        {[1, 2, 3, 4, 5, 6, 7, 8, 9].map((aisle) => (
-                          <th
-                            key={aisle}
-                            className={`border border-gray-300 p-2 text-center font-bold text-sm transition-all ${
-                              selectedLocation?.aisle === aisle
-                                ? 'bg-[#1e3a8a] text-white'
-                                : 'bg-[#dbeafe] text-[#1e3a8a]'
-                            }`}
-                          >
-                            {aisle}
-                          </th>
-                        ))}
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {(['I', 'A', 'B', 'C', 'D', 'E', 'F', 'G'] as RowCode[]).map((row) => (
-                        <tr key={row}>
-                          {/* Row Label */}
-                          <td
-                            className={`border border-gray-300 p-2 text-center font-bold text-sm transition-all ${
-                              selectedLocation?.row === row
-                                ? 'bg-[#1e3a8a] text-white'
-                                : row === 'I'
-                                ? 'bg-orange-200 text-orange-900'
-                                : 'bg-[#f8fafc] text-[#0f172b]'
-                            }`}
-                          >
-                            {row}
-                          </td>
-
-                          {/* Aisle Cells */}
-                          {[1, 2, 3, 4, 5, 6, 7, 8, 9].map((aisle) => {
-                            const valid = isValidLocation(row, aisle);
-                            
-                            if (!valid) {
-                              return (
+              <div className={`relative ${phone ? "" : "min-w-[640px]"}`} ref={gridFrameRef}>
+                {editing ? (
+                  <p className="mb-3 rounded-[10px] border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+                    <span className="font-semibold">Edit mode.</span> Clicks add spots to the selection or take them out;
+                    edit them in the panel. Changes are signed as {author}.
+                  </p>
+                ) : null}
+
+                <InventoryLegend
+                  loading={inventoryLoading}
+                  error={inventoryError}
+                  onImport={allowed("importData") ? (file) => void importFile(file, author) : undefined}
+                />
+
+                <HeatMapControls
+                  metric={heatMetric}
+                  heatMap={activeHeatMap}
+                  history={pickHistory.history}
+                  error={pickHistory.error}
+                  onMetricChange={setHeatMetric}
+                  onImport={allowed("importData") ? (file) => void pickHistory.importFile(file) : undefined}
+                  onClearHistory={allowed("manageData") ? pickHistory.clear : undefined}
+                />
+
+                {!phone ? (
+                  <div className="mb-3 flex items-center justify-end gap-1" role="group" aria-label="Floor view">
+                    <button
+                      type="button"
+                      onClick={() => setFloorView("map")}
+                      aria-pressed={showMap}
+                      className={floorViewToggleClass(showMap)}
+                    >
+                      <MapIcon className="h-3.5 w-3.5" aria-hidden="true" />
+                      Scale map
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setFloorView("table")}
+                      aria-pressed={!showMap}
+                      className={floorViewToggleClass(!showMap)}
+                    >
+                      <Table2 className="h-3.5 w-3.5" aria-hidden="true" />
+                      Table
+                    </button>
+                  </div>
+                ) : null}
+
+                {phone ? (
+                  <PhoneFloorLine
+                    lines={lines}
+                    index={Math.min(phoneLine, lines.length - 1)}
+                    kind={phoneLineKind}
+                    onIndexChange={setPhoneLine}
+                    onKindChange={setPhoneLineKind}
+                    renderBay={renderPhoneBay}
+                  />
+                ) : showMap ? (
+                  <ScaleFloorMap
+                    scene={mapScene}
+                    graph={graph}
+                    inventory={inventory}
+                    selected={selectedLocation}
+                    isSelected={isSelected}
+                    spotHeat={spotHeat}
+                    spotRing={spotRing}
+                    flashCodes={flashCodes}
+                    route={route}
+                    dragEnabled={!quiz}
+                    onSpotClick={handleSpotClick}
+                    onDragSelect={handleDragSelect}
+                  />
+                ) : (
+                  <>
+                  {/* Top side label */}
+                  {renderSide("top")}
+
+                  <div className="flex items-stretch gap-3">
+                    {gridView.entranceSide === "left" ? renderEntranceBar("left") : null}
+
+                    {/* Grid Table (mouse drags draw a selection rectangle) */}
+                    <div
+                      className="flex-1 overflow-hidden border border-gray-300 rounded-lg select-none"
+                      onPointerDown={dragSelect.onPointerDown}
+                    >
+                      <table
+                        role="grid"
+                        aria-label={`${layout.name} floor plan. Arrow keys move between spots, Enter selects, Escape clears.`}
+                        onKeyDown={handleGridKeyDown}
+                        className="w-full border-collapse"
+                      >
+                        <thead>
+                          <tr role="row">
+                            <th role="columnheader" className="bg-[#f8fafc] border border-gray-300 p-2 w-16">
+                              {/* Names the header column below it for screen readers. */}
+                              <span className="sr-only">
+                                {gridView.rowHeaders[0]?.kind === "aisle" ? "Aisle" : "Row"}
+                              </span>
+                            </th>
+                            {gridView.columnHeaders.map((h) => (
+                              <th
+                                key={headerKey(h)}
+                                role="columnheader"
+                                className={`border border-gray-300 p-2 text-center font-bold text-sm transition-all ${headerClass(h)}`}
+                              >
+                                {h.kind === "row" ? h.row : h.aisle}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {gridView.cells.map((line, lineIndex) => {
+                            const rowHeader = gridView.rowHeaders[lineIndex];
+                            return (
+                              <tr key={headerKey(rowHeader)} role="row">
+                                {/* Row Label */}
                                 <td
-                                  key={aisle}
-                                  className="border border-gray-300 bg-gray-200 p-0 relative"
-                                  aria-disabled="true"
+                                  role="rowheader"
+                                  className={`border border-gray-300 p-2 text-center font-bold text-sm transition-all ${headerClass(rowHeader)}`}
                                 >
-                                  <div className="h-14 xl:h-16 flex items-center justify-center px-2">
-                                    <span className="text-[11px] text-gray-500 italic">No storage</span>
-                                  </div>
+                                  {rowHeader.kind === "row" ? rowHeader.row : rowHeader.aisle}
                                 </td>
-                              );
-                            }
 
-                            return (
-                              <td
-                                key={aisle}
-                                className="border border-gray-300 p-0 bg-[#f8fafc]"
-                              >
-                                {/* 9 spots grid */}
-                                <div className="grid grid-cols-3 grid-rows-3 gap-0.5 p-1 h-14 xl:h-16">
-                                  {[1, 4, 7, 2, 5, 8, 3, 6, 9].map((spot) => {
-                                    const selected = isSelected(row, aisle, spot);
-                                    const code = `${row}-${aisle}-${spot}`;
-                                    
+                                {/* Bay Cells */}
+                                {line.map(({ row, aisle }) => {
+                                  const valid = isValidLocation(layout, row, aisle);
+
+                                  if (!valid) {
                                     return (
-                                      <button
-                                        key={spot}
-                                        onClick={() => handleSpotClick(row, aisle, spot)}
-                                        ref={(el) => {
-                                          spotRefs.current[code] = el;
-                                        }}
-                                        data-spot-button="true"
-                                        className={`relative flex h-full w-full items-center justify-center rounded-md border text-[11px] font-semibold leading-none transition-colors focus:outline-none focus:ring-2 focus:ring-[#93c5fd] focus:ring-offset-1 ${
-                                          selected
-                                            ? "border-blue-700 bg-blue-50 text-blue-800 ring-[3px] ring-blue-700"
-                                            : "border-gray-300 bg-white text-slate-600"
-                                        }`}
-                                        aria-label={`Select ${code}`}
+                                      <td
+                                        key={`${row}-${aisle}`}
+                                        role="gridcell"
+                                        className="border border-gray-300 bg-gray-200 p-0 relative"
+                                        aria-disabled="true"
                                       >
-                                        <span className="pointer-events-none select-none">{spot}</span>
-
-                                        {/* Marker */}
-                                        {selected ? (
-                                          <div className="absolute inset-0 pointer-events-none">
-                                            <div className="absolute bottom-0.5 right-0.5 h-1.5 w-1.5 rounded-full bg-blue-700" />
-                                            <MapPin className="w-3 h-3 text-blue-700 absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2" />
-                                          </div>
-                                        ) : null}
-                                      </button>
+                                        <div className="h-14 xl:h-16 flex items-center justify-center px-2">
+                                          <span className="text-[11px] text-gray-500 italic">No storage</span>
+                                        </div>
+                                      </td>
                                     );
-                                  })}
-                                </div>
-                              </td>
+                                  }
+
+                                  return (
+                                    <td
+                                      key={`${row}-${aisle}`}
+                                      role="gridcell"
+                                      className="border border-gray-300 p-0 bg-[#f8fafc]"
+                                    >
+                                      {renderSpotGroup(row, aisle, "h-14 xl:h-16")}
+                                    </td>
+                                  );
+                                })}
+                              </tr>
                             );
                           })}
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-
-                {/* Side Labels */}
-                <div className="flex items-center justify-between mt-3">
-                  <span className="text-sm font-semibold text-red-700 bg-red-50 px-4 py-1 rounded-full">
-                    This side SOUTH
-                  </span>
-                  <span className="text-sm font-semibold text-gray-700 bg-gray-100 px-4 py-1 rounded-full">
-                    This side North
-                  </span>
-                </div>
-
-                {/* Entrance Bar */}
-                <div className="mt-4 bg-[#0f172b] text-white text-center py-3 rounded-[12px] font-semibold text-sm">
-                  The side EAST warehouse entrance
-                </div>
-              </div>
-            </div>
-              ) : null}
-          </div>
-
-          {/* Right Column - Selected Location Panel */}
-          <div className="lg:col-span-1">
-            <div className="rounded-[16px] border border-[#e2e8f0] bg-white p-4 sticky top-4 shadow-[0px_1px_3px_0px_rgba(0,0,0,0.10),0px_1px_2px_-1px_rgba(0,0,0,0.10)]">
-              <h2 className="text-lg font-semibold text-[#0f172b] mb-4 flex items-center gap-2">
-                <MapPin className="w-5 h-5 text-[#1e3a8a]" />
-                Selected Location
-              </h2>
-
-              {selectedLocation ? (
-                <div className="space-y-4">
-                  {/* Location Code */}
-                  <div className="bg-[#eff6ff] border border-[#bfdbfe] rounded-[14px] p-4 text-center">
-                    <div className="text-3xl font-bold text-[#1e3a8a] font-mono mb-2">
-                      {selectedLocation.code}
-                    </div>
-                    <div className="mt-2 grid grid-cols-3 gap-2 text-xs text-blue-800">
-                      <div className="rounded-md bg-white/60 px-2 py-1">
-                        <span className="font-semibold">Row:</span> <span className="font-mono">{selectedLocation.row}</span>
-                      </div>
-                      <div className="rounded-md bg-white/60 px-2 py-1">
-                        <span className="font-semibold">Aisle:</span>{" "}
-                        <span className="font-mono">{selectedLocation.aisle}</span>
-                      </div>
-                      <div className="rounded-md bg-white/60 px-2 py-1">
-                        <span className="font-semibold">Spot:</span>{" "}
-                        <span className="font-mono">{selectedLocation.spot ?? "—"}</span>
-                      </div>
+                        </tbody>
+                      </table>
                     </div>
-                  </div>
 
-                  {/* Walk Time */}
-                  <div className="bg-green-50 border border-green-200 rounded-[14px] p-4">
-                    <div className="flex items-center gap-2 mb-2">
-                      <Clock className="w-5 h-5 text-green-700" />
-                      <span className="text-sm font-semibold text-green-700">Approx. Walk Time</span>
-                    </div>
-                    <div className="text-2xl font-bold text-green-900">
-                      {approxWalkTimeLabel ?? "—"}
-                    </div>
-                    <p className="text-xs text-green-700 mt-1">From entrance</p>
+                    {gridView.entranceSide === "right" ? renderEntranceBar("right") : null}
                   </div>
 
-                  {/* Action Buttons */}
-                  <div className="space-y-3">
-                    <button
-                      onClick={clearSelection}
-                      className="inline-flex cursor-pointer items-center justify-center gap-2 rounded-xl px-5 font-medium shadow-sm transition enabled:hover:-translate-y-[1px] enabled:hover:shadow-md active:translate-y-[1px] disabled:cursor-not-allowed disabled:opacity-60 focus:outline-none focus-visible:ring-4 focus-visible:ring-[rgba(23,42,130,0.22)] focus-visible:ring-offset-2 focus-visible:ring-offset-white h-11 text-sm border border-rose-200 bg-rose-50 text-rose-700 hover:bg-rose-100 w-full justify-center border border-red-200 bg-red-50 text-red-700 hover:bg-red-100 disabled:hover:bg-red-50"
-                      type="button"
-                      data-testid="ic-reset-admin"
-                      aria-disabled="false"
-                    >
-                      <TriangleAlert className="h-4 w-4" aria-hidden="true" />
-                      Clear Selection
-                    </button>
+                  {/* Side Labels */}
+                  <div className="flex items-center justify-between mt-3">
+                    {gridView.entranceSide === "left" ? <span /> : renderSidePill("left")}
+                    {gridView.entranceSide === "right" ? <span /> : renderSidePill("right")}
                   </div>
 
-                  {/* Additional Info */}
-                  <div className="pt-4 border-t border-gray-200">
-                    <h4 className="text-xs font-semibold text-gray-700 mb-2">Location Details</h4>
-                    <div className="space-y-1 text-xs text-slate-600">
-                      <p><span className="font-medium">Row:</span> {selectedLocation.row}</p>
-                      <p><span className="font-medium">Aisle:</span> {selectedLocation.aisle}</p>
-                      <p><span className="font-medium">Spot:</span> {selectedLocation.spot ?? "—"}</p>
-                      <p className="pt-2"><span className="font-medium">Status:</span> <span className="text-green-600 font-semibold">Available</span></p>
-                    </div>
-                  </div>
-                </div>
-              ) : (
-                <div className="text-center py-12">
-                  <MapPin className="w-12 h-12 text-slate-300 mx-auto mb-3" />
-                  <p className="text-slate-600 font-medium mb-1">No location selected</p>
-                  <p className="text-sm text-slate-500">
-                    Click a spot on the grid or use search
-                  </p>
-                </div>
-              )}
+                  {/* Bottom side label */}
+                  {renderSide("bottom")}
+
+                  {route ? (
+                    <RouteOverlay
+                      route={route}
+                      containerRef={gridFrameRef}
+                      spotRefs={spotRefs}
+                      layoutKey={displayView}
+                    />
+                  ) : null}
+                  {dragSelect.box ? (
+                    <div
+                      className="pointer-events-none absolute z-20 rounded-sm border-2 border-blue-600 bg-blue-500/10"
+                      style={dragSelect.box}
+                    />
+                  ) : null}
+                  {slottingMoves ? (
+                    <MoveOverlay
+                      moves={slottingMoves}
+                      containerRef={gridFrameRef}
+                      spotRefs={spotRefs}
+                      layoutKey={displayView}
+                    />
+                  ) : null}
+                  </>
+                )}
+              </div>
             </div>
+
+            {/* Pick Route */}
+            <RoutePlanner
+              graph={graph}
+              travelModel={calibration.model}
+              inventory={inventory}
+              route={route}
+              onRouteChange={setRoute}
+            />
+
+            {/* Put-away */}
+            <PutAwayAssistant
+              graph={graph}
+              travelModel={calibration.model}
+              inventory={inventory}
+              onCandidatesChange={setPutAwayCandidates}
+              onShow={(code) => setSelectedLocation(locationOf(code))}
+              onConfirm={allowed("putAway") ? (code, item) => void editSlot(code, { item }, author) : undefined}
+            />
+
+            {/* Slotting */}
+            <SlottingAdvisor
+              graph={graph}
+              travelModel={calibration.model}
+              inventory={inventory}
+              onMovesChange={setSlottingMoves}
+            />
           </div>
+
+          {/* Right Column - Selected Location Panel */}
+          {!phone ? (
+            <div className="lg:col-span-1">
+              <div className="rounded-[16px] border border-[#e2e8f0] bg-white p-4 sticky top-4 shadow-[0px_1px_3px_0px_rgba(0,0,0,0.10),0px_1px_2px_-1px_rgba(0,0,0,0.10)]">
+                <h2 className="text-lg font-semibold text-[#0f172b] mb-4 flex items-center gap-2">
+                  <MapPin className="w-5 h-5 text-[#1e3a8a]" />
+                  {multiSelected ? "Selected Locations" : "Selected Location"}
+                </h2>
+
+                {selectionPanel}
+              </div>
+            </div>
+          ) : null}
         </div>
+
+        {phone && selectedLocation ? (
+          <BottomSheet
+            label={multiSelected ? "Selected Locations" : "Selected Location"}
+            summary={
+              <span className="flex min-w-0 items-center gap-2">
+                <MapPin className="h-4 w-4 shrink-0 text-[#1e3a8a]" aria-hidden="true" />
+                <span className="truncate">{sheetSummary}</span>
+              </span>
+            }
+            expanded={sheetExpanded}
+            onExpandedChange={setSheetExpanded}
+          >
+            {selectionPanel}
+          </BottomSheet>
+        ) : null}
+
+        {calibrating ? (
+          <CalibrationDialog
+            graph={graph}
+            calibration={calibration}
+            onSave={saveCalibration}
+            onClose={() => setCalibrating(false)}
+          />
+        ) : null}
+        {printingLabels ? <LabelGenerator graph={graph} onClose={() => setPrintingLabels(false)} /> : null}
+        {showingQuizResults ? (
+          <QuizResultsDialog
+            sessions={quizResults.sessions}
+            onClear={allowed("manageData") ? quizResults.clearResults : undefined}
+            onClose={() => setShowingQuizResults(false)}
+          />
+        ) : null}
     </div>
   );
 }
@@ -0,0 +1,15 @@
+// Library entry for hosts that render the floor plan directly instead of framing it.
+export { WarehouseFloorPlan } from "./components/WarehouseFloorPlan";
+export { EmbeddedFloorPlan } from "./components/EmbeddedFloorPlan";
+export {
+  connectFloorPlan,
+  EMBED_CHANNEL,
+  EMBED_PROTOCOL_VERSION,
+  type FloorPlanClient,
+  type FloorPlanEvent,
+  type HostMessage,
+} from "./lib/embed";
+export type { SlotRecord, SlotStatus } from "./lib/inventory";
+export type { Location, WarehouseLayout } from "./lib/layout";
+export { DEFAULT_LAYOUT, getSiteLayout, SITE_LAYOUTS } from "./lib/sites";
+export type { EntranceView } from "./types";
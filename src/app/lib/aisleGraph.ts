@@ -0,0 +1,162 @@
+import { buildCode, listLocations, type Location3D, type WarehouseLayout } from "./layout";
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+}
+
+export interface GraphEdge {
+  to: number;
+  meters: number;
+}
+
+/**
+ * Walkable floor as a graph, in the layout's own orientation (entrance side as in the layout file).
+ *
+ * Lanes run along every row boundary (above Row I, between rows, below the last row) and cross-aisles
+ * join the lanes at the aisle boundaries listed in `geometry.crossAisles`. Each spot is picked from
+ * the lane its face opens onto: the upper rows of a bay's spot grid from the lane above, the lower
+ * rows (and the middle row, if any) from the lane below.
+ */
+export interface AisleGraph {
+  layout: WarehouseLayout;
+  nodes: GraphPoint[];
+  adjacency: GraphEdge[][];
+  entrance: number;
+  /** `ROW-AISLE-SPOT` code -> node where the spot is picked from. */
+  spotNodes: Map<string, number>;
+}
+
+export interface ShortestPaths {
+  meters: Float64Array;
+  prev: Int32Array;
+}
+
+function spotMatrixPosition(layout: WarehouseLayout, spot: number) {
+  const index = layout.spotOrder.indexOf(spot);
+  return { matrixRow: Math.floor(index / layout.spotColumns), matrixCol: index % layout.spotColumns };
+}
+
+/** Lane index a spot is picked from and its distance along that lane, in metres. */
+export function spotAccessPoint(layout: WarehouseLayout, loc: Location3D): { lane: number; x: number } {
+  const { bayWidthM } = layout.geometry;
+  const displayRow = layout.rows.findIndex((r) => r.code === loc.row);
+  const matrixRows = layout.spotsPerBay / layout.spotColumns;
+  const { matrixRow, matrixCol } = spotMatrixPosition(layout, loc.spot);
+  const x = (loc.aisle - 1) * bayWidthM + ((matrixCol + 0.5) * bayWidthM) / layout.spotColumns;
+  const lane = matrixRow < Math.floor(matrixRows / 2) ? displayRow : displayRow + 1;
+  return { lane, x };
+}
+
+export function entrancePoint(layout: WarehouseLayout): GraphPoint {
+  const { bayWidthM, rowPitchM, entranceOffset } = layout.geometry;
+  const width = layout.aisleCount * bayWidthM;
+  const depth = layout.rows.length * rowPitchM;
+  switch (layout.entranceSide) {
+    case "top":
+      return { x: entranceOffset * bayWidthM, y: 0 };
+    case "bottom":
+      return { x: entranceOffset * bayWidthM, y: depth };
+    case "left":
+      return { x: 0, y: entranceOffset * rowPitchM };
+    case "right":
+      return { x: width, y: entranceOffset * rowPitchM };
+  }
+}
+
+export function buildAisleGraph(layout: WarehouseLayout): AisleGraph {
+  const { bayWidthM, rowPitchM, crossAisles } = layout.geometry;
+  const laneCount = layout.rows.length + 1;
+
+  // Points along each lane (keyed by lane index) and each cross-aisle (keyed by x).
+  const laneXs = Array.from({ length: laneCount }, () => new Set<number>());
+  const crossYs = new Map<number, Set<number>>();
+  for (const boundary of crossAisles) {
+    const x = boundary * bayWidthM;
+    const ys = new Set<number>();
+    for (let lane = 0; lane < laneCount; lane++) {
+      laneXs[lane].add(x);
+      ys.add(lane * rowPitchM);
+    }
+    crossYs.set(x, ys);
+  }
+
+  const access = new Map<string, { lane: number; x: number }>();
+  for (const loc of listLocations(layout)) {
+    const point = spotAccessPoint(layout, loc);
+    access.set(buildCode(loc.row, loc.aisle, loc.spot), point);
+    laneXs[point.lane].add(point.x);
+  }
+
+  const door = entrancePoint(layout);
+  if (layout.entranceSide === "top" || layout.entranceSide === "bottom") {
+    laneXs[layout.entranceSide === "top" ? 0 : laneCount - 1].add(door.x);
+  } else {
+    crossYs.get(door.x)!.add(door.y);
+  }
+
+  const nodes: GraphPoint[] = [];
+  const adjacency: GraphEdge[][] = [];
+  const index = new Map<string, number>();
+  const nodeAt = (x: number, y: number) => {
+    const key = `${x.toFixed(3)},${y.toFixed(3)}`;
+    let i = index.get(key);
+    if (i === undefined) {
+      i = nodes.length;
+      index.set(key, i);
+      nodes.push({ x, y });
+      adjacency.push([]);
+    }
+    return i;
+  };
+  const connect = (a: number, b: number) => {
+    const meters = Math.abs(nodes[a].x - nodes[b].x) + Math.abs(nodes[a].y - nodes[b].y);
+    adjacency[a].push({ to: b, meters });
+    adjacency[b].push({ to: a, meters });
+  };
+
+  laneXs.forEach((xs, lane) => {
+    const y = lane * rowPitchM;
+    const sorted = [...xs].sort((a, b) => a - b);
+    if (sorted.length === 1) nodeAt(sorted[0], y);
+    for (let i = 1; i < sorted.length; i++) connect(nodeAt(sorted[i - 1], y), nodeAt(sorted[i], y));
+  });
+  for (const [x, ys] of crossYs) {
+    const sorted = [...ys].sort((a, b) => a - b);
+    for (let i = 1; i < sorted.length; i++) connect(nodeAt(x, sorted[i - 1]), nodeAt(x, sorted[i]));
+  }
+
+  const spotNodes = new Map<string, number>();
+  for (const [code, point] of access) spotNodes.set(code, nodeAt(point.x, point.lane * rowPitchM));
+
+  return { layout, nodes, adjacency, entrance: nodeAt(door.x, door.y), spotNodes };
+}
+
+// Dijkstra over the (small) aisle graph; a linear scan for the next node is plenty here.
+export function shortestPaths(graph: AisleGraph, source: number): ShortestPaths {
+  const n = graph.nodes.length;
+  const meters = new Float64Array(n).fill(Infinity);
+  const prev = new Int32Array(n).fill(-1);
+  const done = new Uint8Array(n);
+  meters[source] = 0;
+
+  for (let step = 0; step < n; step++) {
+    let u = -1;
+    for (let i = 0; i < n; i++) if (!done[i] && (u < 0 || meters[i] < meters[u])) u = i;
+    if (u < 0 || meters[u] === Infinity) break;
+    done[u] = 1;
+    for (const { to, meters: w } of graph.adjacency[u]) {
+      if (meters[u] + w < meters[to]) {
+        meters[to] = meters[u] + w;
+        prev[to] = u;
+      }
+    }
+  }
+  return { meters, prev };
+}
+
+/** Walking distance in metres from the entrance to the spot's pick face. */
+export function distanceFromEntrance(graph: AisleGraph, code: string, paths = shortestPaths(graph, graph.entrance)) {
+  const node = graph.spotNodes.get(code);
+  return node === undefined ? Infinity : paths.meters[node];
+}
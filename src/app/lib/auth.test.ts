@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createMockToken, IdentityTokenError, verifyIdentityToken, type JsonWebKeySet } from "./auth";
+
+const CLIENT_ID = "dtx-floor-plan";
+const NOW = Date.UTC(2026, 0, 1);
+
+const ALGORITHMS = {
+  RS256: {
+    generate: {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    sign: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  ES256: {
+    generate: { name: "ECDSA", namedCurve: "P-256" },
+    sign: { name: "ECDSA", hash: "SHA-256" },
+  },
+} as const;
+type Alg = keyof typeof ALGORITHMS;
+
+function base64url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+const segment = (value: unknown) => base64url(new TextEncoder().encode(JSON.stringify(value)));
+
+async function signingKey(alg: Alg, kid: string) {
+  const pair = (await crypto.subtle.generateKey(ALGORITHMS[alg].generate, true, ["sign", "verify"])) as CryptoKeyPair;
+  const jwk = { ...(await crypto.subtle.exportKey("jwk", pair.publicKey)), kid, alg };
+  const sign = async (claims: Record<string, unknown>, header: Record<string, unknown> = {}) => {
+    const data = `${segment({ alg, kid, typ: "JWT", ...header })}.${segment(claims)}`;
+    const signature = await crypto.subtle.sign(ALGORITHMS[alg].sign, pair.privateKey, new TextEncoder().encode(data));
+    return `${data}.${base64url(new Uint8Array(signature))}`;
+  };
+  return { jwk, sign };
+}
+
+const claims = (extra: Record<string, unknown> = {}) => ({
+  iss: "https://idp.example",
+  sub: "u-42",
+  name: "Dana Ortiz",
+  role: "supervisor",
+  aud: CLIENT_ID,
+  exp: NOW / 1000 + 3600,
+  ...extra,
+});
+
+// A key set source: the first set is the cached one, the last is what a fresh fetch returns.
+function keySets(...sets: JsonWebKeySet[]) {
+  return vi.fn((fresh: boolean) => Promise.resolve(fresh ? sets[sets.length - 1] : sets[0]));
+}
+
+async function refusal(promise: Promise<unknown>): Promise<string[]> {
+  const err = await promise.then(
+    () => null,
+    (e: unknown) => e,
+  );
+  expect(err).toBeInstanceOf(IdentityTokenError);
+  return (err as IdentityTokenError).problems;
+}
+
+describe("verifyIdentityToken", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it.each(["RS256", "ES256"] as const)("accepts a %s token signed by a key in the set", async (alg) => {
+    const { jwk, sign } = await signingKey(alg, "k1");
+    const identity = await verifyIdentityToken(await sign(claims()), NOW, keySets({ keys: [jwk] }), CLIENT_ID);
+    expect(identity).toEqual({
+      subject: "u-42",
+      name: "Dana Ortiz",
+      role: "supervisor",
+      issuer: "https://idp.example",
+      expiresAt: new Date(NOW + 3600 * 1000).toISOString(),
+    });
+  });
+
+  it("picks the key named by kid", async () => {
+    const other = await signingKey("ES256", "k0");
+    const { jwk, sign } = await signingKey("ES256", "k1");
+    const getKeySet = keySets({ keys: [other.jwk, jwk] });
+    await expect(verifyIdentityToken(await sign(claims()), NOW, getKeySet, CLIENT_ID)).resolves.toMatchObject({
+      subject: "u-42",
+    });
+    expect(getKeySet).toHaveBeenCalledTimes(1);
+  });
+
+  it("fetches the key set again when the kid is unknown, after a key rotation", async () => {
+    const old = await signingKey("RS256", "k1");
+    const rotated = await signingKey("RS256", "k2");
+    const getKeySet = keySets({ keys: [old.jwk] }, { keys: [old.jwk, rotated.jwk] });
+    await expect(verifyIdentityToken(await rotated.sign(claims()), NOW, getKeySet, CLIENT_ID)).resolves.toMatchObject({
+      subject: "u-42",
+    });
+    expect(getKeySet.mock.calls).toEqual([[false], [true]]);
+  });
+
+  it("refuses a token no key in the set matches, even after refetching", async () => {
+    const { sign } = await signingKey("ES256", "k9");
+    const other = await signingKey("ES256", "k1");
+    const getKeySet = keySets({ keys: [other.jwk] });
+    expect(await refusal(verifyIdentityToken(await sign(claims()), NOW, getKeySet, CLIENT_ID))).toEqual([
+      "No signing key matches the token.",
+    ]);
+    expect(getKeySet).toHaveBeenCalledTimes(2);
+  });
+
+  it("refuses a bad signature", async () => {
+    const { sign } = await signingKey("ES256", "k1");
+    const impostor = await signingKey("ES256", "k1");
+    const getKeySet = keySets({ keys: [impostor.jwk] });
+    expect(await refusal(verifyIdentityToken(await sign(claims()), NOW, getKeySet, CLIENT_ID))).toEqual([
+      "The signature doesn't match.",
+    ]);
+
+    // Claims changed after signing.
+    const [header, , signature] = (await impostor.sign(claims())).split(".");
+    const tampered = `${header}.${segment(claims({ role: "admin" }))}.${signature}`;
+    expect(await refusal(verifyIdentityToken(tampered, NOW, getKeySet, CLIENT_ID))).toEqual([
+      "The signature doesn't match.",
+    ]);
+  });
+
+  it("refuses an expired token", async () => {
+    const { jwk, sign } = await signingKey("RS256", "k1");
+    const token = await sign(claims({ exp: NOW / 1000 }));
+    expect(await refusal(verifyIdentityToken(token, NOW, keySets({ keys: [jwk] }), CLIENT_ID))).toEqual([
+      "The sign-in has expired.",
+    ]);
+  });
+
+  it("refuses a token issued to another app, or any signed token without a client ID", async () => {
+    const { jwk, sign } = await signingKey("ES256", "k1");
+    const getKeySet = keySets({ keys: [jwk] });
+    for (const aud of ["another-app", ["another-app", "reports"], undefined]) {
+      expect(await refusal(verifyIdentityToken(await sign(claims({ aud })), NOW, getKeySet, CLIENT_ID))).toEqual([
+        "The token was issued to another app (aud).",
+      ]);
+    }
+    const token = await sign(claims({ aud: ["reports", CLIENT_ID] }));
+    await expect(verifyIdentityToken(token, NOW, getKeySet, CLIENT_ID)).resolves.toMatchObject({ subject: "u-42" });
+    expect(await refusal(verifyIdentityToken(token, NOW, getKeySet, ""))).toEqual([
+      "No client ID is configured (VITE_OIDC_CLIENT_ID).",
+    ]);
+  });
+
+  it.each(["HS256", "toString", "__proto__"])("refuses alg %s without looking up a key", async (alg) => {
+    const { jwk, sign } = await signingKey("RS256", "k1");
+    const getKeySet = keySets({ keys: [jwk] });
+    const problems = await refusal(verifyIdentityToken(await sign(claims(), { alg }), NOW, getKeySet, CLIENT_ID));
+    expect(problems).toEqual([`Tokens signed with ${alg} aren't supported; use RS256 or ES256.`]);
+    expect(getKeySet).not.toHaveBeenCalled();
+  });
+
+  it("accepts unsigned tokens only from the mock identity provider", async () => {
+    const getKeySet = keySets({ keys: [] });
+    const token = createMockToken({ subject: "pat", name: "Pat", role: "picker" });
+    // Test builds are dev builds, so the mock identity provider is on.
+    await expect(verifyIdentityToken(token, Date.now(), getKeySet, CLIENT_ID)).resolves.toMatchObject({
+      subject: "pat",
+      role: "picker",
+    });
+
+    vi.stubEnv("DEV", false);
+    vi.stubEnv("VITE_MOCK_IDP", "false");
+    vi.resetModules();
+    const production = await import("./auth");
+    const err = await production.verifyIdentityToken(token, Date.now(), getKeySet, CLIENT_ID).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(production.IdentityTokenError);
+    expect((err as IdentityTokenError).problems).toEqual([
+      "Unsigned tokens are only accepted from the mock identity provider.",
+    ]);
+    expect(getKeySet).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,333 @@
+import * as React from "react";
+
+/** Roles in increasing order of trust; each one may do everything the roles before it can. */
+export const ROLES = ["viewer", "picker", "supervisor", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABEL: Record<Role, string> = {
+  viewer: "Viewer",
+  picker: "Picker",
+  supervisor: "Supervisor",
+  admin: "Admin",
+};
+
+/**
+ * The least role allowed each change. Looking, searching, planning routes and exporting are open
+ * to everyone, signed in or not.
+ */
+const REQUIRED_ROLE = {
+  /** Notes and photos on a spot. */
+  annotate: "picker",
+  /** Recording a pallet put away in an empty spot. */
+  putAway: "picker",
+  /** Status and holds, on one spot or a selection. */
+  editStatus: "supervisor",
+  /** Inventory and pick-history files. */
+  importData: "supervisor",
+  calibrate: "supervisor",
+  /** Clearing pick history and trainees' quiz results. */
+  manageData: "admin",
+} satisfies Record<string, Role>;
+
+export type Permission = keyof typeof REQUIRED_ROLE;
+
+export interface Identity {
+  subject: string;
+  name: string;
+  role: Role;
+  issuer: string | null;
+  expiresAt: string;
+}
+
+export function can(identity: Identity | null, permission: Permission): boolean {
+  return ROLES.indexOf(identity?.role ?? "viewer") >= ROLES.indexOf(REQUIRED_ROLE[permission]);
+}
+
+/** Whether any edit control is open to the identity, i.e. whether edit mode is worth offering. */
+export function canEdit(identity: Identity | null): boolean {
+  return (Object.keys(REQUIRED_ROLE) as Permission[]).some((p) => can(identity, p));
+}
+
+/** The local mock identity provider runs in dev builds, or in any build made with `VITE_MOCK_IDP=true`. */
+export const MOCK_IDP_ENABLED = import.meta.env.DEV || import.meta.env.VITE_MOCK_IDP === "true";
+export const MOCK_IDP_ISSUER = "dtx-mock-idp";
+
+/** Where "Sign in" goes: `VITE_LOGIN_URL`, else the mock identity provider when it's enabled. */
+export function loginUrl(): string | null {
+  const configured = String(import.meta.env.VITE_LOGIN_URL ?? "").trim();
+  if (configured) return configured;
+  return MOCK_IDP_ENABLED ? `${window.location.origin}${import.meta.env.BASE_URL}?mock-idp=1` : null;
+}
+
+export class IdentityTokenError extends Error {
+  constructor(
+    message: string,
+    readonly problems: string[] = [],
+  ) {
+    super(message);
+    this.name = "IdentityTokenError";
+  }
+}
+
+function encodeSegment(value: unknown): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decodeBytes(segment: string): Uint8Array<ArrayBuffer> {
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function decodeSegment(segment: string): unknown {
+  return JSON.parse(new TextDecoder().decode(decodeBytes(segment)));
+}
+
+// The most trusted known role among the `role` and `roles` claims; none at all means viewer.
+function roleFromClaims(claims: Record<string, unknown>): Role {
+  const claimed = [claims.role, ...(Array.isArray(claims.roles) ? claims.roles : [])];
+  const known = ROLES.filter((r) => claimed.includes(r));
+  return known[known.length - 1] ?? "viewer";
+}
+
+/** Signed tokens are checked against this JSON Web Key Set; without one, only mock tokens are accepted. */
+export const JWKS_URL = String(import.meta.env.VITE_JWKS_URL ?? "").trim();
+
+/** Our client ID at the identity provider. Signed tokens must name it in `aud`; tokens for other apps are refused. */
+export const OIDC_CLIENT_ID = String(import.meta.env.VITE_OIDC_CLIENT_ID ?? "").trim();
+
+/** JWT `alg` values we verify, with their WebCrypto parameters. */
+const JWT_ALGORITHMS = {
+  RS256: {
+    key: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verify: { name: "RSASSA-PKCS1-v1_5" },
+  },
+  ES256: {
+    key: { name: "ECDSA", namedCurve: "P-256" },
+    verify: { name: "ECDSA", hash: "SHA-256" },
+  },
+} as const;
+
+type JwtAlgorithm = keyof typeof JWT_ALGORITHMS;
+
+export interface JsonWebKeySet {
+  keys: Array<JsonWebKey & { kid?: string }>;
+}
+
+let keySetRequest: Promise<JsonWebKeySet> | null = null;
+
+// Fetched once per page; a failed fetch is forgotten so the next sign-in tries again.
+function fetchKeySet(fresh = false): Promise<JsonWebKeySet> {
+  if (!JWKS_URL) return Promise.reject(new IdentityTokenError("No signing keys are configured (VITE_JWKS_URL)."));
+  if (fresh || !keySetRequest) {
+    keySetRequest = fetch(JWKS_URL)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json() as Promise<JsonWebKeySet>;
+      })
+      .catch((err: Error) => {
+        keySetRequest = null;
+        throw new IdentityTokenError(`The signing keys could not be loaded: ${err.message}`);
+      });
+  }
+  return keySetRequest;
+}
+
+/** Claims of a token whose signature hasn't been checked yet. */
+function readIdentityToken(token: string, now: number, clientId: string) {
+  const segments = token.trim().split(".");
+  if (segments.length !== 3) throw new IdentityTokenError("The sign-in token is not a JWT.");
+  let header: Record<string, unknown>;
+  let claims: Record<string, unknown>;
+  try {
+    header = decodeSegment(segments[0]) as Record<string, unknown>;
+    claims = decodeSegment(segments[1]) as Record<string, unknown>;
+  } catch {
+    // Bad base64 or JSON in either segment.
+    throw new IdentityTokenError("The sign-in token could not be read.");
+  }
+
+  const problems: string[] = [];
+  if (header.alg === "none") {
+    if (!MOCK_IDP_ENABLED) problems.push("Unsigned tokens are only accepted from the mock identity provider.");
+  } else if (!(typeof header.alg === "string" && Object.hasOwn(JWT_ALGORITHMS, header.alg))) {
+    const supported = Object.keys(JWT_ALGORITHMS).join(" or ");
+    problems.push(`Tokens signed with ${String(header.alg)} aren't supported; use ${supported}.`);
+  } else {
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!clientId) problems.push("No client ID is configured (VITE_OIDC_CLIENT_ID).");
+    else if (!audience.includes(clientId)) problems.push("The token was issued to another app (aud).");
+  }
+  if (typeof claims.sub !== "string" || !claims.sub) problems.push("The token has no subject (sub).");
+  if (typeof claims.exp !== "number") problems.push("The token has no expiry (exp).");
+  else if (claims.exp * 1000 <= now) problems.push("The sign-in has expired.");
+  if (problems.length) throw new IdentityTokenError("The sign-in token was refused.", problems);
+
+  const name = [claims.name, claims.preferred_username, claims.sub].find((n) => typeof n === "string" && n.trim());
+  const identity: Identity = {
+    subject: claims.sub as string,
+    name: (name as string).trim(),
+    role: roleFromClaims(claims),
+    issuer: typeof claims.iss === "string" ? claims.iss : null,
+    expiresAt: new Date((claims.exp as number) * 1000).toISOString(),
+  };
+  return { segments, alg: header.alg as JwtAlgorithm | "none", kid: header.kid, identity };
+}
+
+/**
+ * Check an ID token (a JWT) from the login redirect or the JIM host, and read who it names. The
+ * signature is verified against the key set at `VITE_JWKS_URL` before any claim is trusted, so a
+ * hand-made token can't claim a role, and its `aud` must be our client ID. Unsigned tokens are
+ * refused unless the mock identity provider is enabled. The backend that receives edits should
+ * still check the token itself.
+ */
+export async function verifyIdentityToken(
+  token: string,
+  now = Date.now(),
+  getKeySet: (fresh: boolean) => Promise<JsonWebKeySet> = fetchKeySet,
+  clientId = OIDC_CLIENT_ID,
+): Promise<Identity> {
+  const { segments, alg, kid, identity } = readIdentityToken(token, now, clientId);
+  if (alg === "none") return identity;
+
+  const findKey = (set: JsonWebKeySet) =>
+    set.keys.find((k) => (kid === undefined || k.kid === kid) && (k.alg === undefined || k.alg === alg));
+  // An unknown key id may mean the provider rotated its keys since we fetched them.
+  const jwk = findKey(await getKeySet(false)) ?? findKey(await getKeySet(true));
+  if (!jwk) throw new IdentityTokenError("The sign-in token was refused.", ["No signing key matches the token."]);
+
+  const { key: keyAlgorithm, verify } = JWT_ALGORITHMS[alg];
+  let valid: boolean;
+  try {
+    const key = await crypto.subtle.importKey("jwk", jwk, keyAlgorithm, false, ["verify"]);
+    const data = new TextEncoder().encode(`${segments[0]}.${segments[1]}`);
+    valid = await crypto.subtle.verify(verify, key, decodeBytes(segments[2]), data);
+  } catch {
+    // A key of the wrong type or a signature that isn't base64url.
+    valid = false;
+  }
+  if (!valid) throw new IdentityTokenError("The sign-in token was refused.", ["The signature doesn't match."]);
+  return identity;
+}
+
+/** An unsigned token from the mock identity provider, for development and demos. */
+export function createMockToken(
+  { subject, name, role }: { subject: string; name: string; role: Role },
+  ttlSeconds = 8 * 60 * 60,
+): string {
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const claims = { iss: MOCK_IDP_ISSUER, sub: subject, name, role, exp };
+  return `${encodeSegment({ alg: "none", typ: "JWT" })}.${encodeSegment(claims)}.`;
+}
+
+const TOKEN_KEY = "dtx-floor-plan.id-token";
+const LOGIN_STATE_KEY = "dtx-floor-plan.login-state";
+
+function readStored(key: string): string | null {
+  try {
+    return window.sessionStorage.getItem(key);
+  } catch {
+    // No session storage: every reload starts signed out.
+    return null;
+  }
+}
+
+function writeStored(key: string, value: string | null) {
+  try {
+    if (value === null) window.sessionStorage.removeItem(key);
+    else window.sessionStorage.setItem(key, value);
+  } catch {
+    // The sign-in lasts until the page is reloaded.
+  }
+}
+
+// The login redirect returns `#id_token=…&state=…`; take the token if the state is the one we sent.
+function takeRedirectToken(): string | null {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  const token = params.get("id_token");
+  if (!token) return null;
+  params.delete("id_token");
+  const state = params.get("state");
+  params.delete("state");
+  const rest = params.toString();
+  const { pathname, search } = window.location;
+  window.history.replaceState(window.history.state, "", `${pathname}${search}${rest ? `#${rest}` : ""}`);
+  const expected = readStored(LOGIN_STATE_KEY);
+  writeStored(LOGIN_STATE_KEY, null);
+  return state && state === expected ? token : null;
+}
+
+/**
+ * Who is signed in. The token comes from the login redirect and lasts for the browser session.
+ * When `hostToken` is given (an embedding host's SSO token, or `null` for nobody) the host owns
+ * the sign-in and there is no login of our own.
+ */
+export function useIdentity(hostToken?: string | null) {
+  const hosted = hostToken !== undefined;
+  const [storedToken, setStoredToken] = React.useState(() => (hosted ? null : readStored(TOKEN_KEY)));
+  const [now, setNow] = React.useState(() => Date.now());
+
+  React.useEffect(() => {
+    if (hosted) return;
+    const token = takeRedirectToken();
+    if (token) {
+      writeStored(TOKEN_KEY, token);
+      setStoredToken(token);
+    }
+  }, [hosted]);
+
+  const token = hosted ? hostToken : storedToken;
+  // Everyone is a viewer until the token has been verified.
+  const [result, setResult] = React.useState<{ identity: Identity | null; error: string | null }>({
+    identity: null,
+    error: null,
+  });
+  React.useEffect(() => {
+    let cancelled = false;
+    if (!token) {
+      setResult({ identity: null, error: null });
+      return;
+    }
+    verifyIdentityToken(token, now).then(
+      (identity) => {
+        if (!cancelled) setResult({ identity, error: null });
+      },
+      (err: Error) => {
+        const detail = err instanceof IdentityTokenError && err.problems.length ? ` ${err.problems.join(" ")}` : "";
+        if (!cancelled) setResult({ identity: null, error: `${err.message}${detail}` });
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [token, now]);
+
+  // Drop back to viewer the moment the token expires.
+  const expiresAt = result.identity?.expiresAt;
+  React.useEffect(() => {
+    if (!expiresAt) return;
+    const timer = window.setTimeout(() => setNow(Date.now()), Math.max(0, Date.parse(expiresAt) - Date.now()));
+    return () => window.clearTimeout(timer);
+  }, [expiresAt]);
+
+  const url = hosted ? null : loginUrl();
+  const signIn = React.useCallback(() => {
+    if (!url) return;
+    const state = crypto.randomUUID();
+    writeStored(LOGIN_STATE_KEY, state);
+    const target = new URL(url, window.location.href);
+    target.searchParams.set("redirect_uri", window.location.href.split("#")[0]);
+    target.searchParams.set("state", state);
+    window.location.assign(target.toString());
+  }, [url]);
+
+  const signOut = React.useCallback(() => {
+    writeStored(TOKEN_KEY, null);
+    setStoredToken(null);
+  }, []);
+
+  return { ...result, signIn: url ? signIn : null, signOut: hosted ? null : signOut };
+}
@@ -0,0 +1,12 @@
+/** Save a generated file through a temporary object URL; nothing leaves the browser. */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Revoke after the click has been handled; some browsers read the URL asynchronously.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
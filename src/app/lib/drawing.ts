@@ -0,0 +1,112 @@
+/**
+ * A tiny vector drawing model shared by the SVG and PDF exporters. Units are millimetres with
+ * the origin at the top-left of the page; colours are `#rrggbb`.
+ */
+export type DrawOp =
+  | { kind: "rect"; x: number; y: number; w: number; h: number; fill?: string; stroke?: string; strokeWidth?: number }
+  | { kind: "polygon"; points: [number, number][]; fill: string }
+  | { kind: "polyline"; points: [number, number][]; stroke: string; strokeWidth: number; dash?: [number, number] }
+  | { kind: "circle"; cx: number; cy: number; r: number; fill: string; stroke?: string; strokeWidth?: number }
+  | {
+      kind: "text";
+      x: number;
+      /** Baseline. */
+      y: number;
+      size: number;
+      text: string;
+      anchor?: "start" | "middle" | "end";
+      bold?: boolean;
+      fill?: string;
+      /** Degrees clockwise about (x, y), e.g. -90 to run text up a left margin. */
+      rotate?: number;
+    };
+
+export interface PageSize {
+  widthMm: number;
+  heightMm: number;
+}
+
+/**
+ * Both exporters set text in a monospace face, so its width is known without font metrics:
+ * every glyph is 0.6 em wide. PDF needs that to centre text; SVG uses it to fit text.
+ */
+export const MONO_ADVANCE_EM = 0.6;
+export const MONO_FONT_FAMILY = "'Courier New', Courier, monospace";
+
+export function textWidthMm(text: string, size: number) {
+  return text.length * size * MONO_ADVANCE_EM;
+}
+
+/** Largest font size (capped at `max`) at which `text` fits in `widthMm`. */
+export function fitTextSize(text: string, widthMm: number, max: number) {
+  return Math.min(max, widthMm / Math.max(1, text.length * MONO_ADVANCE_EM));
+}
+
+function escapeXml(text: string) {
+  return text.replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!);
+}
+
+const n = (v: number) => Number(v.toFixed(3));
+
+export function drawOpToSvg(op: DrawOp): string {
+  switch (op.kind) {
+    case "rect": {
+      const stroke = op.stroke ? ` stroke="${op.stroke}" stroke-width="${n(op.strokeWidth ?? 0.25)}"` : "";
+      return `<rect x="${n(op.x)}" y="${n(op.y)}" width="${n(op.w)}" height="${n(op.h)}" fill="${op.fill ?? "none"}"${stroke}/>`;
+    }
+    case "polygon":
+      return `<polygon points="${op.points.map(([x, y]) => `${n(x)},${n(y)}`).join(" ")}" fill="${op.fill}"/>`;
+    case "polyline": {
+      const dash = op.dash ? ` stroke-dasharray="${op.dash.map(n).join(" ")}"` : "";
+      return (
+        `<polyline points="${op.points.map(([x, y]) => `${n(x)},${n(y)}`).join(" ")}" fill="none" stroke="${op.stroke}"` +
+        ` stroke-width="${n(op.strokeWidth)}" stroke-linejoin="round"${dash}/>`
+      );
+    }
+    case "circle": {
+      const stroke = op.stroke ? ` stroke="${op.stroke}" stroke-width="${n(op.strokeWidth ?? 0.25)}"` : "";
+      return `<circle cx="${n(op.cx)}" cy="${n(op.cy)}" r="${n(op.r)}" fill="${op.fill}"${stroke}/>`;
+    }
+    case "text": {
+      const rotate = op.rotate ? ` transform="rotate(${op.rotate} ${n(op.x)} ${n(op.y)})"` : "";
+      return (
+        `<text x="${n(op.x)}" y="${n(op.y)}" font-size="${n(op.size)}" text-anchor="${op.anchor ?? "start"}"` +
+        `${op.bold ? ' font-weight="bold"' : ""} fill="${op.fill ?? "#000000"}"${rotate}>${escapeXml(op.text)}</text>`
+      );
+    }
+  }
+}
+
+/** A standalone SVG document for one page, sized in millimetres so it prints at true size. */
+export function pageToSvg(ops: DrawOp[], size: PageSize): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size.widthMm}mm" height="${size.heightMm}mm"`,
+    ` viewBox="0 0 ${size.widthMm} ${size.heightMm}" font-family="${MONO_FONT_FAMILY}">`,
+    ...ops.map(drawOpToSvg),
+    `</svg>`,
+  ].join("");
+}
+
+/** Rasterize an SVG document (as built by `pageToSvg`) to PNG at `pxPerMm`. */
+export function svgToPng(svg: string, size: PageSize, pxPerMm: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(size.widthMm * pxPerMm);
+      canvas.height = Math.round(size.heightMm * pxPerMm);
+      const ctx = canvas.getContext("2d")!;
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("The PNG could not be created."))), "image/png");
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("The SVG could not be rendered to PNG."));
+    };
+    img.src = url;
+  });
+}
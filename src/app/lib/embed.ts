@@ -0,0 +1,108 @@
+import type { EntranceView } from "../types";
+import type { SlotRecord } from "./inventory";
+import type { Location } from "./layout";
+
+/**
+ * postMessage protocol between the floor plan (in an iframe) and the JIM web app hosting it.
+ * Every message carries `channel: EMBED_CHANNEL` so unrelated messages on the window are ignored.
+ */
+export const EMBED_CHANNEL = "jim-floor-plan";
+export const EMBED_PROTOCOL_VERSION = 1;
+
+/** Host → floor plan. */
+export type HostMessage =
+  | { type: "select"; code: string }
+  | { type: "clearSelection" }
+  | { type: "highlight"; codes: string[] }
+  /** Raw slot records; the floor plan validates them like an import and merges them over its inventory. */
+  | { type: "setInventory"; records: unknown[] }
+  | { type: "setEntranceView"; view: EntranceView }
+  /** The JIM user's SSO ID token, or `null` to sign out; the role in it decides what can be edited. */
+  | { type: "setIdentity"; token: string | null };
+
+/** Floor plan → host. */
+export type FloorPlanEvent =
+  | { type: "ready"; version: number; site: string }
+  | { type: "select"; code: string; qualifiedCode: string; location: Location; slot: SlotRecord | null }
+  | { type: "clearSelection" }
+  | { type: "error"; message: string; problems: string[] };
+
+export type EmbedEnvelope<T> = T & { channel: typeof EMBED_CHANNEL };
+
+const ENTRANCE_VIEWS: readonly EntranceView[] = ["bottom", "left", "top"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/** Check an incoming message's shape; anything malformed or off-channel is `null`. */
+export function parseHostMessage(data: unknown): HostMessage | null {
+  if (!isRecord(data) || data.channel !== EMBED_CHANNEL) return null;
+  switch (data.type) {
+    case "select":
+      return typeof data.code === "string" ? { type: "select", code: data.code } : null;
+    case "clearSelection":
+      return { type: "clearSelection" };
+    case "highlight":
+      return Array.isArray(data.codes) && data.codes.every((c) => typeof c === "string")
+        ? { type: "highlight", codes: data.codes }
+        : null;
+    case "setInventory":
+      return Array.isArray(data.records) ? { type: "setInventory", records: data.records } : null;
+    case "setEntranceView":
+      return ENTRANCE_VIEWS.includes(data.view as EntranceView)
+        ? { type: "setEntranceView", view: data.view as EntranceView }
+        : null;
+    case "setIdentity":
+      return typeof data.token === "string" || data.token === null ? { type: "setIdentity", token: data.token } : null;
+    default:
+      return null;
+  }
+}
+
+export function parseFloorPlanEvent(data: unknown): FloorPlanEvent | null {
+  if (!isRecord(data) || data.channel !== EMBED_CHANNEL || typeof data.type !== "string") return null;
+  return ["ready", "select", "clearSelection", "error"].includes(data.type) ? (data as FloorPlanEvent) : null;
+}
+
+/**
+ * Origins allowed to host the floor plan: its own origin plus the comma-separated
+ * `VITE_EMBED_ALLOWED_ORIGINS` set at build time.
+ */
+export function allowedEmbedOrigins(): string[] {
+  const configured = String(import.meta.env.VITE_EMBED_ALLOWED_ORIGINS ?? "")
+    .split(",")
+    .map((o) => o.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+  return [window.location.origin, ...configured];
+}
+
+export function isAllowedEmbedOrigin(origin: string, allowed = allowedEmbedOrigins()) {
+  return origin !== "null" && allowed.includes(origin);
+}
+
+export interface FloorPlanClient {
+  send: (message: HostMessage) => void;
+  disconnect: () => void;
+}
+
+/**
+ * Host-side helper: talk to a floor plan iframe served from `origin`. Events from any other
+ * window or origin are dropped, and messages are only ever posted to `origin`.
+ */
+export function connectFloorPlan(
+  iframe: HTMLIFrameElement,
+  { origin, onEvent }: { origin: string; onEvent: (event: FloorPlanEvent) => void },
+): FloorPlanClient {
+  const onMessage = (e: MessageEvent) => {
+    if (e.origin !== origin || e.source !== iframe.contentWindow) return;
+    const event = parseFloorPlanEvent(e.data);
+    if (event) onEvent(event);
+  };
+  window.addEventListener("message", onMessage);
+
+  return {
+    send: (message) => iframe.contentWindow?.postMessage({ ...message, channel: EMBED_CHANNEL }, origin),
+    disconnect: () => window.removeEventListener("message", onMessage),
+  };
+}
@@ -0,0 +1,116 @@
+import * as React from "react";
+
+import type { EntranceView } from "../types";
+import type { CompassSide, RowCode, WarehouseLayout } from "./layout";
+import { readUrlParam, usePopState, writeUrlParams } from "./urlState";
+
+const STORAGE_KEY = "dtx-floor-plan.entranceView";
+const ENTRANCE_VIEWS: EntranceView[] = ["bottom", "left", "top"];
+
+// Screen sides in clockwise order; rotating a quarter turn moves a side one step.
+const CLOCKWISE: CompassSide[] = ["top", "right", "bottom", "left"];
+
+export type BayCell = { row: RowCode; aisle: number };
+
+export type GridHeader = { kind: "row"; row: RowCode } | { kind: "aisle"; aisle: number };
+
+export interface GridView {
+  /** Quarter turns clockwise applied to the layout's own orientation. */
+  quarterTurns: number;
+  columnHeaders: GridHeader[];
+  rowHeaders: GridHeader[];
+  /** Bays in screen order: `cells[screenRow][screenColumn]`. */
+  cells: BayCell[][];
+  /** Spot numbers in screen order inside each bay. */
+  spotMatrix: number[][];
+  /** Layout side (and so compass label) drawn on each screen side. */
+  screenSides: Record<CompassSide, CompassSide>;
+  /** Screen side the entrance bar is drawn on. */
+  entranceSide: CompassSide;
+}
+
+export function rotateMatrix<T>(matrix: T[][], quarterTurns: number): T[][] {
+  let out = matrix;
+  for (let k = 0; k < ((quarterTurns % 4) + 4) % 4; k++) {
+    const rows = out.length;
+    const cols = rows ? out[0].length : 0;
+    const src = out;
+    out = Array.from({ length: cols }, (_, i) => Array.from({ length: rows }, (_, j) => src[rows - 1 - j][i]));
+  }
+  return out;
+}
+
+function rotateSide(side: CompassSide, quarterTurns: number): CompassSide {
+  return CLOCKWISE[(CLOCKWISE.indexOf(side) + quarterTurns + 4) % 4];
+}
+
+// Rotate/transpose the layout so its entrance lands on the side the user picked.
+export function buildGridView(layout: WarehouseLayout, view: EntranceView): GridView {
+  const quarterTurns = (CLOCKWISE.indexOf(view) - CLOCKWISE.indexOf(layout.entranceSide) + 4) % 4;
+
+  const base: BayCell[][] = layout.rows.map((r) =>
+    Array.from({ length: layout.aisleCount }, (_, i) => ({ row: r.code, aisle: i + 1 })),
+  );
+  const cells = rotateMatrix(base, quarterTurns);
+  const transposed = quarterTurns % 2 === 1;
+  const header = (cell: BayCell, alongRow: boolean): GridHeader =>
+    alongRow !== transposed ? { kind: "row", row: cell.row } : { kind: "aisle", aisle: cell.aisle };
+
+  const baseSpots: number[][] = [];
+  for (let i = 0; i < layout.spotOrder.length; i += layout.spotColumns) {
+    baseSpots.push(layout.spotOrder.slice(i, i + layout.spotColumns));
+  }
+
+  const screenSides = {} as Record<CompassSide, CompassSide>;
+  for (const side of CLOCKWISE) screenSides[rotateSide(side, quarterTurns)] = side;
+
+  return {
+    quarterTurns,
+    columnHeaders: (cells[0] ?? []).map((cell) => header(cell, false)),
+    rowHeaders: cells.map((line) => header(line[0], true)),
+    cells,
+    spotMatrix: rotateMatrix(baseSpots, quarterTurns),
+    screenSides,
+    entranceSide: rotateSide(layout.entranceSide, quarterTurns),
+  };
+}
+
+function isEntranceView(value: unknown): value is EntranceView {
+  return ENTRANCE_VIEWS.includes(value as EntranceView);
+}
+
+function readStoredEntranceView(): EntranceView {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isEntranceView(stored) ? stored : "bottom";
+  } catch {
+    return "bottom";
+  }
+}
+
+// A shared link's `?view=` wins over the view this browser last used.
+function readEntranceView(): EntranceView {
+  const fromUrl = readUrlParam("view");
+  return isEntranceView(fromUrl) ? fromUrl : readStoredEntranceView();
+}
+
+/** Entrance view selection, kept in `?view=` and in localStorage so it survives a reload. */
+export function useEntranceView(): [EntranceView, (view: EntranceView) => void] {
+  const [view, setView] = React.useState<EntranceView>(() => readEntranceView());
+
+  usePopState(() => setView(readEntranceView()));
+
+  // Keep the URL showing the view in use, so a copied link opens the same orientation.
+  React.useEffect(() => writeUrlParams({ view }), [view]);
+
+  const update = React.useCallback((next: EntranceView) => {
+    setView(next);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Storage can be unavailable (private mode); the choice then lasts for the session only.
+    }
+  }, []);
+
+  return [view, update];
+}
@@ -0,0 +1,235 @@
+import * as React from "react";
+
+import { entrancePoint, shortestPaths, type AisleGraph, type GraphPoint } from "./aisleGraph";
+import {
+  buildCode,
+  isValidLocation,
+  type CompassSide,
+  type FloorFeatureKind,
+  type RowCode,
+  type WarehouseLayout,
+} from "./layout";
+import type { PlannedRoute } from "./routePlanner";
+
+export interface MapRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface MapSpot {
+  code: string;
+  row: RowCode;
+  aisle: number;
+  spot: number;
+  rect: MapRect;
+}
+
+export interface MapLabel {
+  text: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Everything the scale map draws, in metres on screen: the layout frame rotated by the entrance
+ * view's quarter turns, so the map turns with the table. Text positions are turned too; the text
+ * itself stays upright.
+ */
+export interface FloorMapScene {
+  width: number;
+  height: number;
+  bays: Array<{ row: RowCode; aisle: number; rect: MapRect }>;
+  spots: MapSpot[];
+  crossAisles: MapRect[];
+  features: Array<{ kind: FloorFeatureKind; label: string; rect: MapRect }>;
+  entrance: MapRect;
+  rowLabels: Array<MapLabel & { row: RowCode }>;
+  aisleLabels: Array<MapLabel & { aisle: number }>;
+  /**
+   * One per layout side; the entrance side names the entrance instead of "This side". `vertical`
+   * labels sit on the left or right of the screen and are drawn turned to read along the side.
+   */
+  sideLabels: Array<MapLabel & { layoutSide: CompassSide; entrance: boolean; vertical: boolean }>;
+  toMap: (point: GraphPoint) => GraphPoint;
+}
+
+// Room for the row/aisle labels, then for the compass side labels, around everything else.
+const LABEL_RING_M = 3;
+const SIDE_RING_M = 3.5;
+const SPOT_GAP_M = 0.12;
+const DOOR_WIDTH_M = 4;
+const DOOR_DEPTH_M = 1.2;
+
+function doorRect(layout: WarehouseLayout): MapRect {
+  const door = entrancePoint(layout);
+  const horizontal = layout.entranceSide === "top" || layout.entranceSide === "bottom";
+  const w = horizontal ? DOOR_WIDTH_M : DOOR_DEPTH_M;
+  const h = horizontal ? DOOR_DEPTH_M : DOOR_WIDTH_M;
+  switch (layout.entranceSide) {
+    case "top":
+      return { x: door.x - w / 2, y: door.y - h, w, h };
+    case "bottom":
+      return { x: door.x - w / 2, y: door.y, w, h };
+    case "left":
+      return { x: door.x - w, y: door.y - h / 2, w, h };
+    case "right":
+      return { x: door.x, y: door.y - h / 2, w, h };
+  }
+}
+
+export function buildFloorMapScene(layout: WarehouseLayout, quarterTurns: number): FloorMapScene {
+  const { bayWidthM, rowPitchM, crossAisles } = layout.geometry;
+  const { rackDepthM, crossAisleWidthM, features } = layout.floorMap;
+  const depth = layout.rows.length * rowPitchM;
+
+  const bays: FloorMapScene["bays"] = [];
+  const spots: MapSpot[] = [];
+  const matrixRows = layout.spotsPerBay / layout.spotColumns;
+  const cellW = bayWidthM / layout.spotColumns;
+  const cellH = rackDepthM / matrixRows;
+  layout.rows.forEach((r, i) => {
+    const y = i * rowPitchM + (rowPitchM - rackDepthM) / 2;
+    for (let aisle = r.aisles.from; aisle <= r.aisles.to; aisle++) {
+      if (!isValidLocation(layout, r.code, aisle)) continue;
+      const x = (aisle - 1) * bayWidthM;
+      bays.push({ row: r.code, aisle, rect: { x, y, w: bayWidthM, h: rackDepthM } });
+      layout.spotOrder.forEach((spot, index) => {
+        const rect = {
+          x: x + (index % layout.spotColumns) * cellW + SPOT_GAP_M,
+          y: y + Math.floor(index / layout.spotColumns) * cellH + SPOT_GAP_M,
+          w: cellW - 2 * SPOT_GAP_M,
+          h: cellH - 2 * SPOT_GAP_M,
+        };
+        spots.push({ code: buildCode(r.code, aisle, spot), row: r.code, aisle, spot, rect });
+      });
+    }
+  });
+
+  const crossRects = crossAisles.map((boundary) => ({
+    x: boundary * bayWidthM - crossAisleWidthM / 2,
+    y: 0,
+    w: crossAisleWidthM,
+    h: depth,
+  }));
+  const door = doorRect(layout);
+
+  // Content bounds first, then the two label rings around them.
+  const content = [{ x: 0, y: 0, w: layout.aisleCount * bayWidthM, h: depth }, ...crossRects, door, ...features];
+  let minX = Math.min(...content.map((r) => r.x)) - LABEL_RING_M;
+  let minY = Math.min(...content.map((r) => r.y)) - LABEL_RING_M;
+  let maxX = Math.max(...content.map((r) => r.x + r.w)) + LABEL_RING_M;
+  let maxY = Math.max(...content.map((r) => r.y + r.h)) + LABEL_RING_M;
+  const rowLabelX = minX + LABEL_RING_M / 2;
+  const aisleLabelY = minY + LABEL_RING_M / 2;
+  minX -= SIDE_RING_M;
+  minY -= SIDE_RING_M;
+  maxX += SIDE_RING_M;
+  maxY += SIDE_RING_M;
+
+  // Translate to the origin, then turn a quarter clockwise at a time: (x, y) -> (h - y, x).
+  let width = maxX - minX;
+  let height = maxY - minY;
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  const toMap = (point: GraphPoint): GraphPoint => {
+    let p = { x: point.x - minX, y: point.y - minY };
+    let h = maxY - minY;
+    let w = maxX - minX;
+    for (let k = 0; k < turns; k++) {
+      p = { x: h - p.y, y: p.x };
+      [w, h] = [h, w];
+    }
+    return p;
+  };
+  const rectToMap = (r: MapRect): MapRect => {
+    const a = toMap({ x: r.x, y: r.y });
+    const b = toMap({ x: r.x + r.w, y: r.y + r.h });
+    return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), w: Math.abs(a.x - b.x), h: Math.abs(a.y - b.y) };
+  };
+  const labelAt = (text: string, x: number, y: number): MapLabel => ({ text, ...toMap({ x, y }) });
+  if (turns % 2 === 1) [width, height] = [height, width];
+
+  const midX = (minX + maxX) / 2;
+  const midY = (minY + maxY) / 2;
+  const sideAt: Record<CompassSide, GraphPoint> = {
+    top: { x: midX, y: minY + SIDE_RING_M / 2 },
+    bottom: { x: midX, y: maxY - SIDE_RING_M / 2 },
+    left: { x: minX + SIDE_RING_M / 2, y: midY },
+    right: { x: maxX - SIDE_RING_M / 2, y: midY },
+  };
+
+  return {
+    width,
+    height,
+    bays: bays.map((b) => ({ ...b, rect: rectToMap(b.rect) })),
+    spots: spots.map((s) => ({ ...s, rect: rectToMap(s.rect) })),
+    crossAisles: crossRects.map(rectToMap),
+    features: features.map((f) => ({ kind: f.kind, label: f.label, rect: rectToMap(f) })),
+    entrance: rectToMap(door),
+    rowLabels: layout.rows.map((r, i) => ({
+      row: r.code,
+      ...labelAt(r.code, rowLabelX, (i + 0.5) * rowPitchM),
+    })),
+    aisleLabels: Array.from({ length: layout.aisleCount }, (_, i) => ({
+      aisle: i + 1,
+      ...labelAt(String(i + 1), (i + 0.5) * bayWidthM, aisleLabelY),
+    })),
+    sideLabels: (["top", "bottom", "left", "right"] as const).map((side) => {
+      const entrance = side === layout.entranceSide;
+      const text = entrance ? `${layout.compass[side]} entrance` : `This side ${layout.compass[side]}`;
+      const vertical = (side === "left" || side === "right") !== (turns % 2 === 1);
+      return { ...labelAt(text, sideAt[side].x, sideAt[side].y), layoutSide: side, entrance, vertical };
+    }),
+    toMap,
+  };
+}
+
+/**
+ * The route as walked: every leg follows the aisle graph's shortest path between pick faces,
+ * from the entrance and (if the route returns) back to it. Points are in the layout frame.
+ */
+export function routeWalkPath(graph: AisleGraph, route: PlannedRoute): GraphPoint[] {
+  const nodeOf = (code: string | null) => (code === null ? graph.entrance : graph.spotNodes.get(code));
+  const paths = new Map<number, ReturnType<typeof shortestPaths>>();
+  const points: GraphPoint[] = [];
+  for (const leg of route.legs) {
+    const from = nodeOf(leg.from);
+    const to = nodeOf(leg.to);
+    if (from === undefined || to === undefined) continue;
+    if (!paths.has(from)) paths.set(from, shortestPaths(graph, from));
+    const { prev } = paths.get(from)!;
+    const nodes: number[] = [];
+    for (let at = to; at !== -1 && at !== from; at = prev[at]) nodes.push(at);
+    nodes.push(from);
+    nodes.reverse();
+    for (const node of points.length ? nodes.slice(1) : nodes) points.push(graph.nodes[node]);
+  }
+  return points;
+}
+
+export type FloorView = "map" | "table";
+
+const FLOOR_VIEW_KEY = "dtx-floor-plan.floorView";
+
+/** Scale map or the compact table; remembered per device like the entrance view. */
+export function useFloorView(): [FloorView, (view: FloorView) => void] {
+  const [view, setView] = React.useState<FloorView>(() => {
+    try {
+      return window.localStorage.getItem(FLOOR_VIEW_KEY) === "table" ? "table" : "map";
+    } catch {
+      return "map";
+    }
+  });
+
+  const update = React.useCallback((next: FloorView) => {
+    setView(next);
+    try {
+      window.localStorage.setItem(FLOOR_VIEW_KEY, next);
+    } catch {
+      // Nowhere to remember it; the map comes back on the next visit.
+    }
+  }, []);
+
+  return [view, update];
+}
@@ -0,0 +1,254 @@
+import type { EntranceView } from "../types";
+import { fitTextSize, textWidthMm, type DrawOp, type PageSize } from "./drawing";
+import { buildGridView, type GridHeader } from "./entranceView";
+import { getSlot, SLOT_STATUSES, SLOT_STATUS_LABEL, type SlotInventory, type SlotStatus } from "./inventory";
+import { buildCode, getRow, isValidLocation, type CompassSide, type Location, type WarehouseLayout } from "./layout";
+import type { PlannedRoute } from "./routePlanner";
+
+export interface FloorPlanSnapshot {
+  layout: WarehouseLayout;
+  entranceView: EntranceView;
+  inventory: SlotInventory;
+  selected: Location | null;
+  /** Spots of a multi-selection; while there are any, they are drawn as the selection instead of `selected`. */
+  selectedCodes: ReadonlySet<string>;
+  highlighted: ReadonlySet<string>;
+  route: PlannedRoute | null;
+  exportedAt: Date;
+}
+
+// Hex versions of the grid's Tailwind colours, so exports (and the scale map) match the table.
+const GRID_LINE = "#d1d5db";
+export const STATUS_COLORS: Record<SlotStatus, { fill: string; stroke: string; text: string }> = {
+  occupied: { fill: "#e0f2fe", stroke: "#7dd3fc", text: "#0c4a6e" },
+  empty: { fill: "#ffffff", stroke: GRID_LINE, text: "#475569" },
+  reserved: { fill: "#ede9fe", stroke: "#c4b5fd", text: "#4c1d95" },
+  blocked: { fill: "#fecdd3", stroke: "#fda4af", text: "#881337" },
+};
+export const SELECTED = { fill: "#eff6ff", stroke: "#1d4ed8", text: "#1e40af" };
+export const HIGHLIGHT = "#fbbf24";
+export const ROUTE_LINE = "#f59e0b";
+export const ROUTE_STOP = "#b45309";
+const INK = "#0f172b";
+const SIDE_COLORS: Record<CompassSide, { fill: string; text: string }> = {
+  top: { fill: "#eff6ff", text: "#1e3a8a" },
+  bottom: { fill: "#eff6ff", text: "#1e3a8a" },
+  left: { fill: "#fef2f2", text: "#b91c1c" },
+  right: { fill: "#f3f4f6", text: "#374151" },
+};
+
+// Sizes in millimetres. At these sizes an A3/tabloid print is readable; SVG and PDF scale from there.
+const SPOT = 7;
+const SPOT_GAP = 0.8;
+const BAY_PAD = 1.2;
+const HEADER = 9;
+const BAND = 9;
+const BAND_GAP = 3;
+const MARGIN = 10;
+const TITLE_BLOCK = 16;
+const LEGEND_BLOCK = 14;
+
+function centered(x: number, y: number, size: number, text: string, fill: string, bold = false): DrawOp {
+  return { kind: "text", x, y, size, text, anchor: "middle", bold, fill };
+}
+
+function formatTimestamp(date: Date) {
+  const pad = (v: number) => String(v).padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
+
+/**
+ * Draw the floor plan from layout data (not from the DOM) in the chosen entrance view:
+ * compass bands, headers, every spot coloured by status, selection, highlights, route, legend
+ * and a timestamp. The page is sized to fit the plan.
+ */
+export function drawFloorPlan(snapshot: FloorPlanSnapshot): { ops: DrawOp[]; size: PageSize } {
+  const { layout, inventory, selected, selectedCodes, highlighted, route } = snapshot;
+  const view = buildGridView(layout, snapshot.entranceView);
+  const spotRows = view.spotMatrix.length;
+  const spotCols = view.spotMatrix[0].length;
+  const bayW = spotCols * SPOT + (spotCols - 1) * SPOT_GAP + 2 * BAY_PAD;
+  const bayH = spotRows * SPOT + (spotRows - 1) * SPOT_GAP + 2 * BAY_PAD;
+  const gridW = HEADER + view.columnHeaders.length * bayW;
+  const gridH = HEADER + view.rowHeaders.length * bayH;
+
+  const gridX = MARGIN + BAND + BAND_GAP;
+  const gridY = MARGIN + TITLE_BLOCK + BAND + BAND_GAP;
+  const width = gridX + gridW + BAND_GAP + BAND + MARGIN;
+  const height = gridY + gridH + BAND_GAP + BAND + LEGEND_BLOCK + MARGIN;
+  const ops: DrawOp[] = [];
+
+  // Title and timestamp.
+  ops.push({
+    kind: "text",
+    x: MARGIN,
+    y: MARGIN + 6,
+    size: fitTextSize(`${layout.site} • ${layout.client} • ${layout.name}`, width - 2 * MARGIN, 6),
+    text: `${layout.site} • ${layout.client} • ${layout.name}`,
+    bold: true,
+    fill: INK,
+  });
+  const subtitle =
+    `${layout.shape} layout • Format ROW-AISLE-SPOT • Site code ${layout.id} • ` +
+    `Exported ${formatTimestamp(snapshot.exportedAt)}`;
+  ops.push({
+    kind: "text",
+    x: MARGIN,
+    y: MARGIN + 12,
+    size: fitTextSize(subtitle, width - 2 * MARGIN, 3.2),
+    text: subtitle,
+    fill: "#475569",
+  });
+
+  // Compass side bands; the entrance side gets the dark entrance bar instead.
+  const bands: Record<CompassSide, { x: number; y: number; w: number; h: number }> = {
+    top: { x: gridX, y: gridY - BAND_GAP - BAND, w: gridW, h: BAND },
+    bottom: { x: gridX, y: gridY + gridH + BAND_GAP, w: gridW, h: BAND },
+    left: { x: gridX - BAND_GAP - BAND, y: gridY, w: BAND, h: gridH },
+    right: { x: gridX + gridW + BAND_GAP, y: gridY, w: BAND, h: gridH },
+  };
+  for (const screenSide of ["top", "bottom", "left", "right"] as const) {
+    const band = bands[screenSide];
+    const isEntrance = view.entranceSide === screenSide;
+    const layoutSide = view.screenSides[screenSide];
+    const colors = isEntrance ? { fill: INK, text: "#ffffff" } : SIDE_COLORS[layoutSide];
+    const label = isEntrance
+      ? `The side ${layout.compass[layout.entranceSide]} warehouse entrance`
+      : `This side ${layout.compass[layoutSide]}`;
+    const vertical = screenSide === "left" || screenSide === "right";
+    const size = fitTextSize(label, (vertical ? band.h : band.w) - 4, 3.6);
+    ops.push({ kind: "rect", ...band, fill: colors.fill });
+    ops.push({
+      kind: "text",
+      x: band.x + band.w / 2 + (vertical ? size * 0.35 : 0),
+      y: band.y + band.h / 2 + (vertical ? 0 : size * 0.35),
+      size,
+      text: label,
+      anchor: "middle",
+      bold: true,
+      fill: colors.text,
+      rotate: vertical ? -90 : undefined,
+    });
+  }
+
+  // Headers.
+  const headerText = (h: GridHeader) => (h.kind === "row" ? h.row : String(h.aisle));
+  const headerColors = (h: GridHeader) => {
+    const active = h.kind === "row" ? selected?.row === h.row : selected?.aisle === h.aisle;
+    if (active) return { fill: "#1e3a8a", text: "#ffffff" };
+    if (h.kind === "row" && getRow(layout, h.row)?.accent) return { fill: "#fed7aa", text: "#7c2d12" };
+    if (h.kind === "row") return { fill: "#f8fafc", text: INK };
+    return { fill: "#dbeafe", text: "#1e3a8a" };
+  };
+  const drawHeader = (h: GridHeader, x: number, y: number, w: number, hh: number) => {
+    const colors = headerColors(h);
+    ops.push({ kind: "rect", x, y, w, h: hh, fill: colors.fill, stroke: GRID_LINE, strokeWidth: 0.2 });
+    ops.push(centered(x + w / 2, y + hh / 2 + 1.4, 4, headerText(h), colors.text, true));
+  };
+  const corner = { x: gridX, y: gridY, w: HEADER, h: HEADER };
+  ops.push({ kind: "rect", ...corner, fill: "#f1f5f9", stroke: GRID_LINE, strokeWidth: 0.2 });
+  view.columnHeaders.forEach((h, c) => drawHeader(h, gridX + HEADER + c * bayW, gridY, bayW, HEADER));
+  view.rowHeaders.forEach((h, r) => drawHeader(h, gridX, gridY + HEADER + r * bayH, HEADER, bayH));
+
+  // Bays and spots; remember spot centres for the route.
+  const centers = new Map<string, [number, number]>();
+  const highlightRings: DrawOp[] = [];
+  view.cells.forEach((line, r) => {
+    line.forEach(({ row, aisle }, c) => {
+      const x = gridX + HEADER + c * bayW;
+      const y = gridY + HEADER + r * bayH;
+      if (!isValidLocation(layout, row, aisle)) {
+        ops.push({ kind: "rect", x, y, w: bayW, h: bayH, fill: "#e5e7eb", stroke: GRID_LINE, strokeWidth: 0.2 });
+        ops.push(centered(x + bayW / 2, y + bayH / 2 + 0.8, 2.4, "No storage", "#6b7280"));
+        return;
+      }
+      const baySelected = selected?.spot === null && selected.row === row && selected.aisle === aisle;
+      ops.push({
+        kind: "rect",
+        x,
+        y,
+        w: bayW,
+        h: bayH,
+        fill: "#f8fafc",
+        stroke: baySelected ? SELECTED.stroke : GRID_LINE,
+        strokeWidth: baySelected ? 0.8 : 0.2,
+      });
+      view.spotMatrix.forEach((spots, sr) => {
+        spots.forEach((spot, sc) => {
+          const code = buildCode(row, aisle, spot);
+          const sx = x + BAY_PAD + sc * (SPOT + SPOT_GAP);
+          const sy = y + BAY_PAD + sr * (SPOT + SPOT_GAP);
+          const isSelected = selectedCodes.size ? selectedCodes.has(code) : selected?.code === code;
+          const colors = isSelected ? SELECTED : STATUS_COLORS[getSlot(inventory, code).status];
+          ops.push({
+            kind: "rect",
+            x: sx,
+            y: sy,
+            w: SPOT,
+            h: SPOT,
+            fill: colors.fill,
+            stroke: colors.stroke,
+            strokeWidth: isSelected ? 0.8 : 0.25,
+          });
+          ops.push(centered(sx + SPOT / 2, sy + SPOT / 2 + 1, 2.8, String(spot), colors.text, true));
+          if (highlighted.has(code) && !isSelected) {
+            const ring = { x: sx - 0.3, y: sy - 0.3, w: SPOT + 0.6, h: SPOT + 0.6 };
+            highlightRings.push({ kind: "rect", ...ring, stroke: HIGHLIGHT, strokeWidth: 0.9 });
+          }
+          centers.set(code, [sx + SPOT / 2, sy + SPOT / 2]);
+        });
+      });
+    });
+  });
+  ops.push(...highlightRings);
+
+  // Route: the same straight entrance-to-stop line and numbered markers as the on-screen overlay.
+  if (route) {
+    const entranceBand = bands[view.entranceSide];
+    const door: [number, number] = [entranceBand.x + entranceBand.w / 2, entranceBand.y + entranceBand.h / 2];
+    const stops = route.stops.flatMap((s) => (centers.has(s.code) ? [{ code: s.code, at: centers.get(s.code)! }] : []));
+    const points = [door, ...stops.map((s) => s.at), ...(route.returnToEntrance ? [door] : [])];
+    if (points.length > 1) ops.push({ kind: "polyline", points, stroke: ROUTE_LINE, strokeWidth: 0.9, dash: [2, 1.3] });
+    stops.forEach(({ at }, i) => {
+      ops.push({ kind: "circle", cx: at[0], cy: at[1], r: 2.8, fill: ROUTE_STOP, stroke: "#ffffff", strokeWidth: 0.5 });
+      ops.push(centered(at[0], at[1] + 1, 2.8, String(i + 1), "#ffffff", true));
+    });
+  }
+
+  // Legend.
+  const legendY = gridY + gridH + BAND_GAP + BAND + 8;
+  let lx = MARGIN;
+  const box = (fill: string, stroke: string, strokeWidth = 0.25) => (x: number, y: number): DrawOp[] => [
+    { kind: "rect", x, y, w: 4, h: 4, fill, stroke, strokeWidth },
+  ];
+  const swatch = (label: string, draw: (x: number, y: number) => DrawOp[]) => {
+    ops.push(...draw(lx, legendY - 3.2));
+    ops.push({ kind: "text", x: lx + 6, y: legendY, size: 3, text: label, fill: "#475569" });
+    lx += 6 + textWidthMm(label, 3) + 6;
+  };
+  for (const status of SLOT_STATUSES) {
+    const colors = STATUS_COLORS[status];
+    swatch(SLOT_STATUS_LABEL[status], box(colors.fill, colors.stroke));
+  }
+  swatch(
+    selectedCodes.size ? `Selected (${selectedCodes.size} spots)` : "Selected",
+    box(SELECTED.fill, SELECTED.stroke, 0.6),
+  );
+  if (highlighted.size) {
+    swatch("Search match", box("#ffffff", HIGHLIGHT, 0.8));
+  }
+  if (route) {
+    swatch(`Pick route (${route.stops.length} stops)`, (x, y) => [
+      { kind: "polyline", points: [[x, y + 2], [x + 4, y + 2]], stroke: ROUTE_LINE, strokeWidth: 0.9 },
+    ]);
+  }
+
+  return { ops, size: { widthMm: width, heightMm: height } };
+}
+
+export function floorPlanFileName(layout: WarehouseLayout, exportedAt: Date) {
+  return `${layout.id}-floor-plan-${formatTimestamp(exportedAt).replace(/[: ]/g, (c) => (c === " " ? "_" : ""))}`;
+}
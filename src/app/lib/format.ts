@@ -0,0 +1,10 @@
+export function formatMinutesSeconds(totalSeconds: number) {
+  const clamped = Math.max(0, Math.round(totalSeconds));
+  const minutes = Math.floor(clamped / 60);
+  const seconds = clamped % 60;
+  const secondLabel = seconds === 1 ? "second" : "seconds";
+  if (minutes <= 0) return `${seconds} ${secondLabel}`;
+  const minuteLabel = minutes === 1 ? "minute" : "minutes";
+  if (seconds <= 0) return `${minutes} ${minuteLabel}`;
+  return `${minutes} ${minuteLabel} ${seconds} ${secondLabel}`;
+}
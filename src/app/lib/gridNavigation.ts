@@ -0,0 +1,97 @@
+import type { GridView } from "./entranceView";
+import { buildCode, isValidLocation, type WarehouseLayout } from "./layout";
+
+/**
+ * Every spot as drawn on screen: bays in `cells` order, each expanded into its `spotMatrix`, so
+ * neighbours in the matrix are physical neighbours whatever the entrance view. `null` marks bays
+ * with no storage.
+ */
+export interface SpotMatrix {
+  codes: (string | null)[][];
+  positions: Map<string, { y: number; x: number }>;
+}
+
+export function buildSpotMatrix(layout: WarehouseLayout, view: GridView): SpotMatrix {
+  const spotRows = view.spotMatrix.length;
+  const spotCols = spotRows ? view.spotMatrix[0].length : 0;
+  const codes: (string | null)[][] = [];
+  const positions = new Map<string, { y: number; x: number }>();
+  view.cells.forEach((line, bayY) => {
+    for (let sy = 0; sy < spotRows; sy++) {
+      const y = bayY * spotRows + sy;
+      codes[y] = [];
+      line.forEach(({ row, aisle }, bayX) => {
+        const valid = isValidLocation(layout, row, aisle);
+        for (let sx = 0; sx < spotCols; sx++) {
+          const x = bayX * spotCols + sx;
+          const code = valid ? buildCode(row, aisle, view.spotMatrix[sy][sx]) : null;
+          codes[y][x] = code;
+          if (code) positions.set(code, { y, x });
+        }
+      });
+    }
+  });
+  return { codes, positions };
+}
+
+export function firstSpot(matrix: SpotMatrix): string | null {
+  for (const line of matrix.codes) for (const code of line) if (code) return code;
+  return null;
+}
+
+function lastSpot(matrix: SpotMatrix): string | null {
+  for (let y = matrix.codes.length - 1; y >= 0; y--) {
+    for (let x = matrix.codes[y].length - 1; x >= 0; x--) if (matrix.codes[y][x]) return matrix.codes[y][x];
+  }
+  return null;
+}
+
+const STEPS: Record<string, { dy: number; dx: number }> = {
+  ArrowUp: { dy: -1, dx: 0 },
+  ArrowDown: { dy: 1, dx: 0 },
+  ArrowLeft: { dy: 0, dx: -1 },
+  ArrowRight: { dy: 0, dx: 1 },
+};
+
+/**
+ * The spot a key moves focus to, or `null` if the key isn't a grid key. Arrows step one spot in
+ * that screen direction, across bay, aisle and row borders, skipping bays with no storage; at the
+ * edge focus stays put. Home/End go to the ends of the screen line, and with Ctrl to the first or
+ * last spot of the grid.
+ */
+export function nextSpot(matrix: SpotMatrix, from: string, key: string, ctrlKey = false): string | null {
+  const at = matrix.positions.get(from);
+  if (!at) return null;
+  if (key === "Home" || key === "End") {
+    if (ctrlKey) return key === "Home" ? firstSpot(matrix) : lastSpot(matrix);
+    const line = matrix.codes[at.y].filter((c): c is string => !!c);
+    return key === "Home" ? line[0] : line[line.length - 1];
+  }
+  const step = STEPS[key];
+  if (!step) return null;
+  for (let y = at.y + step.dy, x = at.x + step.dx; matrix.codes[y]?.[x] !== undefined; y += step.dy, x += step.dx) {
+    const code = matrix.codes[y][x];
+    if (code) return code;
+  }
+  return from;
+}
+
+/** What the live region says after the selection changes. */
+export function selectionAnnouncement({
+  code,
+  statusLabel,
+  walkTime,
+  count,
+}: {
+  /** The selected spot or bay, or `null` once cleared. */
+  code: string | null;
+  statusLabel: string | null;
+  walkTime: string | null;
+  /** Spots in a multi-selection; 1 or 0 for a single selection. */
+  count: number;
+}): string {
+  const walk = (what: string) => (walkTime ? ` ${what} about ${walkTime}.` : "");
+  if (count > 1) return `${count} spots selected.${walk("Walk to visit them all:")}`;
+  if (!code) return "Selection cleared.";
+  return `${code} selected${statusLabel ? `, ${statusLabel.toLowerCase()}` : ""}.${walk("Walk from the entrance:")}`;
+}
@@ -0,0 +1,209 @@
+import * as React from "react";
+
+import { shortestPaths, type AisleGraph } from "./aisleGraph";
+import { parseCsvRecords } from "./csv";
+import type { SlotInventory } from "./inventory";
+import { buildCode, listLocations, parseLocationCode, type WarehouseLayout } from "./layout";
+import { estimateTravelSeconds, type TravelModel } from "./travelTime";
+
+export type HeatMetric = "walkTime" | "pickFrequency" | "daysIdle";
+
+export const HEAT_METRICS: HeatMetric[] = ["walkTime", "pickFrequency", "daysIdle"];
+
+export const HEAT_METRIC_LABEL: Record<HeatMetric, string> = {
+  walkTime: "Walk time",
+  pickFrequency: "Pick frequency",
+  daysIdle: "Days since last move",
+};
+
+/** Five classes from cool to hot, one per 20 percentile points. */
+export const HEAT_COLORS = ["#fef9c3", "#fde68a", "#fdba74", "#f87171", "#b91c1c"];
+
+/** Picks per spot, summarized from an imported pick history. */
+export interface PickHistory {
+  picks: Record<string, { count: number; lastPickedAt: string }>;
+  total: number;
+  from: string;
+  to: string;
+  fileName: string;
+}
+
+export interface HeatMap {
+  /** Metric value per `ROW-AISLE-SPOT`; spots without data are absent. */
+  values: Record<string, number>;
+  /**
+   * 0–100: the share of mapped spots with a strictly lower value. Ties share the lowest rank, so a
+   * floor full of never-picked spots stays in the coolest color.
+   */
+  percentiles: Record<string, number>;
+  /** Value range of each `HEAT_COLORS` class. */
+  bins: { min: number; max: number }[];
+}
+
+export class PickHistoryImportError extends Error {
+  constructor(
+    message: string,
+    readonly problems: string[] = [],
+  ) {
+    super(message);
+    this.name = "PickHistoryImportError";
+  }
+}
+
+/** Parse a pick-history CSV (header: code,pickedAt; other columns are ignored) into per-spot counts. */
+export function parsePickHistory(layout: WarehouseLayout, text: string, fileName: string): PickHistory {
+  const rows = parseCsvRecords(text);
+  if (!rows.length) throw new PickHistoryImportError(`${fileName} has no pick rows.`);
+  if (!("code" in rows[0]) || !("pickedat" in rows[0])) {
+    throw new PickHistoryImportError(`${fileName} needs "code" and "pickedAt" columns.`);
+  }
+
+  const picks: PickHistory["picks"] = {};
+  const problems: string[] = [];
+  let from = "";
+  let to = "";
+  rows.forEach((row, i) => {
+    const loc = parseLocationCode(layout, row.code);
+    const time = Date.parse(row.pickedat);
+    if (!loc) return void problems.push(`row ${i + 2}: "${row.code}" is not a storage spot`);
+    if (Number.isNaN(time)) return void problems.push(`row ${i + 2}: pickedAt "${row.pickedat}" is not a date`);
+    const code = buildCode(loc.row, loc.aisle, loc.spot);
+    const pickedAt = new Date(time).toISOString();
+    const prev = picks[code];
+    picks[code] = {
+      count: (prev?.count ?? 0) + 1,
+      lastPickedAt: prev && prev.lastPickedAt > pickedAt ? prev.lastPickedAt : pickedAt,
+    };
+    if (!from || pickedAt < from) from = pickedAt;
+    if (!to || pickedAt > to) to = pickedAt;
+  });
+  if (problems.length) {
+    throw new PickHistoryImportError(`${problems.length} invalid row(s) in ${fileName}.`, problems);
+  }
+  return { picks, total: rows.length, from, to, fileName };
+}
+
+const DAY_MS = 86_400_000;
+
+export interface HeatMapInputs {
+  graph: AisleGraph;
+  model: TravelModel;
+  inventory: SlotInventory;
+  history: PickHistory | null;
+  now: number;
+}
+
+function metricValues(
+  metric: HeatMetric,
+  { graph, model, inventory, history, now }: HeatMapInputs,
+): Record<string, number> {
+  const codes = listLocations(graph.layout).map((l) => buildCode(l.row, l.aisle, l.spot));
+  const values: Record<string, number> = {};
+  if (metric === "walkTime") {
+    const paths = shortestPaths(graph, graph.entrance);
+    for (const code of codes) values[code] = estimateTravelSeconds(graph, model, code, paths);
+  } else if (metric === "pickFrequency") {
+    // No history means no data, not zero picks everywhere.
+    if (history) for (const code of codes) values[code] = history.picks[code]?.count ?? 0;
+  } else {
+    // Only stocked spots can sit idle; a pick counts as movement too.
+    for (const code of codes) {
+      const slot = inventory[code];
+      if (slot?.status !== "occupied") continue;
+      const last = [slot.lastMovedAt, history?.picks[code]?.lastPickedAt]
+        .filter((t): t is string => !!t)
+        .reduce((latest, t) => (t > latest ? t : latest), "");
+      if (last) values[code] = Math.max(0, Math.floor((now - Date.parse(last)) / DAY_MS));
+    }
+  }
+  return values;
+}
+
+export function percentileRanks(values: Record<string, number>): Record<string, number> {
+  const sorted = Object.values(values).sort((a, b) => a - b);
+  // Index of the first value >= v, i.e. how many values are below it.
+  const countBelow = (v: number) => {
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid] < v) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  const out: Record<string, number> = {};
+  for (const [code, v] of Object.entries(values)) out[code] = (countBelow(v) / sorted.length) * 100;
+  return out;
+}
+
+export function heatBin(percentile: number) {
+  return Math.min(HEAT_COLORS.length - 1, Math.floor((percentile / 100) * HEAT_COLORS.length));
+}
+
+export function buildHeatMap(metric: HeatMetric, inputs: HeatMapInputs): HeatMap {
+  const values = metricValues(metric, inputs);
+  const percentiles = percentileRanks(values);
+  const bins = HEAT_COLORS.map(() => ({ min: Infinity, max: -Infinity }));
+  for (const [code, v] of Object.entries(values)) {
+    const bin = bins[heatBin(percentiles[code])];
+    bin.min = Math.min(bin.min, v);
+    bin.max = Math.max(bin.max, v);
+  }
+  return { values, percentiles, bins };
+}
+
+export function formatHeatValue(metric: HeatMetric, value: number) {
+  if (metric === "walkTime") return `${Math.round(value)} s`;
+  if (metric === "pickFrequency") return `${value} ${value === 1 ? "pick" : "picks"}`;
+  return `${value} ${value === 1 ? "day" : "days"}`;
+}
+
+export function ordinal(n: number) {
+  const rounded = Math.round(n);
+  const teen = rounded % 100 >= 11 && rounded % 100 <= 13;
+  const suffix = teen ? "th" : ({ 1: "st", 2: "nd", 3: "rd" } as Record<number, string>)[rounded % 10] ?? "th";
+  return `${rounded}${suffix}`;
+}
+
+const STORAGE_PREFIX = "dtx-floor-plan.pickHistory.";
+
+function readStoredHistory(layout: WarehouseLayout): PickHistory | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + layout.id);
+    const parsed = raw ? (JSON.parse(raw) as PickHistory) : null;
+    return parsed && typeof parsed.picks === "object" ? parsed : null;
+  } catch {
+    // A damaged summary is dropped; the CSV can be imported again.
+    return null;
+  }
+}
+
+/** The site's imported pick history, summarized per spot and kept in localStorage. */
+export function usePickHistory(layout: WarehouseLayout) {
+  const [history, setHistory] = React.useState<PickHistory | null>(() => readStoredHistory(layout));
+  const [error, setError] = React.useState<string | null>(null);
+
+  const store = (next: PickHistory | null) => {
+    setHistory(next);
+    try {
+      if (next) window.localStorage.setItem(STORAGE_PREFIX + layout.id, JSON.stringify(next));
+      else window.localStorage.removeItem(STORAGE_PREFIX + layout.id);
+    } catch {
+      // Out of quota: the heat map still works until the page is reloaded.
+    }
+  };
+
+  // A new export replaces the previous one rather than adding to it.
+  const importFile = async (file: File) => {
+    try {
+      store(parsePickHistory(layout, await file.text(), file.name));
+      setError(null);
+    } catch (err) {
+      const detail = err instanceof PickHistoryImportError && err.problems.length ? ` ${err.problems[0]}` : "";
+      setError(`${(err as Error).message}${detail}`);
+    }
+  };
+
+  return { history, error, importFile, clear: () => store(null) };
+}
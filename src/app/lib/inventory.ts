@@ -0,0 +1,466 @@
+import * as React from "react";
+
+import dtxLolaInventory from "../data/inventory/dtx-lola.json";
+import dtxOverflowInventory from "../data/inventory/dtx-overflow.json";
+import { parseCsvRecords } from "./csv";
+import { buildCode, parseLocationCode, type WarehouseLayout } from "./layout";
+import { applyLiveEvent, describeLiveEvent, type LiveEvent } from "./liveUpdates";
+import {
+  addHistoryEntry,
+  listQueuedEdits,
+  loadInventorySnapshot,
+  queueEdit,
+  queueEdits,
+  removeQueuedEdits,
+  saveInventorySnapshot,
+} from "./offlineStore";
+import { useOnlineStatus } from "./pwa";
+import { notifyHistoryChanged } from "./slotHistory";
+
+export type SlotStatus = "occupied" | "empty" | "reserved" | "blocked";
+
+export const SLOT_STATUSES: SlotStatus[] = ["occupied", "empty", "reserved", "blocked"];
+
+export const SLOT_STATUS_LABEL: Record<SlotStatus, string> = {
+  occupied: "Occupied",
+  empty: "Empty",
+  reserved: "Reserved",
+  blocked: "Blocked",
+};
+
+/** Statuses a supervisor puts a spot on hold with, giving a reason and optionally an expiry. */
+export const HOLD_STATUSES: SlotStatus[] = ["blocked", "reserved"];
+
+/** Why a spot is blocked or reserved, who did it and until when. */
+export interface SlotHold {
+  reason: string;
+  author: string | null;
+  /** ISO 8601; the spot goes back to empty/occupied after this. `null` holds until lifted. */
+  expiresAt: string | null;
+}
+
+/** Contents of one `ROW-AISLE-SPOT` slot. Item fields are empty for empty/blocked slots. */
+export interface SlotRecord {
+  code: string;
+  status: SlotStatus;
+  sku: string | null;
+  description: string | null;
+  quantity: number | null;
+  palletId: string | null;
+  /** ISO 8601 timestamp of the last put-away/pick/move. */
+  lastMovedAt: string | null;
+  /** Free-text note left by floor staff, e.g. "rack upright damaged". */
+  note: string | null;
+  /** Set while the spot is blocked or reserved through the status workflow. */
+  hold: SlotHold | null;
+}
+
+/** Slot records keyed by `ROW-AISLE-SPOT` code. Codes with no record are empty. */
+export type SlotInventory = Record<string, SlotRecord>;
+
+/** What a put-away leaves in a spot. */
+export type SlotItem = Pick<SlotRecord, "sku" | "description" | "quantity" | "palletId">;
+
+/** One status, note or put-away change made on the floor. Fields left out are unchanged. */
+export interface SlotEdit {
+  /** Outbox key, assigned when the edit is queued. */
+  id?: number;
+  layoutId: string;
+  code: string;
+  status?: SlotStatus;
+  note?: string | null;
+  /** Reason and expiry for a blocked/reserved status; other statuses drop the hold. */
+  hold?: SlotHold | null;
+  /** A pallet put away in the spot; the spot becomes occupied. */
+  item?: SlotItem;
+  /** A whole record from an inventory import; it replaces the slot before any other field applies. */
+  record?: SlotRecord;
+  author?: string | null;
+  editedAt: string;
+}
+
+/** The fields of a `SlotEdit` that floor staff change. */
+export type SlotChange = Pick<SlotEdit, "status" | "note" | "hold" | "item">;
+
+export interface InventoryBackend {
+  load(layout: WarehouseLayout): Promise<SlotRecord[]>;
+  /** Persist queued edits, oldest first. Backends without `save` are read-only and keep edits queued. */
+  save?(layout: WarehouseLayout, edits: SlotEdit[]): Promise<void>;
+}
+
+export class InventoryImportError extends Error {
+  constructor(
+    message: string,
+    readonly problems: string[] = [],
+  ) {
+    super(message);
+    this.name = "InventoryImportError";
+  }
+}
+
+export function emptySlot(code: string): SlotRecord {
+  return {
+    code,
+    status: "empty",
+    sku: null,
+    description: null,
+    quantity: null,
+    palletId: null,
+    lastMovedAt: null,
+    note: null,
+    hold: null,
+  };
+}
+
+export function getSlot(inventory: SlotInventory, code: string): SlotRecord {
+  return inventory[code] ?? emptySlot(code);
+}
+
+function optionalString(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const s = String(value).trim();
+  return s ? s : null;
+}
+
+// Normalize one raw record (from JSON or a CSV row) into a SlotRecord, or explain why not.
+function toSlotRecord(layout: WarehouseLayout, raw: unknown): SlotRecord | string {
+  if (typeof raw !== "object" || raw === null) return "record must be an object";
+  const r = raw as Record<string, unknown>;
+  const loc = parseLocationCode(layout, String(r.code ?? ""));
+  if (!loc) return `"${String(r.code ?? "")}" is not a storage location in ${layout.id}`;
+  const code = buildCode(loc.row, loc.aisle, loc.spot);
+
+  const sku = optionalString(r.sku);
+  const statusRaw = optionalString(r.status)?.toLowerCase() ?? (sku ? "occupied" : "empty");
+  if (!SLOT_STATUSES.includes(statusRaw as SlotStatus)) {
+    return `${code}: status must be one of ${SLOT_STATUSES.join(", ")}`;
+  }
+
+  const qtyRaw = optionalString(r.quantity);
+  const quantity = qtyRaw === null ? null : Number(qtyRaw);
+  if (quantity !== null && (!Number.isFinite(quantity) || quantity < 0)) return `${code}: quantity must be a number >= 0`;
+
+  const lastMovedAt = optionalString(r.lastmovedat ?? r.lastMovedAt);
+  if (lastMovedAt !== null && Number.isNaN(Date.parse(lastMovedAt))) return `${code}: lastMovedAt is not a date`;
+
+  return {
+    code,
+    status: statusRaw as SlotStatus,
+    sku,
+    description: optionalString(r.description),
+    quantity,
+    palletId: optionalString(r.palletid ?? r.palletId),
+    lastMovedAt,
+    note: optionalString(r.note),
+    hold: null,
+  };
+}
+
+export function toSlotRecords(layout: WarehouseLayout, raws: unknown[], source: string): SlotRecord[] {
+  const records: SlotRecord[] = [];
+  const problems: string[] = [];
+  raws.forEach((raw, i) => {
+    const result = toSlotRecord(layout, raw);
+    if (typeof result === "string") problems.push(`${source} record ${i + 1}: ${result}`);
+    else records.push(result);
+  });
+  if (problems.length) {
+    throw new InventoryImportError(`${problems.length} invalid record(s) in ${source}.`, problems);
+  }
+  return records;
+}
+
+/** Parse a CSV (header: code,sku,description,quantity,palletId,lastMovedAt,status[,note]) or JSON array import. */
+export function parseInventoryImport(layout: WarehouseLayout, text: string, fileName: string): SlotRecord[] {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  if (!isJson) return toSlotRecords(layout, parseCsvRecords(text), fileName);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new InventoryImportError(`${fileName} is not valid JSON: ${(err as Error).message}`);
+  }
+  if (!Array.isArray(parsed)) throw new InventoryImportError(`${fileName} must contain a JSON array of slot records.`);
+  return toSlotRecords(layout, parsed, fileName);
+}
+
+export function indexSlots(records: SlotRecord[]): SlotInventory {
+  const out: SlotInventory = {};
+  for (const r of records) out[r.code] = r;
+  return out;
+}
+
+const BUNDLED_INVENTORY: Record<string, unknown[]> = {
+  "dtx-lola": dtxLolaInventory,
+  "dtx-overflow": dtxOverflowInventory,
+};
+
+export function applySlotEdit(slot: SlotRecord, edit: SlotEdit): SlotRecord {
+  const next = { ...(edit.record ?? slot) };
+  if (edit.note !== undefined) next.note = edit.note?.trim() || null;
+  if (edit.status && edit.status !== slot.status) {
+    next.status = edit.status;
+    // Emptying a slot means its pallet has gone.
+    if (edit.status === "empty") Object.assign(next, { sku: null, description: null, quantity: null, palletId: null });
+  }
+  if (edit.hold !== undefined) next.hold = edit.hold;
+  if (edit.item) Object.assign(next, edit.item, { status: "occupied", lastMovedAt: edit.editedAt });
+  if (!HOLD_STATUSES.includes(next.status)) next.hold = null;
+  return next;
+}
+
+/** Codes of spots whose hold has run out by `now`. */
+export function expiredHolds(inventory: SlotInventory, now: number): string[] {
+  return Object.values(inventory)
+    .filter((s) => s.hold?.expiresAt && Date.parse(s.hold.expiresAt) <= now)
+    .map((s) => s.code);
+}
+
+function formatHoldExpiry(iso: string) {
+  return new Date(iso).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+}
+
+/** One line for the audit history, e.g. "Blocked: rack upright damaged (until 20 Oct 2026, 17:00)". */
+export function describeSlotChange(change: SlotChange): string {
+  const parts: string[] = [];
+  if (change.item) {
+    const { quantity, sku, palletId } = change.item;
+    parts.push(`Put away ${quantity} × ${sku}${palletId ? ` (${palletId})` : ""}`);
+  } else if (change.status) {
+    const hold = change.hold;
+    const until = hold?.expiresAt ? ` (until ${formatHoldExpiry(hold.expiresAt)})` : "";
+    const label = SLOT_STATUS_LABEL[change.status];
+    parts.push(hold ? `${label}: ${hold.reason}${until}` : `Status set to ${label}`);
+  }
+  if (change.note !== undefined) parts.push(change.note ? `Note: ${change.note}` : "Note cleared");
+  return parts.join("; ");
+}
+
+function applySlotEdits(records: SlotRecord[], edits: SlotEdit[]): SlotRecord[] {
+  if (!edits.length) return records;
+  const slots = indexSlots(records);
+  for (const edit of edits) slots[edit.code] = applySlotEdit(getSlot(slots, edit.code), edit);
+  return Object.values(slots);
+}
+
+const SAVED_SLOTS_PREFIX = "dtx-floor-plan.savedSlots.";
+
+function readSavedSlots(layoutId: string): SlotInventory {
+  try {
+    const raw = window.localStorage.getItem(SAVED_SLOTS_PREFIX + layoutId);
+    return raw ? (JSON.parse(raw) as SlotInventory) : {};
+  } catch {
+    // Unreadable or blocked storage: start from the bundled file alone.
+    return {};
+  }
+}
+
+function bundledRecords(layout: WarehouseLayout): SlotRecord[] {
+  return toSlotRecords(layout, BUNDLED_INVENTORY[layout.id] ?? [], `${layout.id} inventory`);
+}
+
+/**
+ * First data source: slot files bundled under `src/app/data/inventory/`, one per site. The files
+ * are read-only, so each changed slot's latest record is kept in localStorage and laid over them
+ * on load. One record per slot keeps the stored size bounded however many edits are saved.
+ */
+export const localInventoryBackend: InventoryBackend = {
+  async load(layout) {
+    return Object.values({ ...indexSlots(bundledRecords(layout)), ...readSavedSlots(layout.id) });
+  },
+  async save(layout, edits) {
+    const saved = readSavedSlots(layout.id);
+    const bundled = indexSlots(bundledRecords(layout));
+    for (const edit of edits) saved[edit.code] = applySlotEdit(saved[edit.code] ?? getSlot(bundled, edit.code), edit);
+    try {
+      window.localStorage.setItem(SAVED_SLOTS_PREFIX + layout.id, JSON.stringify(saved));
+    } catch (err) {
+      // Nothing was written, so the edits stay in the outbox and the next sync tries again.
+      if (err instanceof DOMException && err.name === "QuotaExceededError") {
+        throw new Error("This device's storage is full; free some space to finish saving edits.");
+      }
+      throw err;
+    }
+  },
+};
+
+/**
+ * Slot records for a site. Every change is mirrored to IndexedDB so the plan still opens when the
+ * backend can't be reached, and edits go through an outbox that is replayed whenever the device is
+ * online.
+ */
+export function useInventory(layout: WarehouseLayout, backend: InventoryBackend = localInventoryBackend) {
+  const online = useOnlineStatus();
+  const [inventory, setInventory] = React.useState<SlotInventory>({});
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = React.useState<string | null>(null);
+  const [pendingEdits, setPendingEdits] = React.useState(0);
+  // Why the device copy used when the backend is unreachable couldn't be saved, if it couldn't.
+  const [offlineCopyError, setOfflineCopyError] = React.useState<string | null>(null);
+  // Guards the snapshot effect against saving an empty or previous site's inventory mid-load.
+  const snapshotReady = React.useRef(false);
+  const syncing = React.useRef(false);
+
+  const syncEdits = React.useCallback(async () => {
+    if (syncing.current || !backend.save) return;
+    syncing.current = true;
+    try {
+      // Edits made while a batch is in flight are picked up by the next pass.
+      for (let edits = await listQueuedEdits(layout.id); edits.length; edits = await listQueuedEdits(layout.id)) {
+        await backend.save(layout, edits);
+        await removeQueuedEdits(edits.map((e) => e.id!));
+      }
+      setPendingEdits(0);
+      setLastSyncedAt(new Date().toISOString());
+    } catch (err) {
+      setError(`Edits are saved on this device but not synced yet: ${(err as Error).message}`);
+    } finally {
+      syncing.current = false;
+    }
+  }, [layout, backend]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    snapshotReady.current = false;
+    setLoading(true);
+    setError(null);
+    (async () => {
+      let records: SlotRecord[];
+      let syncedAt: string | null;
+      try {
+        records = await backend.load(layout);
+        syncedAt = new Date().toISOString();
+      } catch (err) {
+        const snapshot = await loadInventorySnapshot(layout.id).catch(() => undefined);
+        if (!snapshot) throw err;
+        records = snapshot.records;
+        syncedAt = snapshot.syncedAt;
+        if (!cancelled) setError(`${(err as Error).message} Showing inventory saved on this device.`);
+      }
+      // Edits still in the outbox haven't reached the backend, so lay them over what it returned.
+      const queued = await listQueuedEdits(layout.id).catch(() => []);
+      if (cancelled) return;
+      setInventory(indexSlots(applySlotEdits(records, queued)));
+      setLastSyncedAt(syncedAt);
+      setPendingEdits(queued.length);
+      snapshotReady.current = true;
+    })()
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [layout, backend]);
+
+  React.useEffect(() => {
+    if (!snapshotReady.current) return;
+    saveInventorySnapshot({ layoutId: layout.id, records: Object.values(inventory), syncedAt: lastSyncedAt }).then(
+      () => setOfflineCopyError(null),
+      (err: Error) => setOfflineCopyError(err.message),
+    );
+  }, [inventory, lastSyncedAt, layout.id]);
+
+  React.useEffect(() => {
+    if (online && !loading && pendingEdits > 0) void syncEdits();
+  }, [online, loading, pendingEdits, syncEdits]);
+
+  // Imported records replace the slots they name and leave every other slot alone. They go through
+  // the outbox like any other edit, so the backend keeps them and a reload doesn't undo the import.
+  const importFile = React.useCallback(
+    async (file: File, author: string | null = null) => {
+      let records: SlotRecord[];
+      try {
+        records = parseInventoryImport(layout, await file.text(), file.name);
+      } catch (err) {
+        const e = err as Error;
+        const detail = err instanceof InventoryImportError && err.problems.length ? ` ${err.problems[0]}` : "";
+        setError(`${e.message}${detail}`);
+        return 0;
+      }
+      setInventory((prev) => ({ ...prev, ...indexSlots(records) }));
+      setError(null);
+      const editedAt = new Date().toISOString();
+      try {
+        await queueEdits(records.map((record) => ({ layoutId: layout.id, code: record.code, record, author, editedAt })));
+        setPendingEdits((n) => n + records.length);
+      } catch (err) {
+        setError(`This import could not be queued and will be lost on reload: ${(err as Error).message}`);
+      }
+      return records.length;
+    },
+    [layout],
+  );
+
+  // Records pushed by an embedding host, already validated; they merge like an import.
+  const mergeRecords = React.useCallback((records: SlotRecord[]) => {
+    setInventory((prev) => ({ ...prev, ...indexSlots(records) }));
+  }, []);
+
+  // Changes made elsewhere, pushed by the live feed. They already happened, so nothing is queued.
+  const receiveLiveEvent = React.useCallback(
+    (event: LiveEvent) => {
+      setInventory((prev) => ({ ...prev, [event.code]: applyLiveEvent(getSlot(prev, event.code), event) }));
+      setLastSyncedAt(new Date().toISOString());
+      const { code, at, author } = event;
+      // As with edits, a history entry the device can't save is left out.
+      addHistoryEntry({ layoutId: layout.id, code, at, author, summary: describeLiveEvent(event) })
+        .then(notifyHistoryChanged)
+        .catch(() => {});
+    },
+    [layout.id],
+  );
+
+  // Applied right away, then queued; the sync effect sends it once the device is online.
+  const editSlot = React.useCallback(
+    async (code: string, change: SlotChange, author: string | null, summary = describeSlotChange(change)) => {
+      const edit: SlotEdit = { layoutId: layout.id, code, ...change, author, editedAt: new Date().toISOString() };
+      setInventory((prev) => ({ ...prev, [code]: applySlotEdit(getSlot(prev, code), edit) }));
+      // The history is a local record; losing an entry mustn't stop the edit itself.
+      addHistoryEntry({ layoutId: layout.id, code, at: edit.editedAt, author, summary })
+        .then(notifyHistoryChanged)
+        .catch(() => {});
+      try {
+        await queueEdit(edit);
+        setPendingEdits((n) => n + 1);
+      } catch (err) {
+        setError(`This edit could not be queued and will be lost on reload: ${(err as Error).message}`);
+      }
+    },
+    [layout.id],
+  );
+
+  // Lift holds once they expire: checked on every change and once a minute.
+  const [now, setNow] = React.useState(() => Date.now());
+  React.useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 60_000);
+    return () => window.clearInterval(timer);
+  }, []);
+  React.useEffect(() => {
+    if (loading) return;
+    for (const code of expiredHolds(inventory, now)) {
+      const slot = inventory[code];
+      const status = slot.sku ? "occupied" : "empty";
+      void editSlot(code, { status, hold: null }, null, `${SLOT_STATUS_LABEL[slot.status]} hold expired: ${slot.hold!.reason}`);
+    }
+  }, [inventory, now, loading, editSlot]);
+
+  return {
+    inventory,
+    loading,
+    error,
+    importFile,
+    mergeRecords,
+    editSlot,
+    receiveLiveEvent,
+    online,
+    lastSyncedAt,
+    pendingEdits,
+    offlineCopyError,
+  };
+}
@@ -0,0 +1,244 @@
+import { shortestPaths, spotAccessPoint, type AisleGraph, type ShortestPaths } from "./aisleGraph";
+import { code128Bars, CODE128_QUIET_ZONE } from "./code128";
+import { fitTextSize, type DrawOp, type PageSize } from "./drawing";
+import { buildCode, getSpotNumbers, listLocations, parseLocationCode, type RowCode } from "./layout";
+import { encodeLabelValue } from "./scanner";
+
+/** `spot` prints one label per ROW-AISLE-SPOT; `bay` prints one aisle sign per ROW-AISLE. */
+export type LabelKind = "spot" | "bay";
+
+export type LabelScope = { kind: "floor" } | { kind: "row"; row: RowCode } | { kind: "aisle"; aisle: number };
+
+export interface LabelStock {
+  id: string;
+  name: string;
+  page: PageSize;
+  labelWidthMm: number;
+  labelHeightMm: number;
+  columns: number;
+  rows: number;
+  marginTopMm: number;
+  marginLeftMm: number;
+  gapXMm: number;
+  gapYMm: number;
+}
+
+export const LABEL_STOCKS: LabelStock[] = [
+  {
+    id: "letter-2x4",
+    name: "Letter sheet • 2 × 4 in, 10 per page (Avery 5163)",
+    page: { widthMm: 215.9, heightMm: 279.4 },
+    labelWidthMm: 101.6,
+    labelHeightMm: 50.8,
+    columns: 2,
+    rows: 5,
+    marginTopMm: 12.7,
+    marginLeftMm: 3.97,
+    gapXMm: 4.76,
+    gapYMm: 0,
+  },
+  {
+    id: "letter-3x4",
+    name: "Letter sheet • 3⅓ × 4 in, 6 per page (Avery 5164)",
+    page: { widthMm: 215.9, heightMm: 279.4 },
+    labelWidthMm: 101.6,
+    labelHeightMm: 84.67,
+    columns: 2,
+    rows: 3,
+    marginTopMm: 12.7,
+    marginLeftMm: 3.97,
+    gapXMm: 4.76,
+    gapYMm: 0,
+  },
+  {
+    id: "thermal-4x2",
+    name: "Thermal roll • 4 × 2 in",
+    page: { widthMm: 101.6, heightMm: 50.8 },
+    labelWidthMm: 101.6,
+    labelHeightMm: 50.8,
+    columns: 1,
+    rows: 1,
+    marginTopMm: 0,
+    marginLeftMm: 0,
+    gapXMm: 0,
+    gapYMm: 0,
+  },
+  {
+    id: "thermal-4x6",
+    name: "Thermal roll • 4 × 6 in aisle sign",
+    page: { widthMm: 101.6, heightMm: 152.4 },
+    labelWidthMm: 101.6,
+    labelHeightMm: 152.4,
+    columns: 1,
+    rows: 1,
+    marginTopMm: 0,
+    marginLeftMm: 0,
+    gapXMm: 0,
+    gapYMm: 0,
+  },
+];
+
+export interface LabelSpec {
+  code: string;
+  barcodeValue: string;
+  caption: string;
+  /** Which way to walk, as seen by someone facing the label; `null` if no path was found. */
+  arrow: "left" | "right" | null;
+  /** e.g. "SOUTH TO EAST ENTRANCE". */
+  directions: string;
+}
+
+/**
+ * First step from a spot's pick face toward the entrance. Steps always run along the lane
+ * (spots never sit on a cross-aisle), and a picker facing a rack opened to the lane above has
+ * the plan's left and right swapped.
+ */
+function walkDirection(graph: AisleGraph, code: string, paths: ShortestPaths) {
+  const { layout } = graph;
+  const node = graph.spotNodes.get(code);
+  const loc = parseLocationCode(layout, code);
+  if (node === undefined || !loc || paths.prev[node] < 0) return null;
+  const planSide = graph.nodes[paths.prev[node]].x < graph.nodes[node].x ? "left" : "right";
+  const facingDown = spotAccessPoint(layout, loc).lane === layout.rows.findIndex((r) => r.code === loc.row);
+  const arrow = facingDown ? (planSide === "left" ? "right" : "left") : planSide;
+  return { arrow, heading: layout.compass[planSide] } as const;
+}
+
+function scopeIncludes(scope: LabelScope, row: RowCode, aisle: number) {
+  return scope.kind === "floor" || (scope.kind === "row" ? scope.row === row : scope.aisle === aisle);
+}
+
+/** Labels for every storage location in scope, in row then aisle then spot order. */
+export function buildLabels(graph: AisleGraph, scope: LabelScope, kind: LabelKind): LabelSpec[] {
+  const { layout } = graph;
+  const paths = shortestPaths(graph, graph.entrance);
+  const entrance = `${layout.compass[layout.entranceSide].toUpperCase()} ENTRANCE`;
+  const caption = `${layout.site} • ${layout.client}`;
+
+  const spec = (code: string, directionFrom: string): LabelSpec => {
+    const direction = walkDirection(graph, directionFrom, paths);
+    return {
+      code,
+      barcodeValue: encodeLabelValue(layout.labels, code),
+      caption,
+      arrow: direction?.arrow ?? null,
+      directions: direction ? `${direction.heading.toUpperCase()} TO ${entrance}` : entrance,
+    };
+  };
+
+  const locations = listLocations(layout).filter((l) => scopeIncludes(scope, l.row, l.aisle));
+  if (kind === "spot") {
+    return locations.map((l) => {
+      const code = buildCode(l.row, l.aisle, l.spot);
+      return spec(code, code);
+    });
+  }
+
+  // A bay sign points the way from the bay's middle spot in render order.
+  const middleSpot = layout.spotOrder[Math.floor(getSpotNumbers(layout).length / 2)];
+  const bays = [...new Set(locations.map((l) => buildCode(l.row, l.aisle, null)))];
+  return bays.map((bay) => spec(bay, `${bay}-${middleSpot}`));
+}
+
+function arrowPolygon(cx: number, cy: number, size: number, pointsLeft: boolean): [number, number][] {
+  const s = pointsLeft ? -1 : 1;
+  const half = size / 2;
+  const shaft = size * 0.18;
+  return [
+    [cx - s * half, cy - shaft],
+    [cx + s * half * 0.1, cy - shaft],
+    [cx + s * half * 0.1, cy - half],
+    [cx + s * half, cy],
+    [cx + s * half * 0.1, cy + half],
+    [cx + s * half * 0.1, cy + shaft],
+    [cx - s * half, cy + shaft],
+  ];
+}
+
+/** Draw one label with its top-left corner at (x, y). */
+export function drawLabel(label: LabelSpec, x: number, y: number, w: number, h: number, outline = false): DrawOp[] {
+  const pad = Math.min(4, h * 0.06);
+  const inner = w - 2 * pad;
+  const ops: DrawOp[] = [];
+  if (outline) ops.push({ kind: "rect", x, y, w, h, stroke: "#cbd5e1", strokeWidth: 0.2 });
+
+  const captionSize = Math.min(3.2, h * 0.065);
+  ops.push({
+    kind: "text",
+    x: x + pad,
+    y: y + pad + captionSize * 0.8,
+    size: captionSize,
+    text: label.caption,
+    fill: "#475569",
+  });
+
+  const codeSize = fitTextSize(label.code, inner, h * 0.3);
+  const codeBaseline = y + pad + captionSize + 1 + codeSize * 0.78;
+  ops.push({
+    kind: "text",
+    x: x + w / 2,
+    y: codeBaseline,
+    size: codeSize,
+    text: label.code,
+    anchor: "middle",
+    bold: true,
+  });
+
+  const arrowSize = Math.min(h * 0.16, 12);
+  const arrowY = y + h - pad - arrowSize / 2;
+  const barcodeTop = codeBaseline + Math.max(1.5, codeSize * 0.2);
+  const barcodeHeight = arrowY - arrowSize / 2 - 1.5 - barcodeTop;
+
+  const { bars, modules } = code128Bars(label.barcodeValue);
+  const moduleMm = Math.min(0.5, inner / (modules + 2 * CODE128_QUIET_ZONE));
+  const barsLeft = x + (w - modules * moduleMm) / 2;
+  for (const [start, width] of bars) {
+    ops.push({
+      kind: "rect",
+      x: barsLeft + start * moduleMm,
+      y: barcodeTop,
+      w: width * moduleMm,
+      h: barcodeHeight,
+      fill: "#000000",
+    });
+  }
+
+  // The arrow sits at the edge it points to, with the directions text beside it.
+  const left = label.arrow === "left";
+  const textSize = fitTextSize(label.directions, inner - arrowSize - 3, Math.min(4.2, arrowSize * 0.6));
+  if (label.arrow) {
+    const cx = left ? x + pad + arrowSize / 2 : x + w - pad - arrowSize / 2;
+    ops.push({ kind: "polygon", points: arrowPolygon(cx, arrowY, arrowSize, left), fill: "#000000" });
+  }
+  ops.push({
+    kind: "text",
+    x: !label.arrow ? x + w / 2 : left ? x + pad + arrowSize + 2 : x + w - pad - arrowSize - 2,
+    y: arrowY + textSize * 0.35,
+    size: textSize,
+    text: label.directions,
+    anchor: !label.arrow ? "middle" : left ? "start" : "end",
+    bold: true,
+  });
+  return ops;
+}
+
+/** Lay labels out on the stock; each page is a list of draw operations. */
+export function labelPages(labels: LabelSpec[], stock: LabelStock, { outline = false } = {}): DrawOp[][] {
+  const perPage = stock.columns * stock.rows;
+  const pages: DrawOp[][] = [];
+  labels.forEach((label, i) => {
+    const slot = i % perPage;
+    if (slot === 0) pages.push([]);
+    const col = slot % stock.columns;
+    const row = Math.floor(slot / stock.columns);
+    const x = stock.marginLeftMm + col * (stock.labelWidthMm + stock.gapXMm);
+    const y = stock.marginTopMm + row * (stock.labelHeightMm + stock.gapYMm);
+    pages[pages.length - 1].push(...drawLabel(label, x, y, stock.labelWidthMm, stock.labelHeightMm, outline));
+  });
+  return pages;
+}
+
+export function labelFileName(scope: LabelScope, kind: LabelKind, layoutId: string) {
+  const what = scope.kind === "floor" ? "floor" : scope.kind === "row" ? `row-${scope.row}` : `aisle-${scope.aisle}`;
+  return `${layoutId}-${what}-${kind === "spot" ? "labels" : "signs"}`;
+}
@@ -0,0 +1,551 @@
+export type RowCode = string;
+
+export type CompassSide = "top" | "bottom" | "left" | "right";
+
+export interface AisleRange {
+  from: number;
+  to: number;
+}
+
+export interface LayoutRow {
+  code: RowCode;
+  aisles: AisleRange;
+  /** Highlight the row label (e.g. Row I across the long leg of the L). */
+  accent?: boolean;
+}
+
+export interface WalkTimeAnchor {
+  row: RowCode;
+  aisle: number;
+  spot: number;
+  seconds: number;
+}
+
+/** Physical floor geometry used by the aisle graph (distances in metres). */
+export interface LayoutGeometry {
+  /** Width of one bay along its lane. */
+  bayWidthM: number;
+  /** Distance between neighbouring lane centre lines (rack depth plus lane width). */
+  rowPitchM: number;
+  /** Aisle boundaries (0..aisleCount) where a cross-aisle joins every lane. */
+  crossAisles: number[];
+  /**
+   * Where the door sits along the entrance side: an aisle boundary (0..aisleCount) for a
+   * top/bottom entrance, a row boundary (0..rows.length) for a left/right one.
+   */
+  entranceOffset: number;
+}
+
+/** Default travel-time model; supervisors can recalibrate it per site. */
+export interface LayoutTravel {
+  walkSpeedMps: number;
+  handlingSeconds: number;
+}
+
+export type LabelCheckDigit = "none" | "mod43";
+
+/** How printed location labels encode a code, so scanned values can be normalized. */
+export interface LabelFormat {
+  /** Text a label may carry before the code (e.g. "LOC:"); matched case-insensitively. */
+  prefixes: string[];
+  /** `mod43`: every label ends in a Code 39 mod-43 check character computed over the code. */
+  checkDigit: LabelCheckDigit;
+}
+
+/** Site rules for the slotting advisor. */
+export interface SlottingRules {
+  /** Rows kept out of slotting moves entirely, in or out. */
+  reservedRows: RowCode[];
+  /** Default cap on pallet moves proposed per day. */
+  maxMovesPerDay: number;
+}
+
+/** Pallet footprint classes, smallest first; a rack takes its own class and every smaller one. */
+export type PalletSize = "half" | "standard" | "oversize";
+
+export const PALLET_SIZES: readonly PalletSize[] = ["half", "standard", "oversize"];
+
+/** What one spot of a rack can hold. */
+export interface RackCapacity {
+  maxSize: PalletSize;
+  maxKg: number;
+}
+
+/** Site rules for the put-away assistant: a default rack capacity, overridden per row. */
+export interface PutAwayRules extends RackCapacity {
+  rows: Partial<Record<RowCode, RackCapacity>>;
+}
+
+export type FloorFeatureKind = "dock" | "office" | "noGo";
+
+/** A fixed area drawn on the floor map, in metres in the layout's own frame (see `LayoutGeometry`). */
+export interface FloorFeature {
+  kind: FloorFeatureKind;
+  label: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * What the scale floor map needs beyond `geometry`. Its frame is the aisle graph's: `x` runs along
+ * the lanes from aisle 1 (bay `n` spans `(n-1)..n × bayWidthM`), `y` runs from the top row's upper lane
+ * (row `i` spans `i..i+1 × rowPitchM`, with its rack centred in that band).
+ */
+export interface FloorMapGeometry {
+  /** Depth of a rack front to back; the rest of `rowPitchM` is lane. */
+  rackDepthM: number;
+  crossAisleWidthM: number;
+  features: FloorFeature[];
+}
+
+/** One beam level of the racks, the same in every bay. */
+export interface RackLevel {
+  /** Single letter appended to spot codes, e.g. `C` in `I-2-7-C`. */
+  code: string;
+  /** Beam height above the floor. */
+  heightM: number;
+  /** Extra handling for a pick at this level, e.g. bringing a lift; 0 for levels reached from the floor. */
+  liftSeconds: number;
+}
+
+export interface WarehouseLayout {
+  id: string;
+  site: string;
+  client: string;
+  name: string;
+  shape: string;
+  /** Number of aisle columns drawn in the grid (1..aisleCount). */
+  aisleCount: number;
+  /** Rows in display order, top to bottom, with the entrance side at the bottom. */
+  rows: LayoutRow[];
+  spotsPerBay: number;
+  spotColumns: number;
+  /** Spot numbers in render order (row-major across `spotColumns`). */
+  spotOrder: number[];
+  compass: Record<CompassSide, string>;
+  entranceSide: CompassSide;
+  geometry: LayoutGeometry;
+  travel: LayoutTravel;
+  /** Measured entrance-to-spot walk times; the starting point for calibration. */
+  walkTimeAnchors: WalkTimeAnchor[];
+  labels: LabelFormat;
+  slotting: SlottingRules;
+  putAway: PutAwayRules;
+  /** Rack levels from the floor up; empty when the site doesn't address levels. */
+  levels: RackLevel[];
+  floorMap: FloorMapGeometry;
+}
+
+export interface Location {
+  row: RowCode;
+  aisle: number;
+  spot: number | null;
+  /** Floor spot code (`ROW-AISLE-SPOT`); inventory is kept per floor spot, whatever the level. */
+  code: string;
+  /** Rack level within the spot, when one was picked; only set together with `spot`. */
+  level?: string | null;
+}
+
+export type Location3D = { row: RowCode; aisle: number; spot: number };
+
+export class LayoutValidationError extends Error {
+  constructor(layoutId: string, message: string) {
+    super(`Invalid layout "${layoutId}": ${message}`);
+    this.name = "LayoutValidationError";
+  }
+}
+
+const COMPASS_SIDES: CompassSide[] = ["top", "bottom", "left", "right"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInt(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+function requireString(raw: Record<string, unknown>, key: string, layoutId: string): string {
+  const value = raw[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new LayoutValidationError(layoutId, `"${key}" must be a non-empty string.`);
+  }
+  return value;
+}
+
+const LABEL_CHECK_DIGITS: readonly LabelCheckDigit[] = ["none", "mod43"];
+
+// Optional in the layout file: plain ROW-AISLE-SPOT labels need no configuration.
+function validateLabels(labels: unknown, fail: (message: string) => never): LabelFormat {
+  if (labels === undefined) return { prefixes: [], checkDigit: "none" };
+  if (!isObject(labels)) return fail(`"labels" must be an object.`);
+  const prefixes = labels.prefixes ?? [];
+  if (!Array.isArray(prefixes) || prefixes.some((p) => typeof p !== "string" || !p)) {
+    fail(`"labels.prefixes" must be an array of non-empty strings.`);
+  }
+  const checkDigit = labels.checkDigit ?? "none";
+  if (!LABEL_CHECK_DIGITS.includes(checkDigit as LabelCheckDigit)) {
+    fail(`"labels.checkDigit" must be one of ${LABEL_CHECK_DIGITS.join(", ")}.`);
+  }
+  return { prefixes: prefixes as string[], checkDigit: checkDigit as LabelCheckDigit };
+}
+
+// Optional in the layout file: without it every row can be re-slotted, 20 moves a day.
+function validateSlotting(slotting: unknown, rows: LayoutRow[], fail: (message: string) => never): SlottingRules {
+  if (slotting === undefined) return { reservedRows: [], maxMovesPerDay: 20 };
+  if (!isObject(slotting)) return fail(`"slotting" must be an object.`);
+  const reservedRows = slotting.reservedRows ?? [];
+  if (!Array.isArray(reservedRows) || reservedRows.some((r) => !rows.some((row) => row.code === r))) {
+    fail(`"slotting.reservedRows" must list row codes from "rows".`);
+  }
+  const maxMovesPerDay = slotting.maxMovesPerDay ?? 20;
+  if (!isPositiveInt(maxMovesPerDay)) fail(`"slotting.maxMovesPerDay" must be a positive integer.`);
+  return { reservedRows: reservedRows as RowCode[], maxMovesPerDay: maxMovesPerDay as number };
+}
+
+function validateCapacity(raw: Record<string, unknown>, at: string, fallback: RackCapacity, fail: (message: string) => never) {
+  const maxSize = raw.maxSize ?? fallback.maxSize;
+  if (!PALLET_SIZES.includes(maxSize as PalletSize)) fail(`"${at}.maxSize" must be one of ${PALLET_SIZES.join(", ")}.`);
+  const maxKg = raw.maxKg ?? fallback.maxKg;
+  if (typeof maxKg !== "number" || !(maxKg > 0)) fail(`"${at}.maxKg" must be a positive number.`);
+  return { maxSize: maxSize as PalletSize, maxKg: maxKg as number };
+}
+
+// Optional in the layout file: without it every spot takes standard pallets up to 1000 kg.
+function validatePutAway(putAway: unknown, rows: LayoutRow[], fail: (message: string) => never): PutAwayRules {
+  const defaults: RackCapacity = { maxSize: "standard", maxKg: 1000 };
+  if (putAway === undefined) return { ...defaults, rows: {} };
+  if (!isObject(putAway)) return fail(`"putAway" must be an object.`);
+  const site = validateCapacity(putAway, "putAway", defaults, fail);
+  const rawRows = putAway.rows ?? {};
+  if (!isObject(rawRows)) return fail(`"putAway.rows" must be an object keyed by row code.`);
+  const byRow: PutAwayRules["rows"] = {};
+  for (const [row, capacity] of Object.entries(rawRows)) {
+    if (!rows.some((r) => r.code === row)) fail(`"putAway.rows.${row}" is not a row in "rows".`);
+    if (!isObject(capacity)) return fail(`"putAway.rows.${row}" must be an object.`);
+    byRow[row] = validateCapacity(capacity, `putAway.rows.${row}`, site, fail);
+  }
+  return { ...site, rows: byRow };
+}
+
+// Optional in the layout file: sites without it address floor spots only.
+function validateLevels(levels: unknown, fail: (message: string) => never): RackLevel[] {
+  if (levels === undefined) return [];
+  if (!Array.isArray(levels)) return fail(`"levels" must be an array.`);
+  const seen = new Set<string>();
+  let below = -Infinity;
+  return levels.map((l, i) => {
+    if (!isObject(l)) return fail(`levels[${i}] must be an object.`);
+    const { code, heightM, liftSeconds } = l;
+    if (typeof code !== "string" || !/^[A-Z]$/.test(code)) return fail(`levels[${i}].code must be a single letter A–Z.`);
+    if (seen.has(code)) fail(`level "${code}" is listed twice.`);
+    seen.add(code);
+    if (typeof heightM !== "number" || !(heightM >= 0) || heightM <= below) {
+      fail(`level "${code}" needs a "heightM" above the level below it (levels go from the floor up).`);
+    }
+    below = heightM as number;
+    if (typeof liftSeconds !== "number" || !(liftSeconds >= 0)) fail(`level "${code}" needs "liftSeconds" >= 0.`);
+    return { code, heightM: heightM as number, liftSeconds: liftSeconds as number };
+  });
+}
+
+const FLOOR_FEATURE_KINDS: readonly FloorFeatureKind[] = ["dock", "office", "noGo"];
+
+// Optional in the layout file: without it racks fill half of each row pitch and there are no features.
+function validateFloorMap(floorMap: unknown, rowPitchM: number, fail: (message: string) => never): FloorMapGeometry {
+  const defaults = { rackDepthM: rowPitchM / 2, crossAisleWidthM: 3, features: [] };
+  if (floorMap === undefined) return defaults;
+  if (!isObject(floorMap)) return fail(`"floorMap" must be an object.`);
+  const rackDepthM = floorMap.rackDepthM ?? defaults.rackDepthM;
+  if (typeof rackDepthM !== "number" || !(rackDepthM > 0) || rackDepthM >= rowPitchM) {
+    fail(`"floorMap.rackDepthM" must be a positive number below "geometry.rowPitchM" (${rowPitchM}).`);
+  }
+  const crossAisleWidthM = floorMap.crossAisleWidthM ?? defaults.crossAisleWidthM;
+  if (typeof crossAisleWidthM !== "number" || !(crossAisleWidthM > 0)) {
+    fail(`"floorMap.crossAisleWidthM" must be a positive number.`);
+  }
+  const features = floorMap.features ?? [];
+  if (!Array.isArray(features)) return fail(`"floorMap.features" must be an array.`);
+  return {
+    rackDepthM: rackDepthM as number,
+    crossAisleWidthM: crossAisleWidthM as number,
+    features: features.map((f, i) => {
+      if (!isObject(f)) return fail(`floorMap.features[${i}] must be an object.`);
+      if (!FLOOR_FEATURE_KINDS.includes(f.kind as FloorFeatureKind)) {
+        fail(`floorMap.features[${i}].kind must be one of ${FLOOR_FEATURE_KINDS.join(", ")}.`);
+      }
+      if (typeof f.label !== "string") fail(`floorMap.features[${i}].label must be a string.`);
+      const { x, y, w, h } = f;
+      if (![x, y].every((v) => typeof v === "number" && Number.isFinite(v))) {
+        fail(`floorMap.features[${i}] needs numeric "x" and "y".`);
+      }
+      if (![w, h].every((v) => typeof v === "number" && v > 0)) {
+        fail(`floorMap.features[${i}] needs positive "w" and "h".`);
+      }
+      return {
+        kind: f.kind as FloorFeatureKind,
+        label: f.label as string,
+        x: x as number,
+        y: y as number,
+        w: w as number,
+        h: h as number,
+      };
+    }),
+  };
+}
+
+// Validate raw JSON into a typed layout. Throws on the first problem so a bad
+// layout file fails loudly at startup instead of rendering a broken grid.
+export function validateLayout(raw: unknown): WarehouseLayout {
+  if (!isObject(raw)) throw new LayoutValidationError("?", "layout must be an object.");
+  const id = typeof raw.id === "string" && raw.id ? raw.id : "?";
+  const fail = (message: string): never => {
+    throw new LayoutValidationError(id, message);
+  };
+
+  const site = requireString(raw, "site", id);
+  const client = requireString(raw, "client", id);
+  const name = requireString(raw, "name", id);
+  const shape = requireString(raw, "shape", id);
+  requireString(raw, "id", id);
+  if (!/^[a-z0-9-]+$/.test(id)) fail(`"id" must be lowercase letters, digits and dashes (it namespaces codes).`);
+
+  const { aisleCount, spotsPerBay, spotColumns } = raw;
+  if (!isPositiveInt(aisleCount)) fail(`"aisleCount" must be a positive integer.`);
+  if (!isPositiveInt(spotsPerBay)) fail(`"spotsPerBay" must be a positive integer.`);
+  if (!isPositiveInt(spotColumns)) fail(`"spotColumns" must be a positive integer.`);
+  if ((spotsPerBay as number) % (spotColumns as number) !== 0) {
+    fail(`"spotsPerBay" (${spotsPerBay}) must be a multiple of "spotColumns" (${spotColumns}).`);
+  }
+
+  if (!Array.isArray(raw.rows) || raw.rows.length === 0) fail(`"rows" must be a non-empty array.`);
+  const seenRows = new Set<string>();
+  const rows: LayoutRow[] = (raw.rows as unknown[]).map((r, i) => {
+    if (!isObject(r)) return fail(`rows[${i}] must be an object.`);
+    const code = r.code;
+    if (typeof code !== "string" || !/^[A-Z]$/.test(code)) return fail(`rows[${i}].code must be a single letter A–Z.`);
+    if (seenRows.has(code)) fail(`row "${code}" is listed twice.`);
+    seenRows.add(code);
+    const aisles = r.aisles;
+    if (!isObject(aisles) || !isPositiveInt(aisles.from) || !isPositiveInt(aisles.to)) {
+      return fail(`row "${code}" needs an "aisles" range of positive integers.`);
+    }
+    if (aisles.from > aisles.to || aisles.to > (aisleCount as number)) {
+      fail(`row "${code}" aisle range ${aisles.from}–${aisles.to} is outside 1–${aisleCount}.`);
+    }
+    return { code, aisles: { from: aisles.from, to: aisles.to }, ...(r.accent === true ? { accent: true } : {}) };
+  });
+
+  const spotOrder = raw.spotOrder;
+  if (!Array.isArray(spotOrder) || spotOrder.length !== spotsPerBay) {
+    fail(`"spotOrder" must list all ${spotsPerBay} spots.`);
+  }
+  const orderSet = new Set(spotOrder as unknown[]);
+  for (let spot = 1; spot <= (spotsPerBay as number); spot++) {
+    if (!orderSet.has(spot)) fail(`"spotOrder" is missing spot ${spot}.`);
+  }
+
+  const compass = raw.compass;
+  if (!isObject(compass)) return fail(`"compass" must be an object.`);
+  for (const side of COMPASS_SIDES) {
+    if (typeof compass[side] !== "string") fail(`"compass.${side}" must be a string.`);
+  }
+  const entranceSide = raw.entranceSide;
+  if (!COMPASS_SIDES.includes(entranceSide as CompassSide)) {
+    fail(`"entranceSide" must be one of ${COMPASS_SIDES.join(", ")}.`);
+  }
+
+  const geometry = raw.geometry;
+  if (!isObject(geometry)) return fail(`"geometry" must be an object.`);
+  for (const key of ["bayWidthM", "rowPitchM"] as const) {
+    const v = geometry[key];
+    if (typeof v !== "number" || !(v > 0)) fail(`"geometry.${key}" must be a positive number.`);
+  }
+  const crossAisles = geometry.crossAisles;
+  if (
+    !Array.isArray(crossAisles) ||
+    crossAisles.length === 0 ||
+    crossAisles.some((x) => !Number.isInteger(x) || x < 0 || x > (aisleCount as number))
+  ) {
+    fail(`"geometry.crossAisles" must list aisle boundaries between 0 and ${aisleCount}.`);
+  }
+  const sideSpan = entranceSide === "left" || entranceSide === "right" ? rows.length : (aisleCount as number);
+  const entranceOffset = geometry.entranceOffset;
+  if (typeof entranceOffset !== "number" || entranceOffset < 0 || entranceOffset > sideSpan) {
+    fail(`"geometry.entranceOffset" must be between 0 and ${sideSpan}.`);
+  }
+  if (entranceSide === "left" && !(crossAisles as number[]).includes(0)) {
+    fail(`a left-side entrance needs a cross-aisle at boundary 0.`);
+  }
+  if (entranceSide === "right" && !(crossAisles as number[]).includes(aisleCount as number)) {
+    fail(`a right-side entrance needs a cross-aisle at boundary ${aisleCount}.`);
+  }
+
+  const travel = raw.travel;
+  if (!isObject(travel)) return fail(`"travel" must be an object.`);
+  if (typeof travel.walkSpeedMps !== "number" || !(travel.walkSpeedMps > 0)) {
+    fail(`"travel.walkSpeedMps" must be a positive number.`);
+  }
+  if (typeof travel.handlingSeconds !== "number" || !(travel.handlingSeconds >= 0)) {
+    fail(`"travel.handlingSeconds" must be >= 0.`);
+  }
+
+  const layout: WarehouseLayout = {
+    id,
+    site,
+    client,
+    name,
+    shape,
+    aisleCount: aisleCount as number,
+    rows,
+    spotsPerBay: spotsPerBay as number,
+    spotColumns: spotColumns as number,
+    spotOrder: spotOrder as number[],
+    compass: compass as Record<CompassSide, string>,
+    entranceSide: entranceSide as CompassSide,
+    geometry: {
+      bayWidthM: geometry.bayWidthM as number,
+      rowPitchM: geometry.rowPitchM as number,
+      crossAisles: [...new Set(crossAisles as number[])].sort((a, b) => a - b),
+      entranceOffset: entranceOffset as number,
+    },
+    travel: { walkSpeedMps: travel.walkSpeedMps as number, handlingSeconds: travel.handlingSeconds as number },
+    walkTimeAnchors: [],
+    labels: validateLabels(raw.labels, fail),
+    slotting: validateSlotting(raw.slotting, rows, fail),
+    putAway: validatePutAway(raw.putAway, rows, fail),
+    levels: validateLevels(raw.levels, fail),
+    floorMap: validateFloorMap(raw.floorMap, geometry.rowPitchM as number, fail),
+  };
+
+  if (!Array.isArray(raw.walkTimeAnchors) || raw.walkTimeAnchors.length === 0) {
+    fail(`"walkTimeAnchors" must be a non-empty array.`);
+  }
+  layout.walkTimeAnchors = (raw.walkTimeAnchors as unknown[]).map((a, i) => {
+    if (!isObject(a)) return fail(`walkTimeAnchors[${i}] must be an object.`);
+    const { row, aisle, spot, seconds } = a;
+    if (typeof row !== "string" || typeof aisle !== "number" || typeof spot !== "number") {
+      return fail(`walkTimeAnchors[${i}] needs row, aisle and spot.`);
+    }
+    if (!isValidLocation(layout, row, aisle) || !isValidSpot(layout, spot)) {
+      fail(`walkTimeAnchors[${i}] (${buildCode(row, aisle, spot)}) is not a storage location.`);
+    }
+    if (typeof seconds !== "number" || !(seconds >= 0)) fail(`walkTimeAnchors[${i}].seconds must be >= 0.`);
+    return { row, aisle, spot, seconds: seconds as number };
+  });
+
+  return layout;
+}
+
+export function getRow(layout: WarehouseLayout, row: RowCode): LayoutRow | undefined {
+  return layout.rows.find((r) => r.code === row);
+}
+
+export function getRowCodes(layout: WarehouseLayout): RowCode[] {
+  return layout.rows.map((r) => r.code);
+}
+
+export function getAisleNumbers(layout: WarehouseLayout): number[] {
+  return Array.from({ length: layout.aisleCount }, (_, i) => i + 1);
+}
+
+export function getSpotNumbers(layout: WarehouseLayout): number[] {
+  return Array.from({ length: layout.spotsPerBay }, (_, i) => i + 1);
+}
+
+// Determine if a location is valid based on warehouse geometry
+export function isValidLocation(layout: WarehouseLayout, row: RowCode, aisle: number): boolean {
+  const r = getRow(layout, row);
+  return !!r && aisle >= r.aisles.from && aisle <= r.aisles.to;
+}
+
+export function isValidSpot(layout: WarehouseLayout, spot: number): boolean {
+  return Number.isInteger(spot) && spot >= 1 && spot <= layout.spotsPerBay;
+}
+
+export function getLevel(layout: WarehouseLayout, level: string | null | undefined): RackLevel | undefined {
+  return level ? layout.levels.find((l) => l.code === level) : undefined;
+}
+
+/** What a spot in `row` can hold under the site's put-away rules. */
+export function rackCapacity(layout: WarehouseLayout, row: RowCode): RackCapacity {
+  const { maxSize, maxKg, rows } = layout.putAway;
+  return rows[row] ?? { maxSize, maxKg };
+}
+
+/** `I-2`, `I-2-7`, or `I-2-7-C` with a rack level; a level without a spot is dropped. */
+export function buildCode(row: RowCode, aisle: number, spot: number | null, level: string | null = null) {
+  if (!spot) return `${row}-${aisle}`;
+  return level ? `${row}-${aisle}-${spot}-${level}` : `${row}-${aisle}-${spot}`;
+}
+
+/** The code to show, link or report for a location: its floor code plus the rack level, if any. */
+export function fullCode(loc: Location) {
+  return buildCode(loc.row, loc.aisle, loc.spot, loc.level ?? null);
+}
+
+/** Parse a strict `ROW-AISLE-SPOT` code; returns null unless it names a real storage spot. */
+export function parseLocationCode(layout: WarehouseLayout, code: string): Location3D | null {
+  const m = code.trim().toUpperCase().match(/^([A-Z])-(\d+)-(\d+)$/);
+  if (!m) return null;
+  const loc = { row: m[1], aisle: Number(m[2]), spot: Number(m[3]) };
+  return isValidLocation(layout, loc.row, loc.aisle) && isValidSpot(layout, loc.spot) ? loc : null;
+}
+
+/** Every full `ROW-AISLE-SPOT` location in the layout, in display order. */
+export function listLocations(layout: WarehouseLayout): Location3D[] {
+  const out: Location3D[] = [];
+  for (const r of layout.rows) {
+    for (let aisle = r.aisles.from; aisle <= r.aisles.to; aisle++) {
+      for (const spot of getSpotNumbers(layout)) out.push({ row: r.code, aisle, spot });
+    }
+  }
+  return out;
+}
+
+/** Display order of two locations; a bay (`spot: null`) sorts before its first spot. */
+export function compareLocations(layout: WarehouseLayout, a: Omit<Location, "code">, b: Omit<Location, "code">) {
+  const rows = getRowCodes(layout);
+  return rows.indexOf(a.row) - rows.indexOf(b.row) || a.aisle - b.aisle || (a.spot ?? 0) - (b.spot ?? 0);
+}
+
+/**
+ * Spot codes from one location to another inclusive, in display order. The ends may come in either
+ * order, and a bay at either end takes in all of its spots.
+ */
+export function codesInRange(layout: WarehouseLayout, from: Omit<Location, "code">, to: Omit<Location, "code">) {
+  const [lo, hi] = compareLocations(layout, from, to) <= 0 ? [from, to] : [to, from];
+  const first = { ...lo, spot: lo.spot ?? 1 };
+  const last = { ...hi, spot: hi.spot ?? layout.spotsPerBay };
+  return listLocations(layout)
+    .filter((l) => compareLocations(layout, l, first) >= 0 && compareLocations(layout, l, last) <= 0)
+    .map((l) => buildCode(l.row, l.aisle, l.spot));
+}
+
+// "I, A–G": collapse consecutive letters into ranges for labels and messages.
+export function describeRows(layout: WarehouseLayout): string {
+  const codes = getRowCodes(layout);
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 1; i <= codes.length; i++) {
+    const prev = codes[i - 1].charCodeAt(0);
+    if (i < codes.length && codes[i].charCodeAt(0) === prev + 1) continue;
+    parts.push(i - 1 - start >= 2 ? `${codes[start]}–${codes[i - 1]}` : codes.slice(start, i).join(", "));
+    start = i;
+  }
+  return parts.join(", ");
+}
+
+/** Site-namespaced code, e.g. `dtx-lola:I-2-7`, so codes stay unambiguous across layouts. */
+export function qualifyCode(layout: WarehouseLayout, code: string) {
+  return `${layout.id}:${code}`;
+}
+
+/** Split `site:CODE` into its namespace and local code. Codes without a namespace return `site: null`. */
+export function splitQualifiedCode(value: string): { site: string | null; code: string } {
+  const i = value.indexOf(":");
+  if (i < 0) return { site: null, code: value };
+  return { site: value.slice(0, i).trim().toLowerCase(), code: value.slice(i + 1).trim() };
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+
+import { emptySlot, type SlotRecord } from "./inventory";
+import { applyLiveEvent, LiveEventError, parseLiveEvent, type LiveEvent } from "./liveUpdates";
+import { DEFAULT_LAYOUT } from "./sites";
+
+const layout = DEFAULT_LAYOUT;
+const AT = "2026-03-02T08:15:00.000Z";
+
+const parse = (event: Record<string, unknown>) => parseLiveEvent(layout, JSON.stringify(event));
+
+function problems(event: Record<string, unknown>): string[] {
+  try {
+    parse(event);
+  } catch (err) {
+    expect(err).toBeInstanceOf(LiveEventError);
+    return (err as LiveEventError).problems;
+  }
+  throw new Error("The event was accepted.");
+}
+
+const event = (kind: LiveEvent["kind"], extra: Partial<LiveEvent> = {}): LiveEvent => ({
+  kind,
+  layoutId: layout.id,
+  code: "B-2-4",
+  at: AT,
+  sku: null,
+  description: null,
+  quantity: null,
+  palletId: null,
+  reason: null,
+  author: null,
+  ...extra,
+});
+
+const stocked: SlotRecord = {
+  ...emptySlot("B-2-4"),
+  status: "occupied",
+  sku: "LB-1001",
+  description: "Lubricant",
+  quantity: 12,
+  palletId: "P-77",
+  note: "Top shelf",
+};
+
+describe("parseLiveEvent", () => {
+  it("normalizes codes and blank fields", () => {
+    expect(parse({ kind: "pick", code: " b-2-4 ", quantity: "5", at: AT, sku: " ", author: "Sam" })).toEqual(
+      event("pick", { quantity: 5, author: "Sam" }),
+    );
+  });
+
+  it("returns null for another site's events", () => {
+    expect(parse({ kind: "pick", layoutId: "dtx-overflow", code: "B-2-4", quantity: 5 })).toBeNull();
+  });
+
+  it("refuses what isn't a JSON object", () => {
+    expect(() => parseLiveEvent(layout, "{")).toThrow(/^Live update is not valid JSON: /);
+    expect(() => parseLiveEvent(layout, "42")).toThrow("Live update must be an object.");
+  });
+
+  it("lists every problem with an event", () => {
+    expect(problems({ kind: "move", code: "Z-9-9", at: "yesterday", quantity: -1 })).toEqual([
+      "kind must be one of putAway, pick, block, unblock",
+      `"Z-9-9" is not a storage location in ${layout.id}`,
+      "at is not a date",
+      "quantity must be a number >= 0",
+    ]);
+    expect(problems({ kind: "putAway", code: "B-2-4", sku: "LB-1001" })).toEqual([
+      "a put-away needs a sku and a quantity",
+    ]);
+    expect(problems({ kind: "pick", code: "B-2-4", quantity: 0 })).toEqual(["a pick needs a quantity"]);
+    expect(problems({ kind: "block", code: "B-2-4" })).toEqual(["a block needs a reason"]);
+  });
+});
+
+describe("applyLiveEvent", () => {
+  it("fills a reserved spot on put-away and drops its hold", () => {
+    const reserved: SlotRecord = {
+      ...emptySlot("B-2-4"),
+      status: "reserved",
+      hold: { reason: "Inbound PO 4411", author: "Lee", expiresAt: null },
+    };
+    const putAway = event("putAway", { sku: "LB-1001", description: "Lubricant", quantity: 40, palletId: "P-9" });
+    expect(applyLiveEvent(reserved, putAway)).toEqual({
+      ...reserved,
+      status: "occupied",
+      sku: "LB-1001",
+      description: "Lubricant",
+      quantity: 40,
+      palletId: "P-9",
+      lastMovedAt: AT,
+      hold: null,
+    });
+  });
+
+  it("takes a partial pick off the quantity", () => {
+    const picked = applyLiveEvent(stocked, event("pick", { quantity: 5 }));
+    expect(picked).toEqual({ ...stocked, quantity: 7, lastMovedAt: AT });
+  });
+
+  it("empties the spot on picking the last of it, keeping the note", () => {
+    expect(applyLiveEvent(stocked, event("pick", { quantity: 20 }))).toEqual({
+      ...emptySlot("B-2-4"),
+      note: "Top shelf",
+      lastMovedAt: AT,
+    });
+  });
+
+  it("keeps a reserved spot reserved when a pick empties it", () => {
+    const hold = { reason: "Held for cycle count", author: "Lee", expiresAt: null };
+    const reserved: SlotRecord = { ...stocked, status: "reserved", hold };
+    expect(applyLiveEvent(reserved, event("pick", { quantity: 12 }))).toMatchObject({
+      status: "reserved",
+      hold,
+      sku: null,
+      quantity: null,
+    });
+  });
+
+  it("blocks a spot with the event's reason, keeping its stock", () => {
+    const blocked = applyLiveEvent(stocked, event("block", { reason: "Rack damage", author: "Sam" }));
+    expect(blocked).toEqual({
+      ...stocked,
+      status: "blocked",
+      hold: { reason: "Rack damage", author: "Sam", expiresAt: null },
+    });
+  });
+
+  it("unblocks to occupied when the spot has stock, and to empty when it hasn't", () => {
+    const hold = { reason: "Rack damage", author: "Sam", expiresAt: null };
+    expect(applyLiveEvent({ ...stocked, status: "blocked", hold }, event("unblock"))).toEqual(stocked);
+    const bare: SlotRecord = { ...emptySlot("B-2-4"), status: "blocked", hold };
+    expect(applyLiveEvent(bare, event("unblock"))).toEqual(emptySlot("B-2-4"));
+  });
+
+  it("leaves a spot that isn't blocked alone on unblock", () => {
+    const hold = { reason: "Held for cycle count", author: null, expiresAt: null };
+    const reserved: SlotRecord = { ...stocked, status: "reserved", hold };
+    expect(applyLiveEvent(reserved, event("unblock"))).toBe(reserved);
+  });
+});
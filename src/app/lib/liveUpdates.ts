@@ -0,0 +1,207 @@
+import * as React from "react";
+
+import type { SlotRecord } from "./inventory";
+import { buildCode, parseLocationCode, type WarehouseLayout } from "./layout";
+
+export type LiveEventKind = "putAway" | "pick" | "block" | "unblock";
+
+const LIVE_EVENT_KINDS: LiveEventKind[] = ["putAway", "pick", "block", "unblock"];
+
+/**
+ * One slot change pushed by the live feed. `quantity` is what was put away or picked; put-aways
+ * also carry the item, and blocks the reason.
+ */
+export interface LiveEvent {
+  kind: LiveEventKind;
+  layoutId: string;
+  code: string;
+  /** ISO 8601 time of the change on the floor. */
+  at: string;
+  sku: string | null;
+  description: string | null;
+  quantity: number | null;
+  palletId: string | null;
+  reason: string | null;
+  author: string | null;
+}
+
+export class LiveEventError extends Error {
+  constructor(
+    message: string,
+    readonly problems: string[] = [],
+  ) {
+    super(message);
+    this.name = "LiveEventError";
+  }
+}
+
+/** `off` when no feed is configured; `reconnecting` covers the first connect too. */
+export type LiveStatus = "off" | "live" | "reconnecting";
+
+/** The Server-Sent Events feed: `VITE_LIVE_URL`, or none. */
+export const LIVE_URL = String(import.meta.env.VITE_LIVE_URL ?? "").trim();
+
+const RECONNECT_BASE_MS = 1_000;
+const RECONNECT_MAX_MS = 30_000;
+
+/** Wait before reconnect attempt `attempt` (0-based): doubling from 1 s to 30 s, with up to 25% jitter. */
+export function reconnectDelayMs(attempt: number, random = Math.random): number {
+  const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return Math.round(delay * (1 + random() / 4));
+}
+
+function optionalString(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const s = String(value).trim();
+  return s ? s : null;
+}
+
+/**
+ * Parse one feed message into an event for `layout`, or `null` when it is for another site.
+ * Codes are checked and normalized like imported slot records.
+ */
+export function parseLiveEvent(layout: WarehouseLayout, data: string): LiveEvent | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (err) {
+    throw new LiveEventError(`Live update is not valid JSON: ${(err as Error).message}`);
+  }
+  if (typeof raw !== "object" || raw === null) throw new LiveEventError("Live update must be an object.");
+  const r = raw as Record<string, unknown>;
+  if (r.layoutId !== undefined && r.layoutId !== layout.id) return null;
+
+  const problems: string[] = [];
+  const kind = r.kind as LiveEventKind;
+  if (!LIVE_EVENT_KINDS.includes(kind)) problems.push(`kind must be one of ${LIVE_EVENT_KINDS.join(", ")}`);
+  const loc = parseLocationCode(layout, String(r.code ?? ""));
+  if (!loc) problems.push(`"${String(r.code ?? "")}" is not a storage location in ${layout.id}`);
+  const at = optionalString(r.at) ?? new Date().toISOString();
+  if (Number.isNaN(Date.parse(at))) problems.push("at is not a date");
+
+  const qtyRaw = optionalString(r.quantity);
+  const quantity = qtyRaw === null ? null : Number(qtyRaw);
+  if (quantity !== null && (!Number.isFinite(quantity) || quantity < 0)) problems.push("quantity must be a number >= 0");
+  const sku = optionalString(r.sku);
+  const reason = optionalString(r.reason);
+  if (kind === "putAway" && (!sku || !quantity)) problems.push("a put-away needs a sku and a quantity");
+  if (kind === "pick" && !quantity) problems.push("a pick needs a quantity");
+  if (kind === "block" && !reason) problems.push("a block needs a reason");
+
+  if (problems.length) throw new LiveEventError("Live update ignored.", problems);
+  return {
+    kind,
+    layoutId: layout.id,
+    code: buildCode(loc!.row, loc!.aisle, loc!.spot),
+    at,
+    sku,
+    description: optionalString(r.description),
+    quantity,
+    palletId: optionalString(r.palletId),
+    reason,
+    author: optionalString(r.author),
+  };
+}
+
+/** The slot after a live event. Picking the last of a pallet empties the slot but keeps its note. */
+export function applyLiveEvent(slot: SlotRecord, event: LiveEvent): SlotRecord {
+  switch (event.kind) {
+    case "putAway":
+      // A put-away fills a reserved spot, so its hold goes too.
+      return {
+        ...slot,
+        status: "occupied",
+        sku: event.sku,
+        description: event.description,
+        quantity: event.quantity,
+        palletId: event.palletId,
+        lastMovedAt: event.at,
+        hold: null,
+      };
+    case "pick": {
+      const left = Math.max(0, (slot.quantity ?? 0) - (event.quantity ?? 0));
+      if (left > 0) return { ...slot, quantity: left, lastMovedAt: event.at };
+      const status = slot.status === "occupied" ? "empty" : slot.status;
+      return { ...slot, status, sku: null, description: null, quantity: null, palletId: null, lastMovedAt: event.at };
+    }
+    case "block":
+      return { ...slot, status: "blocked", hold: { reason: event.reason!, author: event.author, expiresAt: null } };
+    case "unblock":
+      return slot.status === "blocked" ? { ...slot, status: slot.sku ? "occupied" : "empty", hold: null } : slot;
+  }
+}
+
+/** One line for the audit history, e.g. "Live: picked 12 × LB-1001". */
+export function describeLiveEvent(event: LiveEvent): string {
+  switch (event.kind) {
+    case "putAway":
+      return `Live: put away ${event.quantity} × ${event.sku}${event.palletId ? ` (${event.palletId})` : ""}`;
+    case "pick":
+      return `Live: picked ${event.quantity}${event.sku ? ` × ${event.sku}` : ""}`;
+    case "block":
+      return `Live: blocked: ${event.reason}`;
+    case "unblock":
+      return "Live: block lifted";
+  }
+}
+
+/**
+ * Subscribe to the live feed for `layout` while mounted. On an error the connection is dropped
+ * and reopened with backoff, resuming after the last event received, so nothing is missed.
+ */
+export function useLiveUpdates(
+  layout: WarehouseLayout,
+  onEvent: (event: LiveEvent) => void,
+  url: string = LIVE_URL,
+): LiveStatus {
+  const [status, setStatus] = React.useState<LiveStatus>(url ? "reconnecting" : "off");
+  const onEventRef = React.useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  React.useEffect(() => {
+    if (!url) {
+      setStatus("off");
+      return;
+    }
+    let source: EventSource | null = null;
+    let timer: number | undefined;
+    let attempt = 0;
+    let lastEventId: string | null = null;
+
+    const connect = () => {
+      const target = new URL(url, window.location.href);
+      target.searchParams.set("site", layout.id);
+      if (lastEventId !== null) target.searchParams.set("lastEventId", lastEventId);
+      source = new EventSource(target);
+      source.onopen = () => {
+        attempt = 0;
+        setStatus("live");
+      };
+      source.onmessage = (e: MessageEvent<string>) => {
+        if (e.lastEventId) lastEventId = e.lastEventId;
+        try {
+          const event = parseLiveEvent(layout, e.data);
+          if (event) onEventRef.current(event);
+        } catch (err) {
+          // A malformed event is skipped; the ones after it still apply.
+          if (!(err instanceof LiveEventError)) throw err;
+        }
+      };
+      // EventSource retries on its own at a fixed pace; close it and back off instead.
+      source.onerror = () => {
+        source?.close();
+        setStatus("reconnecting");
+        timer = window.setTimeout(connect, reconnectDelayMs(attempt++));
+      };
+    };
+
+    setStatus("reconnecting");
+    connect();
+    return () => {
+      source?.close();
+      window.clearTimeout(timer);
+    };
+  }, [layout, url]);
+
+  return status;
+}
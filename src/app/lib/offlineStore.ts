@@ -0,0 +1,157 @@
+import type { SlotEdit, SlotRecord } from "./inventory";
+
+/**
+ * IndexedDB copy of each site's slot records plus an outbox of edits made on the floor. The
+ * inventory snapshot lets the plan open with the last known data when the backend can't be
+ * reached; the outbox holds edits until they have been saved to the backend. Each spot's change
+ * history and photos are kept here too, on this device only.
+ */
+const DB_NAME = "dtx-floor-plan";
+const DB_VERSION = 2;
+const INVENTORY_STORE = "inventory";
+const OUTBOX_STORE = "outbox";
+const HISTORY_STORE = "history";
+const PHOTO_STORE = "photos";
+
+export interface InventorySnapshot {
+  layoutId: string;
+  records: SlotRecord[];
+  /** ISO 8601 time the records last matched the backend; `null` if they never have. */
+  syncedAt: string | null;
+}
+
+/** One change to a spot, for the audit history in the Selected Location panel. */
+export interface SlotHistoryEntry {
+  id?: number;
+  layoutId: string;
+  code: string;
+  /** ISO 8601 time of the change. */
+  at: string;
+  author: string | null;
+  summary: string;
+}
+
+export interface SlotPhoto {
+  id?: number;
+  layoutId: string;
+  code: string;
+  name: string;
+  blob: Blob;
+  addedAt: string;
+  author: string | null;
+}
+
+export class OfflineStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OfflineStoreError";
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") return Promise.reject(new OfflineStoreError("IndexedDB is not available."));
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (e) => {
+      const db = request.result;
+      if (e.oldVersion < 1) {
+        db.createObjectStore(INVENTORY_STORE, { keyPath: "layoutId" });
+        db.createObjectStore(OUTBOX_STORE, { keyPath: "id", autoIncrement: true }).createIndex("layoutId", "layoutId");
+      }
+      if (e.oldVersion < 2) {
+        for (const name of [HISTORY_STORE, PHOTO_STORE]) {
+          db.createObjectStore(name, { keyPath: "id", autoIncrement: true }).createIndex("slot", ["layoutId", "code"]);
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(new OfflineStoreError(`The offline store could not be opened: ${request.error?.message ?? "unknown error"}`));
+    };
+  });
+  return dbPromise;
+}
+
+// Run `work` in one transaction and resolve with its request's result once the transaction commits.
+async function transact<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = work(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(new OfflineStoreError(tx.error?.message ?? "Offline store transaction failed."));
+    tx.onabort = () => reject(new OfflineStoreError(tx.error?.message ?? "Offline store transaction was aborted."));
+  });
+}
+
+export function loadInventorySnapshot(layoutId: string): Promise<InventorySnapshot | undefined> {
+  return transact<InventorySnapshot>(INVENTORY_STORE, "readonly", (store) => store.get(layoutId));
+}
+
+export async function saveInventorySnapshot(snapshot: InventorySnapshot): Promise<void> {
+  await transact(INVENTORY_STORE, "readwrite", (store) => store.put(snapshot));
+}
+
+/** Add an edit to the outbox; resolves with the edit including its outbox key. */
+export async function queueEdit(edit: Omit<SlotEdit, "id">): Promise<SlotEdit> {
+  const id = await transact<IDBValidKey>(OUTBOX_STORE, "readwrite", (store) => store.add(edit));
+  return { ...edit, id: id as number };
+}
+
+/** Add several edits to the outbox in one transaction, keeping their order. */
+export async function queueEdits(edits: Omit<SlotEdit, "id">[]): Promise<void> {
+  if (!edits.length) return;
+  await transact(OUTBOX_STORE, "readwrite", (store) => {
+    for (const edit of edits) store.add(edit);
+  });
+}
+
+/** Queued edits for one site, oldest first. */
+export async function listQueuedEdits(layoutId: string): Promise<SlotEdit[]> {
+  const edits = await transact<SlotEdit[]>(OUTBOX_STORE, "readonly", (store) =>
+    store.index("layoutId").getAll(layoutId),
+  );
+  return (edits ?? []).sort((a, b) => a.id! - b.id!);
+}
+
+export async function removeQueuedEdits(ids: number[]): Promise<void> {
+  if (!ids.length) return;
+  await transact(OUTBOX_STORE, "readwrite", (store) => {
+    for (const id of ids) store.delete(id);
+  });
+}
+
+export async function addHistoryEntry(entry: Omit<SlotHistoryEntry, "id">): Promise<void> {
+  await transact(HISTORY_STORE, "readwrite", (store) => store.add(entry));
+}
+
+/** One spot's history, newest first. */
+export async function listHistory(layoutId: string, code: string): Promise<SlotHistoryEntry[]> {
+  const entries = await transact<SlotHistoryEntry[]>(HISTORY_STORE, "readonly", (store) =>
+    store.index("slot").getAll([layoutId, code]),
+  );
+  return (entries ?? []).sort((a, b) => b.id! - a.id!);
+}
+
+export async function addPhoto(photo: Omit<SlotPhoto, "id">): Promise<void> {
+  await transact(PHOTO_STORE, "readwrite", (store) => store.add(photo));
+}
+
+/** One spot's photos, oldest first. */
+export async function listPhotos(layoutId: string, code: string): Promise<SlotPhoto[]> {
+  const photos = await transact<SlotPhoto[]>(PHOTO_STORE, "readonly", (store) =>
+    store.index("slot").getAll([layoutId, code]),
+  );
+  return (photos ?? []).sort((a, b) => a.id! - b.id!);
+}
+
+export async function removePhoto(id: number): Promise<void> {
+  await transact(PHOTO_STORE, "readwrite", (store) => store.delete(id));
+}
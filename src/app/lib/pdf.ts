@@ -0,0 +1,117 @@
+import { textWidthMm, type DrawOp, type PageSize } from "./drawing";
+
+const PT_PER_MM = 72 / 25.4;
+
+// WinAnsi has the bullet at 0x95; anything else outside Latin-1 prints as "?".
+function toWinAnsi(text: string) {
+  return [...text]
+    .map((ch) => (ch === "•" ? "\x95" : ch.charCodeAt(0) <= 0xff ? ch : "?"))
+    .join("")
+    .replace(/[\\()]/g, (c) => `\\${c}`);
+}
+
+function rgb(hex: string) {
+  const v = parseInt(hex.slice(1), 16);
+  return [(v >> 16) & 255, (v >> 8) & 255, v & 255].map((c) => (c / 255).toFixed(3)).join(" ");
+}
+
+const n = (v: number) => Number(v.toFixed(2)).toString();
+
+function pageContent(ops: DrawOp[], size: PageSize) {
+  const x = (mm: number) => n(mm * PT_PER_MM);
+  const y = (mm: number) => n((size.heightMm - mm) * PT_PER_MM);
+  const out: string[] = [];
+  // Barcodes are hundreds of same-colour rectangles; only switch fill colour when it changes.
+  let currentFill = "";
+  const fill = (hex: string) => {
+    if (hex === currentFill) return;
+    currentFill = hex;
+    out.push(`${rgb(hex)} rg`);
+  };
+  for (const op of ops) {
+    if (op.kind === "rect") {
+      const path = `${x(op.x)} ${y(op.y + op.h)} ${n(op.w * PT_PER_MM)} ${n(op.h * PT_PER_MM)} re`;
+      if (op.fill) fill(op.fill);
+      if (op.stroke) out.push(`${rgb(op.stroke)} RG ${n((op.strokeWidth ?? 0.25) * PT_PER_MM)} w`);
+      out.push(`${path} ${op.fill && op.stroke ? "B" : op.fill ? "f" : "S"}`);
+    } else if (op.kind === "polygon") {
+      const [first, ...rest] = op.points;
+      fill(op.fill);
+      out.push(`${x(first[0])} ${y(first[1])} m ${rest.map(([px, py]) => `${x(px)} ${y(py)} l`).join(" ")} h f`);
+    } else if (op.kind === "polyline") {
+      const [first, ...rest] = op.points;
+      const dash = op.dash ? `[${op.dash.map((d) => n(d * PT_PER_MM)).join(" ")}] 0 d` : "[] 0 d";
+      out.push(`${rgb(op.stroke)} RG ${n(op.strokeWidth * PT_PER_MM)} w 1 j ${dash}`);
+      out.push(`${x(first[0])} ${y(first[1])} m ${rest.map(([px, py]) => `${x(px)} ${y(py)} l`).join(" ")} S [] 0 d`);
+    } else if (op.kind === "circle") {
+      // Four Bézier quarter arcs; k is the usual control-point distance for a circle.
+      const k = 0.5523 * op.r;
+      const { cx, cy, r } = op;
+      fill(op.fill);
+      if (op.stroke) out.push(`${rgb(op.stroke)} RG ${n((op.strokeWidth ?? 0.25) * PT_PER_MM)} w`);
+      out.push(
+        `${x(cx + r)} ${y(cy)} m ` +
+          `${x(cx + r)} ${y(cy + k)} ${x(cx + k)} ${y(cy + r)} ${x(cx)} ${y(cy + r)} c ` +
+          `${x(cx - k)} ${y(cy + r)} ${x(cx - r)} ${y(cy + k)} ${x(cx - r)} ${y(cy)} c ` +
+          `${x(cx - r)} ${y(cy - k)} ${x(cx - k)} ${y(cy - r)} ${x(cx)} ${y(cy - r)} c ` +
+          `${x(cx + k)} ${y(cy - r)} ${x(cx + r)} ${y(cy - k)} ${x(cx + r)} ${y(cy)} c ${op.stroke ? "b" : "f"}`,
+      );
+    } else {
+      // Shift the start back along the (possibly rotated) baseline for middle/end anchors.
+      const width = textWidthMm(op.text, op.size);
+      const back = op.anchor === "middle" ? width / 2 : op.anchor === "end" ? width : 0;
+      const rad = ((op.rotate ?? 0) * Math.PI) / 180;
+      const cos = Math.cos(rad);
+      const sin = Math.sin(rad);
+      fill(op.fill ?? "#000000");
+      // PDF y runs up, so a clockwise on-screen rotation is a negative angle in the text matrix.
+      const matrix = `${n(cos)} ${n(-sin)} ${n(sin)} ${n(cos)} ${x(op.x - back * cos)} ${y(op.y - back * sin)} Tm`;
+      out.push(`BT /${op.bold ? "F2" : "F1"} ${n(op.size * PT_PER_MM)} Tf ${matrix} (${toWinAnsi(op.text)}) Tj ET`);
+    }
+  }
+  return out.join("\n");
+}
+
+/**
+ * Write pages of draw operations as a PDF 1.4 file. Text uses the built-in Courier faces, so
+ * nothing is embedded and the file stays small; that matches the SVG export's monospace text.
+ */
+export function drawingToPdf(pages: DrawOp[][], size: PageSize): Blob {
+  const objects: string[] = [];
+  // Object numbers are 1-based, so the new length is the object's number.
+  const add = (body: string) => objects.push(body);
+
+  add("<< /Type /Catalog /Pages 2 0 R >>");
+  add(""); // Pages, filled in once the kids are known.
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>");
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>");
+
+  const mediaBox = `[0 0 ${n(size.widthMm * PT_PER_MM)} ${n(size.heightMm * PT_PER_MM)}]`;
+  const kids: number[] = [];
+  for (const ops of pages) {
+    const content = pageContent(ops, size);
+    const contentId = add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    kids.push(
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox ${mediaBox} /Contents ${contentId} 0 R ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> >>`,
+      ),
+    );
+  }
+  objects[1] = `<< /Type /Pages /Kids [${kids.map((k) => `${k} 0 R`).join(" ")}] /Count ${kids.length} >>`;
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  // Every character is a single byte by now, so string offsets are byte offsets.
+  const bytes = Uint8Array.from(pdf, (ch) => ch.charCodeAt(0));
+  return new Blob([bytes], { type: "application/pdf" });
+}
@@ -0,0 +1,95 @@
+import * as React from "react";
+
+import type { BayCell, GridHeader, GridView } from "./entranceView";
+import type { RowCode } from "./layout";
+
+export type PhoneLineKind = "aisle" | "row";
+
+/** One screen line of the grid, all a phone shows at a time. */
+export interface PhoneLine {
+  header: GridHeader;
+  /** Bays in screen order, left to right or top to bottom. */
+  cells: BayCell[];
+}
+
+/**
+ * The grid cut into lines of one aisle or one row each, in the order they are drawn on screen
+ * for the current entrance view, so swiping left and right walks the floor the way it looks.
+ */
+export function phoneLines(view: GridView, kind: PhoneLineKind): PhoneLine[] {
+  // Screen rows are rows or aisles depending on the rotation; columns are the other one.
+  if (view.rowHeaders[0]?.kind === kind) {
+    return view.cells.map((cells, i) => ({ header: view.rowHeaders[i], cells }));
+  }
+  return view.columnHeaders.map((header, i) => ({ header, cells: view.cells.map((line) => line[i]) }));
+}
+
+export function lineIndexOf(lines: PhoneLine[], row: RowCode, aisle: number): number {
+  return lines.findIndex((l) => l.cells.some((c) => c.row === row && c.aisle === aisle));
+}
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 3;
+
+export function clampZoom(zoom: number) {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+// A swipe is a quick, mostly horizontal one-finger stroke of at least this many pixels.
+const SWIPE_MIN_PX = 50;
+const SWIPE_MAX_MS = 600;
+
+function fingerDistance(touches: React.TouchList) {
+  return Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+}
+
+/**
+ * Touch gestures for the phone grid. Two fingers pinch the zoom between 1× and 3×. At 1×, a swipe
+ * steps to the next (`1`, swiping left) or previous (`-1`) line; zoomed in, one finger pans the
+ * grid natively instead. The element needs `touch-action: pan-x pan-y` so the browser leaves
+ * pinches to us rather than zooming the page.
+ */
+export function usePhoneGestures(onSwipe: (step: 1 | -1) => void) {
+  const [zoom, setZoom] = React.useState(MIN_ZOOM);
+  const pinchRef = React.useRef<{ distance: number; zoom: number } | null>(null);
+  const swipeRef = React.useRef<{ x: number; y: number; at: number } | null>(null);
+
+  const onTouchStart = (e: React.TouchEvent) => {
+    if (e.touches.length === 2) {
+      pinchRef.current = { distance: fingerDistance(e.touches), zoom };
+      swipeRef.current = null;
+    } else if (e.touches.length === 1) {
+      swipeRef.current = { x: e.touches[0].clientX, y: e.touches[0].clientY, at: e.timeStamp };
+    }
+  };
+
+  const onTouchMove = (e: React.TouchEvent) => {
+    const pinch = pinchRef.current;
+    if (!pinch || e.touches.length !== 2) return;
+    setZoom(clampZoom((pinch.zoom * fingerDistance(e.touches)) / pinch.distance));
+  };
+
+  const onTouchEnd = (e: React.TouchEvent) => {
+    if (e.touches.length < 2) pinchRef.current = null;
+    const swipe = swipeRef.current;
+    if (!swipe || e.touches.length) return;
+    swipeRef.current = null;
+    const dx = e.changedTouches[0].clientX - swipe.x;
+    const dy = e.changedTouches[0].clientY - swipe.y;
+    const quick = e.timeStamp - swipe.at <= SWIPE_MAX_MS;
+    if (zoom === MIN_ZOOM && quick && Math.abs(dx) >= SWIPE_MIN_PX && Math.abs(dx) > 1.5 * Math.abs(dy)) {
+      onSwipe(dx < 0 ? 1 : -1);
+    }
+  };
+
+  const onTouchCancel = () => {
+    pinchRef.current = null;
+    swipeRef.current = null;
+  };
+
+  return {
+    zoom,
+    setZoom: (next: number) => setZoom(clampZoom(next)),
+    handlers: { onTouchStart, onTouchMove, onTouchEnd, onTouchCancel },
+  };
+}
@@ -0,0 +1,122 @@
+import { shortestPaths, type AisleGraph } from "./aisleGraph";
+import { formatMinutesSeconds } from "./format";
+import { getSlot, type SlotInventory } from "./inventory";
+import { buildCode, listLocations, PALLET_SIZES, rackCapacity, type PalletSize } from "./layout";
+import { walkSeconds, type TravelModel } from "./travelTime";
+
+export const PALLET_SIZE_LABEL: Record<PalletSize, string> = {
+  half: "Half pallet",
+  standard: "Standard pallet",
+  oversize: "Oversize pallet",
+};
+
+/** How often a SKU is picked, as the driver judges it at the dock. */
+export type VelocityClass = "fast" | "medium" | "slow";
+
+export const VELOCITY_CLASSES: VelocityClass[] = ["fast", "medium", "slow"];
+
+export const VELOCITY_CLASS_LABEL: Record<VelocityClass, string> = {
+  fast: "Fast mover",
+  medium: "Medium mover",
+  slow: "Slow mover",
+};
+
+/** The pallet at the dock, as entered or scanned. */
+export interface PutAwayPallet {
+  sku: string;
+  description: string | null;
+  quantity: number;
+  palletId: string | null;
+  size: PalletSize;
+  weightKg: number;
+  velocity: VelocityClass;
+}
+
+/** One ranked empty spot for a pallet. Lower `score` is better; `reasons` say why it ranks where it does. */
+export interface PutAwaySuggestion {
+  rank: number;
+  code: string;
+  score: number;
+  walkSeconds: number;
+  /** Nearest spot already holding the SKU, and the walk from it. */
+  sameSku: { code: string; seconds: number } | null;
+  reasons: string[];
+}
+
+// Each second of walk from the entrance counts this much; slow movers lean away from the door so
+// the near spots stay free for fast ones.
+const WALK_WEIGHT: Record<VelocityClass, number> = { fast: 1, medium: 0.5, slow: -0.25 };
+// Each second of walk to the same SKU's nearest pallet counts half, so replenishment stays short.
+const SAME_SKU_WEIGHT = 0.5;
+// Cost of putting a pallet in a rack one size class bigger than it needs.
+const OVERSIZED_RACK_SECONDS = 15;
+
+/**
+ * Rank the empty spots that can take `pallet`. Spots that are blocked, reserved or occupied, or
+ * whose rack is too small or too weak for it, are left out. The rest are scored in walk seconds:
+ * the walk from the entrance weighted by velocity, the walk to the SKU's nearest pallet, and a
+ * charge for using a rack bigger than the pallet needs. Candidates are floor spots: inventory is
+ * kept per floor spot, so rack levels aren't ranked on their own.
+ */
+export function suggestPutAway(
+  graph: AisleGraph,
+  model: TravelModel,
+  inventory: SlotInventory,
+  pallet: PutAwayPallet,
+  limit = 5,
+): PutAwaySuggestion[] {
+  const { layout } = graph;
+  const fromEntrance = shortestPaths(graph, graph.entrance);
+  // One search per pallet of the SKU; there are only ever a handful.
+  const skuPaths = Object.values(inventory)
+    .filter((s) => s.sku === pallet.sku && s.status === "occupied" && graph.spotNodes.has(s.code))
+    .map((s) => ({ code: s.code, paths: shortestPaths(graph, graph.spotNodes.get(s.code)!) }));
+  const entrance = layout.compass[layout.entranceSide];
+  const size = PALLET_SIZES.indexOf(pallet.size);
+
+  const scored: Omit<PutAwaySuggestion, "rank">[] = [];
+  for (const loc of listLocations(layout)) {
+    const code = buildCode(loc.row, loc.aisle, loc.spot);
+    const node = graph.spotNodes.get(code);
+    if (node === undefined || getSlot(inventory, code).status !== "empty") continue;
+    const capacity = rackCapacity(layout, loc.row);
+    const spare = PALLET_SIZES.indexOf(capacity.maxSize) - size;
+    if (spare < 0 || pallet.weightKg > capacity.maxKg) continue;
+    const walk = walkSeconds(model, fromEntrance.meters[node]);
+    if (!Number.isFinite(walk)) continue;
+
+    let sameSku: PutAwaySuggestion["sameSku"] = null;
+    for (const { code: skuCode, paths } of skuPaths) {
+      const seconds = walkSeconds(model, paths.meters[node]);
+      if (Number.isFinite(seconds) && (!sameSku || seconds < sameSku.seconds)) sameSku = { code: skuCode, seconds };
+    }
+
+    const reasons = [`${formatMinutesSeconds(walk)} walk from the ${entrance} entrance`];
+    if (pallet.velocity === "slow") reasons.push("slow mover, so it can sit further from the door");
+    if (sameSku) {
+      reasons.push(
+        sameSku.seconds < 1
+          ? `next to ${pallet.sku} at ${sameSku.code}`
+          : `${formatMinutesSeconds(sameSku.seconds)} from ${pallet.sku} at ${sameSku.code}`,
+      );
+    }
+    reasons.push(
+      `row ${loc.row} takes ${PALLET_SIZE_LABEL[capacity.maxSize].toLowerCase()}s up to ${capacity.maxKg} kg` +
+        (spare ? ", bigger than this pallet needs" : ""),
+    );
+
+    scored.push({
+      code,
+      score:
+        WALK_WEIGHT[pallet.velocity] * walk + SAME_SKU_WEIGHT * (sameSku?.seconds ?? 0) + OVERSIZED_RACK_SECONDS * spare,
+      walkSeconds: walk,
+      sameSku,
+      reasons,
+    });
+  }
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.walkSeconds - b.walkSeconds)
+    .slice(0, limit)
+    .map((s, i) => ({ ...s, rank: i + 1 }));
+}
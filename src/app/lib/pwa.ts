@@ -0,0 +1,31 @@
+import * as React from "react";
+
+/**
+ * Register the service worker emitted by the build (see `serviceWorker()` in vite.config.ts).
+ * Dev builds skip it so Vite's module server is never shadowed by a cache.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(() => {
+      // Without a service worker the app still works online; it just can't open offline.
+    });
+  });
+}
+
+/** `navigator.onLine`, kept current by the browser's online/offline events. */
+export function useOnlineStatus() {
+  const [online, setOnline] = React.useState(() => (typeof navigator === "undefined" ? true : navigator.onLine));
+
+  React.useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return online;
+}
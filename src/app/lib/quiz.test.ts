@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  adjustLevel,
+  DEMOTE_STREAK,
+  PROMOTE_STREAK,
+  summarizeTrainees,
+  type QuizAnswer,
+  type QuizLevel,
+  type QuizSession,
+} from "./quiz";
+
+const answer = (correct: boolean, reactionMs = 3_000): QuizAnswer => ({
+  kind: "spot",
+  level: 1,
+  prompt: "B-2-4",
+  tapped: correct ? "B-2-4" : "B-2-5",
+  correct,
+  reactionMs,
+});
+
+const hits = (n: number) => Array.from({ length: n }, () => answer(true));
+const misses = (n: number) => Array.from({ length: n }, () => answer(false));
+
+// Answers one at a time the way a quiz does: the streak starts over at every level change.
+function play(level: QuizLevel, answers: QuizAnswer[]): QuizLevel[] {
+  let sinceChange: QuizAnswer[] = [];
+  return answers.map((a) => {
+    sinceChange = [...sinceChange, a];
+    const next = adjustLevel(level, sinceChange);
+    if (next !== level) sinceChange = [];
+    level = next;
+    return level;
+  });
+}
+
+describe("adjustLevel", () => {
+  it("promotes after a streak of correct answers", () => {
+    expect(adjustLevel(1, hits(PROMOTE_STREAK - 1))).toBe(1);
+    expect(adjustLevel(1, hits(PROMOTE_STREAK))).toBe(2);
+    expect(adjustLevel(2, [answer(false), ...hits(PROMOTE_STREAK)])).toBe(3);
+    expect(adjustLevel(2, [...hits(PROMOTE_STREAK - 1), answer(false)])).toBe(2);
+  });
+
+  it("demotes after a streak of misses", () => {
+    expect(adjustLevel(3, misses(DEMOTE_STREAK - 1))).toBe(3);
+    expect(adjustLevel(3, misses(DEMOTE_STREAK))).toBe(2);
+    expect(adjustLevel(2, [answer(false), answer(true)])).toBe(2);
+  });
+
+  it("stays within levels 1 to 3", () => {
+    expect(adjustLevel(3, hits(PROMOTE_STREAK * 2))).toBe(3);
+    expect(adjustLevel(1, misses(DEMOTE_STREAK * 2))).toBe(1);
+  });
+
+  it("counts a new streak from the level change", () => {
+    // The streak that promoted to level 2 doesn't count towards level 3.
+    expect(play(1, hits(PROMOTE_STREAK + 1)).slice(-2)).toEqual([2, 2]);
+    expect(play(1, hits(PROMOTE_STREAK * 2)).at(-1)).toBe(3);
+    // Straight after a promotion, it takes a whole new streak of misses to drop back.
+    expect(play(1, [...hits(PROMOTE_STREAK), ...misses(DEMOTE_STREAK)]).slice(PROMOTE_STREAK - 1)).toEqual([2, 2, 1]);
+    // After a demotion, a miss alone doesn't demote again.
+    expect(play(3, misses(DEMOTE_STREAK + 1))).toEqual([3, 2, 2]);
+    expect(play(3, misses(DEMOTE_STREAK * 2))).toEqual([3, 2, 2, 1]);
+  });
+});
+
+describe("summarizeTrainees", () => {
+  const session = (trainee: string, layoutId: string, endedAt: string, answers: QuizAnswer[], finalLevel: QuizLevel) =>
+    ({ trainee, layoutId, startedAt: endedAt, endedAt, answers, finalLevel }) satisfies QuizSession;
+
+  it("keeps one row per trainee and site, most recent first", () => {
+    const summaries = summarizeTrainees([
+      session("Ana", "dtx-lola", "2026-03-01T09:00:00Z", [answer(true, 2_000), answer(false)], 2),
+      session("Ana", "dtx-overflow", "2026-03-03T09:00:00Z", [answer(false)], 1),
+      session("Ana", "dtx-lola", "2026-03-02T09:00:00Z", [answer(true, 4_000), answer(true, 3_000)], 3),
+      session("Ben", "dtx-lola", "2026-03-02T10:00:00Z", [], 1),
+    ]);
+
+    expect(summaries).toEqual([
+      {
+        trainee: "Ana",
+        layoutId: "dtx-overflow",
+        sessions: 1,
+        questions: 1,
+        accuracy: 0,
+        medianReactionMs: null,
+        bestLevel: 1,
+        lastPlayedAt: "2026-03-03T09:00:00Z",
+      },
+      {
+        trainee: "Ben",
+        layoutId: "dtx-lola",
+        sessions: 1,
+        questions: 0,
+        accuracy: 0,
+        medianReactionMs: null,
+        bestLevel: 1,
+        lastPlayedAt: "2026-03-02T10:00:00Z",
+      },
+      {
+        trainee: "Ana",
+        layoutId: "dtx-lola",
+        sessions: 2,
+        questions: 4,
+        accuracy: 0.75,
+        medianReactionMs: 3_000,
+        bestLevel: 3,
+        lastPlayedAt: "2026-03-02T09:00:00Z",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,322 @@
+import * as React from "react";
+
+import type { EntranceView } from "../types";
+import type { SlotInventory } from "./inventory";
+import { buildCode, listLocations, type WarehouseLayout } from "./layout";
+
+/** 1: find a bay from a partial code. 2: find a spot from a full code. 3: full codes on a rotated grid. */
+export type QuizLevel = 1 | 2 | 3;
+
+export const QUIZ_LEVEL_LABEL: Record<QuizLevel, string> = {
+  1: "Bays (ROW-AISLE)",
+  2: "Full codes",
+  3: "Full codes, rotated view",
+};
+
+export interface QuizQuestion {
+  kind: "bay" | "spot" | "sku";
+  level: QuizLevel;
+  /** What the trainee is asked to find, e.g. "C-4" or "SKU LB-1001". */
+  prompt: string;
+  detail: string | null;
+  /** Codes that count as a correct tap; a bay or a SKU on several pallets accepts any of its spots. */
+  answers: string[];
+  entranceView: EntranceView;
+  timeLimitMs: number;
+}
+
+export interface QuizAnswer {
+  kind: QuizQuestion["kind"];
+  level: QuizLevel;
+  prompt: string;
+  /** The spot tapped, or `null` if time ran out. */
+  tapped: string | null;
+  correct: boolean;
+  reactionMs: number;
+}
+
+export interface QuizSession {
+  trainee: string;
+  layoutId: string;
+  startedAt: string;
+  endedAt: string;
+  answers: QuizAnswer[];
+  finalLevel: QuizLevel;
+}
+
+export interface TraineeSummary {
+  trainee: string;
+  layoutId: string;
+  sessions: number;
+  questions: number;
+  /** Share of questions answered correctly, 0–1. */
+  accuracy: number;
+  /** Median time to a correct tap; `null` until there is one. */
+  medianReactionMs: number | null;
+  bestLevel: QuizLevel;
+  lastPlayedAt: string;
+}
+
+export const QUIZ_LENGTH = 20;
+/** Correct answers in a row that move a trainee up a level; misses in a row that move them down. */
+export const PROMOTE_STREAK = 5;
+export const DEMOTE_STREAK = 2;
+
+const TIME_LIMIT_MS: Record<QuizLevel, number> = { 1: 15_000, 2: 12_000, 3: 12_000 };
+// A SKU has to be looked up before it can be found.
+const SKU_EXTRA_MS = 5_000;
+// From level 2, roughly one question in four names a SKU instead of a location.
+const SKU_QUESTION_SHARE = 0.25;
+const VIEWS: EntranceView[] = ["bottom", "left", "top"];
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/** A random question at `level`. `view` is the trainee's own entrance view, which level 3 rotates away from. */
+export function nextQuestion(
+  layout: WarehouseLayout,
+  inventory: SlotInventory,
+  level: QuizLevel,
+  view: EntranceView,
+  random: () => number = Math.random,
+): QuizQuestion {
+  const entranceView = level === 3 ? pick(VIEWS.filter((v) => v !== view), random) : view;
+  const timeLimitMs = TIME_LIMIT_MS[level];
+  const locations = listLocations(layout);
+
+  if (level === 1) {
+    const { row, aisle } = pick(locations, random);
+    const bay = buildCode(row, aisle, null);
+    const answers = locations
+      .filter((l) => l.row === row && l.aisle === aisle)
+      .map((l) => buildCode(l.row, l.aisle, l.spot));
+    return { kind: "bay", level, prompt: bay, detail: "Tap any spot in this bay", answers, entranceView, timeLimitMs };
+  }
+
+  const stocked = Object.values(inventory).filter((s) => s.sku);
+  if (stocked.length && random() < SKU_QUESTION_SHARE) {
+    const { sku, description } = pick(stocked, random);
+    const answers = stocked.filter((s) => s.sku === sku).map((s) => s.code);
+    return {
+      kind: "sku",
+      level,
+      prompt: `SKU ${sku}`,
+      detail: description,
+      answers,
+      entranceView,
+      timeLimitMs: timeLimitMs + SKU_EXTRA_MS,
+    };
+  }
+
+  const { row, aisle, spot } = pick(locations, random);
+  const code = buildCode(row, aisle, spot);
+  return { kind: "spot", level, prompt: code, detail: null, answers: [code], entranceView, timeLimitMs };
+}
+
+export function gradeAnswer(question: QuizQuestion, tapped: string | null, reactionMs: number): QuizAnswer {
+  const inTime = reactionMs <= question.timeLimitMs;
+  return {
+    kind: question.kind,
+    level: question.level,
+    prompt: question.prompt,
+    tapped,
+    correct: inTime && tapped !== null && question.answers.includes(tapped),
+    reactionMs: Math.min(reactionMs, question.timeLimitMs),
+  };
+}
+
+/** Level after an answer, given every answer since the last level change (newest last). */
+export function adjustLevel(level: QuizLevel, sinceChange: QuizAnswer[]): QuizLevel {
+  const tail = (n: number) => (sinceChange.length >= n ? sinceChange.slice(-n) : null);
+  if (level < 3 && tail(PROMOTE_STREAK)?.every((a) => a.correct)) return (level + 1) as QuizLevel;
+  if (level > 1 && tail(DEMOTE_STREAK)?.every((a) => !a.correct)) return (level - 1) as QuizLevel;
+  return level;
+}
+
+function median(values: number[]) {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * One row per trainee and site, most recently active first. Sites are kept apart because knowing
+ * one site's grid says little about finding spots on another's.
+ */
+export function summarizeTrainees(sessions: QuizSession[]): TraineeSummary[] {
+  const byTraineeAndSite = new Map<string, QuizSession[]>();
+  for (const s of sessions) {
+    const key = JSON.stringify([s.trainee, s.layoutId]);
+    byTraineeAndSite.set(key, [...(byTraineeAndSite.get(key) ?? []), s]);
+  }
+
+  return [...byTraineeAndSite.values()]
+    .map((own) => {
+      const answers = own.flatMap((s) => s.answers);
+      const correct = answers.filter((a) => a.correct);
+      return {
+        trainee: own[0].trainee,
+        layoutId: own[0].layoutId,
+        sessions: own.length,
+        questions: answers.length,
+        accuracy: answers.length ? correct.length / answers.length : 0,
+        medianReactionMs: median(correct.map((a) => a.reactionMs)),
+        bestLevel: Math.max(...own.map((s) => s.finalLevel)) as QuizLevel,
+        lastPlayedAt: own.reduce((latest, s) => (s.endedAt > latest ? s.endedAt : latest), own[0].endedAt),
+      };
+    })
+    .sort((a, b) => b.lastPlayedAt.localeCompare(a.lastPlayedAt));
+}
+
+const RESULTS_KEY = "dtx-floor-plan.quizResults";
+const TRAINEE_KEY = "dtx-floor-plan.quizTrainee";
+// Plenty for a supervisor's review without letting localStorage grow without bound.
+const MAX_STORED_SESSIONS = 500;
+
+function readResults(): QuizSession[] {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(RESULTS_KEY) ?? "[]");
+    return Array.isArray(parsed) ? (parsed as QuizSession[]).filter((s) => s && Array.isArray(s.answers)) : [];
+  } catch {
+    // Corrupt results are dropped rather than breaking the quiz.
+    return [];
+  }
+}
+
+/** Every trainee's finished sessions on this device, plus the last trainee name entered. */
+export function useQuizResults() {
+  const [sessions, setSessions] = React.useState<QuizSession[]>(readResults);
+  const [lastTrainee, setLastTrainee] = React.useState(() => {
+    try {
+      return window.localStorage.getItem(TRAINEE_KEY) ?? "";
+    } catch {
+      return "";
+    }
+  });
+
+  const persist = (next: QuizSession[]) => {
+    setSessions(next);
+    try {
+      if (next.length) window.localStorage.setItem(RESULTS_KEY, JSON.stringify(next));
+      else window.localStorage.removeItem(RESULTS_KEY);
+    } catch {
+      // Storage unavailable: results last until the tab closes.
+    }
+  };
+
+  const addSession = (session: QuizSession) => {
+    persist([...sessions, session].slice(-MAX_STORED_SESSIONS));
+    setLastTrainee(session.trainee);
+    try {
+      window.localStorage.setItem(TRAINEE_KEY, session.trainee);
+    } catch {
+      // Only a convenience; the name is typed again next time.
+    }
+  };
+
+  const clearResults = () => persist([]);
+
+  return { sessions, lastTrainee, addSession, clearResults };
+}
+
+/** A quiz in progress. */
+export interface QuizState {
+  trainee: string;
+  startedAt: string;
+  level: QuizLevel;
+  answers: QuizAnswer[];
+  sinceLevelChange: QuizAnswer[];
+  question: QuizQuestion;
+  askedAt: number;
+  /** Set between an answer and the next question. */
+  feedback: QuizAnswer | null;
+}
+
+const FEEDBACK_MS = 1_600;
+
+/**
+ * One trainee's run of `QUIZ_LENGTH` questions. Taps come in through `answer`; unanswered
+ * questions time out on their own, and the finished session is handed to `onFinish`.
+ */
+export function useQuiz({
+  layout,
+  inventory,
+  view,
+  onFinish,
+}: {
+  layout: WarehouseLayout;
+  inventory: SlotInventory;
+  view: EntranceView;
+  onFinish: (session: QuizSession) => void;
+}) {
+  const [state, setState] = React.useState<QuizState | null>(null);
+
+  const finish = (current: QuizState) => {
+    setState(null);
+    if (!current.answers.length) return;
+    onFinish({
+      trainee: current.trainee,
+      layoutId: layout.id,
+      startedAt: current.startedAt,
+      endedAt: new Date().toISOString(),
+      answers: current.answers,
+      finalLevel: current.level,
+    });
+  };
+
+  const start = (trainee: string) => {
+    setState({
+      trainee,
+      startedAt: new Date().toISOString(),
+      level: 1,
+      answers: [],
+      sinceLevelChange: [],
+      question: nextQuestion(layout, inventory, 1, view),
+      askedAt: Date.now(),
+      feedback: null,
+    });
+  };
+
+  const answer = (tapped: string | null) => {
+    if (!state || state.feedback) return;
+    const graded = gradeAnswer(state.question, tapped, Date.now() - state.askedAt);
+    const sinceLevelChange = [...state.sinceLevelChange, graded];
+    const level = adjustLevel(state.level, sinceLevelChange);
+    setState({
+      ...state,
+      level,
+      answers: [...state.answers, graded],
+      sinceLevelChange: level === state.level ? sinceLevelChange : [],
+      feedback: graded,
+    });
+  };
+
+  const stop = () => {
+    if (state) finish(state);
+  };
+
+  // Time out an unanswered question, then move on once the feedback has been shown.
+  React.useEffect(() => {
+    if (!state) return;
+    if (!state.feedback) {
+      const timer = window.setTimeout(() => answer(null), state.question.timeLimitMs - (Date.now() - state.askedAt));
+      return () => window.clearTimeout(timer);
+    }
+    const timer = window.setTimeout(() => {
+      if (state.answers.length >= QUIZ_LENGTH) finish(state);
+      else {
+        setState({
+          ...state,
+          question: nextQuestion(layout, inventory, state.level, view),
+          askedAt: Date.now(),
+          feedback: null,
+        });
+      }
+    }, FEEDBACK_MS);
+    return () => window.clearTimeout(timer);
+  }, [state]);
+
+  return { quiz: state, start, answer, stop };
+}
@@ -0,0 +1,173 @@
+import { distanceFromEntrance, shortestPaths, type AisleGraph } from "./aisleGraph";
+import { getSlot, type SlotInventory } from "./inventory";
+import { buildCode, isValidLocation, type WarehouseLayout } from "./layout";
+import { parseSearchInput } from "./search";
+import { liftSeconds, walkSeconds, type TravelModel } from "./travelTime";
+
+export interface PickStop {
+  code: string;
+  /** Pick-list entry this stop came from (a code or a SKU). */
+  entry: string;
+  sku: string | null;
+  /** Rack level to pick from, when the entry named one (`I-2-7-C`). */
+  level?: string | null;
+}
+
+export interface ParsedPickList {
+  stops: PickStop[];
+  problems: string[];
+}
+
+/**
+ * One walk between stops, named by code with any rack level (`I-2-7-C`); `null` is the entrance.
+ * Seconds include handling at the stop reached, and the lift when it is on an upper rack level.
+ */
+export interface RouteLeg {
+  from: string | null;
+  to: string | null;
+  meters: number;
+  seconds: number;
+}
+
+export interface PlannedRoute {
+  stops: PickStop[];
+  legs: RouteLeg[];
+  totalMeters: number;
+  totalSeconds: number;
+  returnToEntrance: boolean;
+}
+
+const HEADER_TOKENS = new Set(["CODE", "LOCATION", "SKU", "ITEM"]);
+
+const stopCode = (stop: PickStop) => (stop.level ? `${stop.code}-${stop.level}` : stop.code);
+
+/**
+ * Turn pasted or uploaded pick-list text into stops. Entries are separated by newlines, commas,
+ * semicolons or tabs. A SKU (or pallet ID) resolves to the spot holding it nearest the entrance.
+ */
+export function parsePickList(graph: AisleGraph, inventory: SlotInventory, text: string): ParsedPickList {
+  const { layout } = graph;
+  const entries = text
+    .split(/[\n\r,;\t]+/)
+    .map((e) => e.trim())
+    .filter((e) => e && !HEADER_TOKENS.has(e.toUpperCase()));
+
+  const fromEntrance = shortestPaths(graph, graph.entrance);
+  const stops: PickStop[] = [];
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  const add = (stop: PickStop) => {
+    const key = stopCode(stop);
+    if (seen.has(key)) return;
+    seen.add(key);
+    stops.push(stop);
+  };
+
+  for (const entry of entries) {
+    const parsed = parseSearchInput(entry, layout);
+    if (parsed.ok) {
+      if (parsed.spot === null) problems.push(`${entry}: pick a full ROW-AISLE-SPOT code.`);
+      else if (!isValidLocation(layout, parsed.row, parsed.aisle)) problems.push(`${entry}: no storage there.`);
+      else {
+        const slot = getSlot(inventory, buildCode(parsed.row, parsed.aisle, parsed.spot));
+        if (slot.status === "blocked") problems.push(`${entry}: blocked${slot.hold ? ` (${slot.hold.reason})` : ""}.`);
+        else add({ code: slot.code, entry, sku: null, level: parsed.level });
+      }
+      continue;
+    }
+
+    const key = entry.toUpperCase();
+    const holding = Object.values(inventory).filter(
+      (s) => s.status === "occupied" && (s.sku?.toUpperCase() === key || s.palletId?.toUpperCase() === key),
+    );
+    if (!holding.length) {
+      problems.push(`${entry}: not a location or a stocked SKU/pallet.`);
+      continue;
+    }
+    const nearest = holding.reduce((best, s) =>
+      distanceFromEntrance(graph, s.code, fromEntrance) < distanceFromEntrance(graph, best.code, fromEntrance) ? s : best,
+    );
+    add({ code: nearest.code, entry, sku: nearest.sku });
+  }
+
+  return { stops, problems };
+}
+
+function tourMeters(order: number[], dist: number[][], returnToEntrance: boolean) {
+  let total = 0;
+  let at = 0;
+  for (const i of order) {
+    total += dist[at][i];
+    at = i;
+  }
+  return returnToEntrance ? total + dist[at][0] : total;
+}
+
+function stopHandlingSeconds(layout: WarehouseLayout, model: TravelModel, stop: PickStop) {
+  return model.handlingSeconds + liftSeconds(layout, stop.level);
+}
+
+/**
+ * Order stops to keep the walk short: nearest-neighbour from the entrance, then 2-opt until no
+ * reversal helps. Pick lists are tens of stops at most, so the simple O(n³) passes are fine.
+ */
+export function planRoute(
+  graph: AisleGraph,
+  model: TravelModel,
+  stops: PickStop[],
+  { returnToEntrance = true }: { returnToEntrance?: boolean } = {},
+): PlannedRoute {
+  const nodes = [graph.entrance, ...stops.map((s) => graph.spotNodes.get(s.code)!)];
+  const dist = nodes.map((from) => {
+    const paths = shortestPaths(graph, from);
+    return nodes.map((to) => paths.meters[to]);
+  });
+
+  const remaining = new Set(stops.map((_, i) => i + 1));
+  let order: number[] = [];
+  let at = 0;
+  while (remaining.size) {
+    let next = -1;
+    for (const i of remaining) if (next < 0 || dist[at][i] < dist[at][next]) next = i;
+    order.push(next);
+    remaining.delete(next);
+    at = next;
+  }
+
+  let best = tourMeters(order, dist, returnToEntrance);
+  for (let improved = true, passes = 0; improved && passes < 50; passes++) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        const meters = tourMeters(candidate, dist, returnToEntrance);
+        if (meters < best - 1e-9) {
+          order = candidate;
+          best = meters;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  const ordered = order.map((i) => stops[i - 1]);
+  const hops = returnToEntrance ? [0, ...order, 0] : [0, ...order];
+  const legs: RouteLeg[] = hops.slice(1).map((to, k) => {
+    const from = hops[k];
+    const meters = dist[from][to];
+    return {
+      from: from === 0 ? null : stopCode(stops[from - 1]),
+      to: to === 0 ? null : stopCode(stops[to - 1]),
+      meters,
+      seconds: walkSeconds(model, meters) + (to === 0 ? 0 : stopHandlingSeconds(graph.layout, model, stops[to - 1])),
+    };
+  });
+
+  return {
+    stops: ordered,
+    legs,
+    totalMeters: legs.reduce((sum, l) => sum + l.meters, 0),
+    totalSeconds: legs.reduce((sum, l) => sum + l.seconds, 0),
+    returnToEntrance,
+  };
+}
@@ -0,0 +1,153 @@
+import { renderHook } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+
+import type { LabelFormat } from "./layout";
+import { createWedgeBuffer, encodeLabelValue, mod43CheckChar, normalizeScan, useWedgeScanner } from "./scanner";
+
+const plain: LabelFormat = { prefixes: [], checkDigit: "none" };
+const prefixed: LabelFormat = { prefixes: ["LOC:", "LOC"], checkDigit: "none" };
+const checked: LabelFormat = { prefixes: ["LOC:"], checkDigit: "mod43" };
+
+describe("mod43CheckChar", () => {
+  it("sums character values modulo 43", () => {
+    // A=10, -=36, 1=1: 84 % 43 = 41, which is "+".
+    expect(mod43CheckChar("A-1-1")).toBe("+");
+    // I=18: 99 % 43 = 13, which is "D".
+    expect(mod43CheckChar("I-2-7")).toBe("D");
+    expect(mod43CheckChar("")).toBe("0");
+  });
+
+  it("returns null for characters Code 39 can't encode", () => {
+    expect(mod43CheckChar("a-1-1")).toBeNull();
+    expect(mod43CheckChar("I_2_7")).toBeNull();
+  });
+});
+
+describe("normalizeScan", () => {
+  it("drops control characters, AIM identifiers and surrounding blanks", () => {
+    expect(normalizeScan(plain, "\u0002]C1i-2-7 \r\n")).toEqual({ ok: true, value: "I-2-7" });
+    expect(normalizeScan(plain, "]Q3 A-1-1")).toEqual({ ok: true, value: "A-1-1" });
+  });
+
+  it("strips the longest matching prefix, case-insensitively", () => {
+    expect(normalizeScan(prefixed, "loc:I-2-7")).toEqual({ ok: true, value: "I-2-7" });
+    expect(normalizeScan(prefixed, "LOC I-2-7")).toEqual({ ok: true, value: "I-2-7" });
+    expect(normalizeScan(prefixed, "]C0LOC:I-2-7")).toEqual({ ok: true, value: "I-2-7" });
+  });
+
+  it("checks and strips a mod-43 check character", () => {
+    expect(normalizeScan(checked, "LOC:I-2-7D")).toEqual({ ok: true, value: "I-2-7" });
+    expect(normalizeScan(checked, encodeLabelValue(checked, "A-1-1"))).toEqual({ ok: true, value: "A-1-1" });
+    expect(normalizeScan(checked, "LOC:I-2-7E")).toEqual({
+      ok: false,
+      message: 'Label "LOC:I-2-7E" failed its check character; rescan it.',
+    });
+    expect(normalizeScan(checked, "D")).toMatchObject({ ok: false });
+  });
+
+  it("keeps a trailing space when it is the check character", () => {
+    // S=28, A=10: 38 is the space.
+    expect(mod43CheckChar("SA")).toBe(" ");
+    expect(normalizeScan(checked, "LOC:SA ")).toEqual({ ok: true, value: "SA" });
+  });
+});
+
+describe("createWedgeBuffer", () => {
+  const feed = (buffer: ReturnType<typeof createWedgeBuffer>, keys: string[], start: number, gap: number) =>
+    keys.map((key, i) => buffer.push(key, start + i * gap));
+
+  it("returns a fast burst that ends in Enter", () => {
+    const buffer = createWedgeBuffer();
+    const results = feed(buffer, [..."I-2-7", "Enter"], 1000, 10);
+    expect(results).toEqual([null, null, null, null, null, "I-2-7"]);
+    expect(buffer.pending()).toBe("");
+  });
+
+  it("ignores typing, which is slower than a scanner", () => {
+    const buffer = createWedgeBuffer();
+    expect(feed(buffer, [..."I-2-7", "Enter"], 1000, 120).at(-1)).toBeNull();
+  });
+
+  it("ignores keys without text, such as Shift", () => {
+    const buffer = createWedgeBuffer();
+    expect(feed(buffer, ["Shift", "I", "-", "Shift", "2", "Enter"], 1000, 10).at(-1)).toBe("I-2");
+  });
+
+  it("starts over after a pause, keeping only the burst", () => {
+    const buffer = createWedgeBuffer();
+    buffer.push("x", 0);
+    expect(feed(buffer, [..."A-1-1", "Enter"], 500, 10).at(-1)).toBe("A-1-1");
+  });
+
+  it("needs the minimum length and a fast Enter", () => {
+    const buffer = createWedgeBuffer({ minLength: 4 });
+    expect(feed(buffer, [..."A-1", "Enter"], 0, 10).at(-1)).toBeNull();
+    feed(buffer, [..."A-1-1"], 1000, 10);
+    expect(buffer.push("Enter", 1200)).toBeNull();
+  });
+
+  it("forgets the burst on reset", () => {
+    const buffer = createWedgeBuffer();
+    feed(buffer, [..."A-1"], 0, 10);
+    buffer.reset();
+    expect(buffer.pending()).toBe("");
+    expect(buffer.push("Enter", 30)).toBeNull();
+  });
+});
+
+describe("useWedgeScanner", () => {
+  // Keys go to `input` `gap` ms apart as a browser sends them: keydown, then the text unless prevented.
+  function type(input: HTMLInputElement, keys: string[], start: number, gap: number) {
+    return keys.map((key, i) => {
+      const event = new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true });
+      Object.defineProperty(event, "timeStamp", { value: start + i * gap });
+      input.dispatchEvent(event);
+      if (!event.defaultPrevented && key.length === 1) input.value += key;
+      return event;
+    });
+  }
+
+  function setup() {
+    const input = document.createElement("input");
+    document.body.append(input);
+    input.value = "grease";
+    input.setSelectionRange(6, 6);
+    const onScan = vi.fn();
+    const onInput = vi.fn();
+    input.addEventListener("input", onInput);
+    const hook = renderHook(({ enabled }) => useWedgeScanner(enabled, onScan), { initialProps: { enabled: true } });
+    return { input, onScan, onInput, hook };
+  }
+
+  it("hands over a scan and gives the focused input back its text", () => {
+    const { input, onScan, onInput } = setup();
+    const events = type(input, [..."I-2-7", "Enter"], 1000, 10);
+
+    expect(onScan).toHaveBeenCalledWith("I-2-7");
+    expect(input.value).toBe("grease");
+    expect(onInput).toHaveBeenCalledTimes(1);
+    expect(events.at(-1)?.defaultPrevented).toBe(true);
+    input.remove();
+  });
+
+  it("leaves typing alone", () => {
+    const { input, onScan, onInput } = setup();
+    const events = type(input, [..." gun", "Enter"], 1000, 150);
+
+    expect(onScan).not.toHaveBeenCalled();
+    expect(input.value).toBe("grease gun");
+    expect(onInput).not.toHaveBeenCalled();
+    expect(events.some((e) => e.defaultPrevented)).toBe(false);
+    input.remove();
+  });
+
+  it("stops listening when disabled", () => {
+    const { input, onScan, hook } = setup();
+    hook.rerender({ enabled: false });
+    type(input, [..."I-2-7", "Enter"], 1000, 10);
+
+    expect(onScan).not.toHaveBeenCalled();
+    expect(input.value).toBe("greaseI-2-7");
+    input.remove();
+  });
+});
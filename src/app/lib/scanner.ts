@@ -0,0 +1,208 @@
+import * as React from "react";
+
+import { buildCode, isValidLocation, type LabelFormat, type Location, type WarehouseLayout } from "./layout";
+import { parseSearchInput } from "./search";
+
+export type ScanResult = { ok: true; location: Location } | { ok: false; message: string };
+
+const CODE39_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%";
+
+/** Code 39 mod-43 check character for `value`, or `null` if it has characters Code 39 can't encode. */
+export function mod43CheckChar(value: string): string | null {
+  let sum = 0;
+  for (const ch of value) {
+    const i = CODE39_CHARSET.indexOf(ch);
+    if (i < 0) return null;
+    sum += i;
+  }
+  return CODE39_CHARSET[sum % 43];
+}
+
+/**
+ * Strip what a label adds around the code: scanner noise (control characters, an AIM symbology
+ * identifier such as `]C1`), a configured prefix and, for `mod43` labels, the check character.
+ */
+export function normalizeScan(
+  format: LabelFormat,
+  raw: string,
+): { ok: true; value: string } | { ok: false; message: string } {
+  // Only leading blanks are dropped: a mod-43 check character can itself be a space.
+  let value = raw
+    .replace(/[\u0000-\u001f\u007f]/g, "")
+    .replace(/^\][A-Za-z][0-9A-Za-z]/, "")
+    .trimStart()
+    .toUpperCase();
+
+  const prefix = [...format.prefixes]
+    .sort((a, b) => b.length - a.length)
+    .find((p) => value.startsWith(p.toUpperCase()));
+  if (prefix) value = value.slice(prefix.length).trimStart();
+  if (format.checkDigit === "none") value = value.trimEnd();
+
+  if (format.checkDigit === "mod43") {
+    const body = value.slice(0, -1);
+    if (!body || mod43CheckChar(body) !== value.slice(-1)) {
+      return { ok: false, message: `Label "${raw.trim()}" failed its check character; rescan it.` };
+    }
+    value = body;
+  }
+  return { ok: true, value };
+}
+
+/** The value a printed label encodes for `code`, so that `normalizeScan` reads it back. */
+export function encodeLabelValue(format: LabelFormat, code: string) {
+  return format.checkDigit === "mod43" ? code + mod43CheckChar(code) : code;
+}
+
+/** Turn a scanned label into a location, with a message for the scanner user when it isn't one. */
+export function resolveScan(layout: WarehouseLayout, raw: string): ScanResult {
+  const normalized = normalizeScan(layout.labels, raw);
+  if (!normalized.ok) return normalized;
+
+  const parsed = parseSearchInput(normalized.value, layout);
+  if (!parsed.ok) {
+    return { ok: false, message: `Label "${raw.trim()}" is not a valid location. ${parsed.message}` };
+  }
+  if (!isValidLocation(layout, parsed.row, parsed.aisle)) {
+    return { ok: false, message: `Label "${raw.trim()}" points at ${parsed.row}-${parsed.aisle}, which has no storage.` };
+  }
+  const { row, aisle, spot, level } = parsed;
+  return { ok: true, location: { row, aisle, spot, level, code: buildCode(row, aisle, spot) } };
+}
+
+export interface WedgeOptions {
+  /** Longest pause between scanner keystrokes; people typing are far slower. */
+  maxGapMs?: number;
+  minLength?: number;
+}
+
+/**
+ * Keyboard-wedge scanners "type" a label as a burst of keystrokes ending in Enter. Feed every
+ * key with its timestamp; `push` returns the label when an Enter closes a fast enough burst.
+ */
+export function createWedgeBuffer({ maxGapMs = 35, minLength = 3 }: WedgeOptions = {}) {
+  let buffer = "";
+  let lastAt = 0;
+
+  return {
+    push(key: string, at: number): string | null {
+      const gap = at - lastAt;
+      if (key === "Enter") {
+        const label = buffer.length >= minLength && gap <= maxGapMs ? buffer : null;
+        buffer = "";
+        return label;
+      }
+      if (key.length !== 1) return null;
+      buffer = buffer && gap <= maxGapMs ? buffer + key : key;
+      lastAt = at;
+      return null;
+    },
+    /** The keys of the burst so far. */
+    pending(): string {
+      return buffer;
+    },
+    reset() {
+      buffer = "";
+    },
+  };
+}
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+interface FieldSnapshot {
+  field: TextField;
+  value: string;
+  selectionStart: number | null;
+  selectionEnd: number | null;
+}
+
+function snapshotField(target: EventTarget | null): FieldSnapshot | null {
+  if (!(target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement)) return null;
+  const { value, selectionStart, selectionEnd } = target;
+  return { field: target, value, selectionStart, selectionEnd };
+}
+
+function restoreField({ field, value, selectionStart, selectionEnd }: FieldSnapshot) {
+  if (field.value === value) return;
+  // React keeps its own copy of an input's value; setting it through the prototype and firing
+  // "input" makes a controlled input's onChange see the restored text.
+  Object.getOwnPropertyDescriptor(Object.getPrototypeOf(field), "value")?.set?.call(field, value);
+  if (selectionStart !== null && selectionEnd !== null) field.setSelectionRange(selectionStart, selectionEnd);
+  field.dispatchEvent(new Event("input", { bubbles: true }));
+}
+
+/**
+ * Listen for wedge-scanner bursts anywhere on the page while `enabled`. A burst can only be told
+ * from typing once it ends, so its keys still reach the focused input; when it turns out to be a
+ * scan, that input gets back the text it had before the burst. The closing Enter is swallowed so
+ * it doesn't also submit the input.
+ */
+export function useWedgeScanner(enabled: boolean, onScan: (label: string) => void, options?: WedgeOptions) {
+  const onScanRef = React.useRef(onScan);
+  onScanRef.current = onScan;
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    const buffer = createWedgeBuffer(options);
+    let beforeBurst: FieldSnapshot | null = null;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const label = buffer.push(e.key, e.timeStamp);
+      if (label === null) {
+        // Keydown comes before the key's text is inserted, so this is the field as it was.
+        if (e.key.length === 1 && buffer.pending().length === 1) beforeBurst = snapshotField(e.target);
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+      if (beforeBurst) restoreField(beforeBurst);
+      beforeBurst = null;
+      onScanRef.current(label);
+    };
+    window.addEventListener("keydown", onKeyDown, { capture: true });
+    return () => window.removeEventListener("keydown", onKeyDown, { capture: true });
+  }, [enabled, options?.maxGapMs, options?.minLength]);
+}
+
+export interface BarcodeDetectorLike {
+  detect: (source: CanvasImageSource) => Promise<{ rawValue: string }[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorLike;
+
+const CAMERA_FORMATS = ["qr_code", "code_128", "code_39", "data_matrix"];
+
+/** The browser's Shape Detection `BarcodeDetector`, or `null` where it isn't available. */
+export function createBarcodeDetector(): BarcodeDetectorLike | null {
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector) return null;
+  try {
+    return new Detector({ formats: CAMERA_FORMATS });
+  } catch {
+    // Some engines reject formats they can't read; let them pick their defaults instead.
+    return new Detector();
+  }
+}
+
+const SCAN_MODE_KEY = "dtx-floor-plan.scanMode";
+
+/** Scan mode on/off; remembered per device since scanners are tied to the tablet. */
+export function useScanMode(): [boolean, (on: boolean) => void] {
+  const [on, setOn] = React.useState(() => {
+    try {
+      return window.localStorage.getItem(SCAN_MODE_KEY) === "on";
+    } catch {
+      return false;
+    }
+  });
+
+  const update = React.useCallback((next: boolean) => {
+    setOn(next);
+    try {
+      window.localStorage.setItem(SCAN_MODE_KEY, next ? "on" : "off");
+    } catch {
+      // Nowhere to remember it; scan mode resets on the next visit.
+    }
+  }, []);
+
+  return [on, update];
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import { emptySlot, type SlotInventory } from "./inventory";
+import { parseRangeInput, parseSearchInput, runSearch } from "./search";
+import { DEFAULT_LAYOUT } from "./sites";
+
+const layout = DEFAULT_LAYOUT;
+
+const inventory: SlotInventory = {
+  "B-2-4": { ...emptySlot("B-2-4"), status: "occupied", sku: "A1234", description: "Axle grease", palletId: "B7-0042" },
+  "C-1-1": { ...emptySlot("C-1-1"), status: "occupied", sku: "X2", description: "X2 throw pillow", palletId: null },
+};
+
+describe("parseSearchInput", () => {
+  it("reads hyphen, partial and compact codes", () => {
+    expect(parseSearchInput("I-2-7", layout)).toMatchObject({ ok: true, row: "I", aisle: 2, spot: 7 });
+    expect(parseSearchInput(" b-3 ", layout)).toMatchObject({ ok: true, row: "B", aisle: 3, spot: null });
+    expect(parseSearchInput("i27", layout)).toMatchObject({ ok: true, row: "I", aisle: 2, spot: 7 });
+    expect(parseSearchInput("I2", layout)).toMatchObject({ ok: true, row: "I", aisle: 2, spot: null });
+    expect(parseSearchInput(`${layout.id}:A-1-1`, layout)).toMatchObject({ ok: true, row: "A", aisle: 1, spot: 1 });
+  });
+
+  it("flags a code-shaped input with a bad row, aisle or spot as a location", () => {
+    expect(parseSearchInput("Z-2-7", layout)).toMatchObject({ ok: false, looksLikeLocation: true });
+    expect(parseSearchInput("I-12-7", layout)).toMatchObject({
+      ok: false,
+      message: `Invalid aisle (valid range is 1–${layout.aisleCount}).`,
+      looksLikeLocation: true,
+    });
+    expect(parseSearchInput("I-2-10", layout)).toMatchObject({ ok: false, looksLikeLocation: true });
+    expect(parseSearchInput("dtx-overflow:B-2-4", layout)).toMatchObject({
+      ok: false,
+      message: expect.stringMatching(/^That location belongs to .+\. Switch site first\.$/),
+      looksLikeLocation: true,
+    });
+  });
+
+  it("reads rack levels", () => {
+    expect(parseSearchInput("I-2-7-c", layout)).toMatchObject({ ok: true, spot: 7, level: "C" });
+    expect(parseSearchInput("I27C", layout)).toMatchObject({ ok: true, spot: 7, level: "C" });
+    expect(parseSearchInput("I-2-7-Z", layout)).toMatchObject({ ok: false, looksLikeLocation: true });
+  });
+
+  it("doesn't flag other text as a location", () => {
+    for (const raw of ["A1234", "X2 throw", "B7-0042", "grease", ""]) {
+      expect(parseSearchInput(raw, layout)).toMatchObject({ ok: false, looksLikeLocation: false });
+    }
+  });
+});
+
+describe("parseRangeInput", () => {
+  it("expands spot and bay ranges", () => {
+    const spots = parseRangeInput("B-2-1..B-2-9", layout);
+    expect(spots).toEqual({ ok: true, codes: Array.from({ length: 9 }, (_, i) => `B-2-${i + 1}`) });
+    const bays = parseRangeInput("B-2..B-4", layout);
+    expect(bays?.ok && bays.codes).toHaveLength(3 * layout.spotsPerBay);
+  });
+
+  it("expands row and bay wildcards", () => {
+    const row = parseRangeInput("c-*", layout);
+    expect(row?.ok && row.codes).toHaveLength(6 * layout.spotsPerBay);
+    expect(row?.ok && row.codes.every((code) => code.startsWith("C-"))).toBe(true);
+    const bay = parseRangeInput("C-2-*", layout);
+    expect(bay?.ok && bay.codes).toHaveLength(layout.spotsPerBay);
+  });
+
+  it("rejects ends with no storage", () => {
+    expect(parseRangeInput("C-7-*", layout)).toEqual({ ok: false, message: "No storage at C-7." });
+    expect(parseRangeInput("C-1..C-7", layout)).toEqual({ ok: false, message: "No storage at C-7." });
+  });
+
+  it("leaves plain codes and bays alone", () => {
+    expect(parseRangeInput("I-3", layout)).toBeNull();
+    expect(parseRangeInput("I-3-1", layout)).toBeNull();
+    expect(parseRangeInput("LB-1001", layout)).toBeNull();
+  });
+});
+
+describe("runSearch", () => {
+  it("routes codes, bays and ranges to locations", () => {
+    expect(runSearch(layout, inventory, "I-2-7")).toMatchObject({ kind: "location", code: "I-2-7", spot: 7 });
+    expect(runSearch(layout, inventory, "I-3")).toMatchObject({ kind: "location", code: "I-3", spot: null });
+    expect(runSearch(layout, inventory, "C-2-*")).toMatchObject({ kind: "range" });
+  });
+
+  it("reports a bad location instead of searching items", () => {
+    expect(runSearch(layout, inventory, "I-12-7")).toEqual({
+      kind: "error",
+      message: `Invalid aisle (valid range is 1–${layout.aisleCount}).`,
+    });
+    expect(runSearch(layout, inventory, "C-7")).toEqual({ kind: "error", message: "No storage at C-7." });
+  });
+
+  it("searches items for anything that isn't a code", () => {
+    expect(runSearch(layout, inventory, "A1234")).toMatchObject({ kind: "items", codes: ["B-2-4"] });
+    expect(runSearch(layout, inventory, "b7-0042")).toMatchObject({ kind: "items", codes: ["B-2-4"] });
+    expect(runSearch(layout, inventory, "X2 throw")).toMatchObject({ kind: "items", codes: ["C-1-1"] });
+    expect(runSearch(layout, inventory, "nothing here")).toMatchObject({ kind: "error" });
+  });
+});
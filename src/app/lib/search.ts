@@ -0,0 +1,216 @@
+import {
+  buildCode,
+  codesInRange,
+  describeRows,
+  getLevel,
+  getRow,
+  getRowCodes,
+  isValidLocation,
+  isValidSpot,
+  splitQualifiedCode,
+  type Location,
+  type RowCode,
+  type WarehouseLayout,
+} from "./layout";
+import { getSiteLayout, siteLabel } from "./sites";
+import type { SlotInventory } from "./inventory";
+
+/**
+ * A parsed location code. On failure, `looksLikeLocation` says whether the input had a code's shape
+ * (so the location itself is wrong) rather than being something else, such as a SKU.
+ */
+export type ParsedSearch =
+  | { ok: true; row: RowCode; aisle: number; spot: number | null; level: string | null }
+  | { ok: false; message: string; looksLikeLocation: boolean };
+
+function otherSiteMessage(site: string) {
+  const other = getSiteLayout(site);
+  return other ? `That location belongs to ${siteLabel(other)}. Switch site first.` : `Unknown site "${site}".`;
+}
+
+export function parseSearchInput(raw: string, layout: WarehouseLayout): ParsedSearch {
+  const { site, code } = splitQualifiedCode(raw.trim());
+  const value = code.toUpperCase();
+  if (!value) return { ok: false, message: "Enter a location (e.g., I-2-7 or I27)", looksLikeLocation: false };
+
+  // Hyphen formats: I-1, I-1-2 or I-1-2-C. Compact formats: I2 (partial), I21 (full) or I21C (with level).
+  const match =
+    value.match(/^([A-Z])-(\d+)(?:-(\d+)(?:-([A-Z]))?)?$/) ?? value.match(/^([A-Z])(\d)(?:(\d)([A-Z])?)?$/);
+  if (!match) {
+    return {
+      ok: false,
+      message: layout.levels.length
+        ? "Invalid format. Use ROW-AISLE-SPOT (I-2-7), with a level (I-2-7-C), partial (I-2), or compact (I27, I27C)."
+        : "Invalid format. Use ROW-AISLE-SPOT (I-2-7), partial (I-2), or compact (I27).",
+      looksLikeLocation: false,
+    };
+  }
+
+  const invalid = (message: string): ParsedSearch => ({ ok: false, message, looksLikeLocation: true });
+  if (site !== null && site !== layout.id) return invalid(otherSiteMessage(site));
+  const [, row, aisleRaw, spotRaw, levelRaw] = match;
+  const aisle = Number(aisleRaw);
+  const spot = spotRaw ? Number(spotRaw) : null;
+  const level = levelRaw ?? null;
+  if (!getRowCodes(layout).includes(row)) return invalid(`Invalid row (valid rows: ${describeRows(layout)}).`);
+  if (aisle < 1 || aisle > layout.aisleCount) return invalid(`Invalid aisle (valid range is 1–${layout.aisleCount}).`);
+  if (spot !== null && !isValidSpot(layout, spot)) {
+    return invalid(`Invalid spot (valid range is 1–${layout.spotsPerBay}).`);
+  }
+  if (level !== null && !getLevel(layout, level)) {
+    return invalid(
+      layout.levels.length
+        ? `Invalid level (valid levels: ${layout.levels.map((l) => l.code).join(", ")}).`
+        : "This site has no rack levels; use ROW-AISLE-SPOT.",
+    );
+  }
+  return { ok: true, row, aisle, spot, level };
+}
+
+export type ParsedRange = { ok: true; codes: string[] } | { ok: false; message: string };
+
+/**
+ * Range syntax for selecting many spots: `B-2-1..B-2-9` (either end may be a bay, e.g. `B-2..B-4`),
+ * `C-*` for a whole row or `C-2-*` for a bay. Returns `null` when `raw` isn't a range.
+ */
+export function parseRangeInput(raw: string, layout: WarehouseLayout): ParsedRange | null {
+  const { site, code } = splitQualifiedCode(raw.trim());
+  const value = code.toUpperCase().replace(/\s+/g, "");
+  if (!/^[A-Z]-?[\d*]/.test(value) || (!value.includes("..") && !value.endsWith("*"))) return null;
+  if (site !== null && site !== layout.id) return { ok: false, message: otherSiteMessage(site) };
+
+  const wildcard = value.match(/^([A-Z])-(?:(\d+)-)?\*$/);
+  if (wildcard) {
+    const row = getRow(layout, wildcard[1]);
+    if (!row) return { ok: false, message: `Invalid row (valid rows: ${describeRows(layout)}).` };
+    const aisle = wildcard[2] ? Number(wildcard[2]) : null;
+    if (aisle !== null && !isValidLocation(layout, row.code, aisle)) {
+      return { ok: false, message: `No storage at ${row.code}-${aisle}.` };
+    }
+    const from = { row: row.code, aisle: aisle ?? row.aisles.from, spot: null };
+    const to = { row: row.code, aisle: aisle ?? row.aisles.to, spot: null };
+    return { ok: true, codes: codesInRange(layout, from, to) };
+  }
+
+  const ends = value.split("..");
+  if (ends.length !== 2) return { ok: false, message: "Invalid range. Use B-2-1..B-2-9, B-2..B-4, C-* or C-2-*." };
+  const [from, to] = ends.map((end) => parseSearchInput(end, layout));
+  if (!from.ok) return from;
+  if (!to.ok) return to;
+  for (const end of [from, to]) {
+    if (!isValidLocation(layout, end.row, end.aisle)) {
+      return { ok: false, message: `No storage at ${end.row}-${end.aisle}.` };
+    }
+  }
+  return { ok: true, codes: codesInRange(layout, from, to) };
+}
+
+export type ItemMatchKind = "sku" | "pallet";
+
+/** Spots holding one SKU or one pallet that matched an item search. */
+export interface ItemMatch {
+  kind: ItemMatchKind;
+  /** SKU or pallet ID. */
+  key: string;
+  description: string | null;
+  codes: string[];
+}
+
+export type SearchResult =
+  | { kind: "location"; row: RowCode; aisle: number; spot: number | null; level: string | null; code: string }
+  | { kind: "range"; codes: string[] }
+  | { kind: "items"; matches: ItemMatch[]; codes: string[] }
+  | { kind: "error"; message: string };
+
+// Lower score ranks first: exact SKU, SKU prefix, exact pallet, pallet prefix, description words.
+function scoreSlotMatch(query: string, sku: string, palletId: string, description: string) {
+  if (sku && sku === query) return { kind: "sku" as const, score: 0 };
+  if (palletId && palletId === query) return { kind: "pallet" as const, score: 1 };
+  if (sku && sku.startsWith(query)) return { kind: "sku" as const, score: 2 };
+  if (palletId && palletId.startsWith(query)) return { kind: "pallet" as const, score: 3 };
+  if (sku && sku.includes(query)) return { kind: "sku" as const, score: 4 };
+  const words = query.split(/\s+/).filter(Boolean);
+  if (description && words.length && words.every((w) => description.includes(w))) {
+    return { kind: "sku" as const, score: 5 };
+  }
+  return null;
+}
+
+/** Find SKUs/pallets whose SKU, pallet ID or description match `raw`, grouped with every spot that holds them. */
+export function findItemMatches(inventory: SlotInventory, raw: string): ItemMatch[] {
+  const query = raw.trim().toUpperCase();
+  if (!query) return [];
+
+  const groups = new Map<string, ItemMatch & { score: number }>();
+  for (const slot of Object.values(inventory)) {
+    // Stock in a blocked spot can't be picked, so it isn't offered.
+    if ((!slot.sku && !slot.palletId) || slot.status === "blocked") continue;
+    const hit = scoreSlotMatch(
+      query,
+      slot.sku?.toUpperCase() ?? "",
+      slot.palletId?.toUpperCase() ?? "",
+      slot.description?.toUpperCase() ?? "",
+    );
+    if (!hit) continue;
+    const key = hit.kind === "pallet" ? slot.palletId! : slot.sku!;
+    const groupKey = `${hit.kind}:${key}`;
+    const group = groups.get(groupKey);
+    if (group) {
+      group.codes.push(slot.code);
+      group.score = Math.min(group.score, hit.score);
+    } else {
+      groups.set(groupKey, { kind: hit.kind, key, description: slot.description, codes: [slot.code], score: hit.score });
+    }
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => a.score - b.score || a.key.localeCompare(b.key))
+    .map(({ score: _score, ...match }) => ({ ...match, codes: [...match.codes].sort() }));
+}
+
+/** Type-ahead suggestions for the search box. */
+export function suggestItems(inventory: SlotInventory, raw: string, limit = 8): ItemMatch[] {
+  if (raw.trim().length < 2) return [];
+  return findItemMatches(inventory, raw).slice(0, limit);
+}
+
+/** Resolve the search box: a location range, a location code, then SKU/description/pallet matches. */
+export function runSearch(layout: WarehouseLayout, inventory: SlotInventory, raw: string): SearchResult {
+  const range = parseRangeInput(raw, layout);
+  if (range) {
+    if (!range.ok) return { kind: "error", message: range.message };
+    return range.codes.length
+      ? { kind: "range", codes: range.codes }
+      : { kind: "error", message: `No storage spots in ${raw.trim()}.` };
+  }
+
+  const parsed = parseSearchInput(raw, layout);
+  if (parsed.ok) {
+    if (!isValidLocation(layout, parsed.row, parsed.aisle)) {
+      return { kind: "error", message: `No storage at ${parsed.row}-${parsed.aisle}.` };
+    }
+    const { row, aisle, spot, level } = parsed;
+    return { kind: "location", row, aisle, spot, level, code: buildCode(row, aisle, spot) };
+  }
+
+  // A code with a bad row, aisle or spot is a location error; anything else may be an item.
+  if (!raw.trim() || parsed.looksLikeLocation) return { kind: "error", message: parsed.message };
+
+  const matches = findItemMatches(inventory, raw);
+  if (!matches.length) {
+    return { kind: "error", message: `No location or item matches "${raw.trim()}". Try I-2-7, a SKU or a pallet ID.` };
+  }
+  const codes = [...new Set(matches.flatMap((m) => m.codes))].sort();
+  return { kind: "items", matches, codes };
+}
+
+/**
+ * A full or partial location code (I-2-7, I-2-7-C, I-2, I27, dtx-lola:I-2-7) as a selectable
+ * location, or `null`.
+ */
+export function resolveLocation(layout: WarehouseLayout, raw: string): Location | null {
+  const result = runSearch(layout, {}, raw);
+  if (result.kind !== "location") return null;
+  const { row, aisle, spot, level, code } = result;
+  return { row, aisle, spot, level, code };
+}
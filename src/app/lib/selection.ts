@@ -0,0 +1,139 @@
+import * as React from "react";
+
+import type { AisleGraph } from "./aisleGraph";
+import { toCsv } from "./csv";
+import { getSlot, type SlotInventory } from "./inventory";
+import { compareLocations, parseLocationCode, type WarehouseLayout } from "./layout";
+import { planRoute, type PlannedRoute } from "./routePlanner";
+import type { TravelModel } from "./travelTime";
+
+/** Above this many spots the walk estimate is skipped; route planning is O(n³). */
+export const MAX_TOUR_SPOTS = 80;
+
+/** Spot codes in display order (row, aisle, spot); codes that aren't spots are dropped. */
+export function sortCodes(layout: WarehouseLayout, codes: Iterable<string>): string[] {
+  return [...codes]
+    .map((code) => ({ code, loc: parseLocationCode(layout, code) }))
+    .filter((c) => c.loc)
+    .sort((a, b) => compareLocations(layout, a.loc!, b.loc!))
+    .map((c) => c.code);
+}
+
+/**
+ * The shortest walk that visits every selected spot and returns, or `null` for too many spots.
+ * Blocked spots can't be walked to and are left out.
+ */
+export function planSelectionTour(
+  graph: AisleGraph,
+  model: TravelModel,
+  inventory: SlotInventory,
+  codes: string[],
+): PlannedRoute | null {
+  const reachable = codes.filter((code) => getSlot(inventory, code).status !== "blocked");
+  if (!reachable.length || reachable.length > MAX_TOUR_SPOTS) return null;
+  return planRoute(
+    graph,
+    model,
+    reachable.map((code) => ({ code, entry: code, sku: null })),
+  );
+}
+
+export function selectionCsv(inventory: SlotInventory, codes: string[]): string {
+  return toCsv([
+    [
+      ...["code", "status", "sku", "description", "quantity", "palletId", "lastMovedAt", "note"],
+      ...["holdReason", "holdBy", "holdUntil"],
+    ],
+    ...codes.map((code) => {
+      const s = getSlot(inventory, code);
+      const hold = [s.hold?.reason ?? null, s.hold?.author ?? null, s.hold?.expiresAt ?? null];
+      return [s.code, s.status, s.sku, s.description, s.quantity, s.palletId, s.lastMovedAt, s.note, ...hold];
+    }),
+  ]);
+}
+
+/** Pointer travel before a press on the grid becomes a rectangle drag instead of a click. */
+const DRAG_THRESHOLD_PX = 6;
+
+export interface DragBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Rectangle selection over the grid with a mouse. Spots whose buttons touch the rectangle are
+ * passed to `onSelect`, along with whether a modifier key asked to add to the selection. The click
+ * that ends a drag is swallowed; spot click handlers ask `consumeClick()` first.
+ */
+export function useDragSelect({
+  containerRef,
+  spotRefs,
+  enabled,
+  onSelect,
+}: {
+  containerRef: React.RefObject<HTMLElement | null>;
+  /** Spot buttons in the table, or spot shapes on the scale map. */
+  spotRefs: React.RefObject<Record<string, Element | null>>;
+  enabled: boolean;
+  onSelect: (codes: string[], additive: boolean) => void;
+}) {
+  const [box, setBox] = React.useState<DragBox | null>(null);
+  const draggedRef = React.useRef(false);
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    const container = containerRef.current;
+    // Touch and pen drags scroll the grid instead.
+    if (!enabled || !container || e.button !== 0 || e.pointerType !== "mouse") return;
+    draggedRef.current = false;
+    const start = { x: e.clientX, y: e.clientY };
+    const additive = e.shiftKey || e.ctrlKey || e.metaKey;
+    let dragging = false;
+
+    const rectTo = (ev: PointerEvent) => ({
+      left: Math.min(start.x, ev.clientX),
+      top: Math.min(start.y, ev.clientY),
+      right: Math.max(start.x, ev.clientX),
+      bottom: Math.max(start.y, ev.clientY),
+    });
+
+    const onMove = (ev: PointerEvent) => {
+      if (!dragging && Math.hypot(ev.clientX - start.x, ev.clientY - start.y) < DRAG_THRESHOLD_PX) return;
+      dragging = true;
+      const r = rectTo(ev);
+      const frame = container.getBoundingClientRect();
+      setBox({ left: r.left - frame.left, top: r.top - frame.top, width: r.right - r.left, height: r.bottom - r.top });
+    };
+
+    const finish = (ev: PointerEvent) => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", finish);
+      window.removeEventListener("pointercancel", finish);
+      setBox(null);
+      if (!dragging || ev.type === "pointercancel") return;
+      draggedRef.current = true;
+      const r = rectTo(ev);
+      const codes = Object.entries(spotRefs.current ?? {})
+        .filter(([, el]) => {
+          if (!el?.isConnected) return false;
+          const b = el.getBoundingClientRect();
+          return b.right >= r.left && b.left <= r.right && b.bottom >= r.top && b.top <= r.bottom;
+        })
+        .map(([code]) => code);
+      onSelect(codes, additive);
+    };
+
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", finish);
+    window.addEventListener("pointercancel", finish);
+  };
+
+  const consumeClick = () => {
+    const dragged = draggedRef.current;
+    draggedRef.current = false;
+    return dragged;
+  };
+
+  return { box, onPointerDown, consumeClick };
+}
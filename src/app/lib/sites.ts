@@ -0,0 +1,56 @@
+import * as React from "react";
+
+import dtxLolaLayout from "../data/layouts/dtx-lola.json";
+import dtxOverflowLayout from "../data/layouts/dtx-overflow.json";
+import { splitQualifiedCode, validateLayout, type WarehouseLayout } from "./layout";
+import { readUrlParam, usePopState, writeUrlParams } from "./urlState";
+
+// Every layout is validated once at startup; a bad file stops the app here.
+export const SITE_LAYOUTS: WarehouseLayout[] = [dtxLolaLayout, dtxOverflowLayout].map((raw) => validateLayout(raw));
+
+{
+  const ids = new Set<string>();
+  for (const layout of SITE_LAYOUTS) {
+    if (ids.has(layout.id)) throw new Error(`Duplicate layout id "${layout.id}".`);
+    ids.add(layout.id);
+  }
+}
+
+export const DEFAULT_LAYOUT: WarehouseLayout = SITE_LAYOUTS[0];
+
+export function getSiteLayout(id: string | null | undefined): WarehouseLayout | undefined {
+  if (!id) return undefined;
+  const key = id.trim().toLowerCase();
+  return SITE_LAYOUTS.find((l) => l.id === key);
+}
+
+export function siteLabel(layout: WarehouseLayout) {
+  return `${layout.site} • ${layout.client}`;
+}
+
+// `?site=` wins; otherwise a namespaced `?loc=site:CODE` picks the site it names.
+function readSiteFromUrl(): WarehouseLayout {
+  const loc = readUrlParam("loc");
+  const id = readUrlParam("site") ?? (loc ? splitQualifiedCode(loc).site : null);
+  return getSiteLayout(id) ?? DEFAULT_LAYOUT;
+}
+
+/** Active site layout, kept in the `?site=` query parameter. */
+export function useSiteLayout(): [WarehouseLayout, (id: string) => void] {
+  const [layout, setLayout] = React.useState<WarehouseLayout>(() => readSiteFromUrl());
+
+  usePopState(() => setLayout(readSiteFromUrl()));
+
+  const selectSite = React.useCallback((id: string) => {
+    const next = getSiteLayout(id);
+    if (!next) return;
+    // A location or item search from another site means nothing here.
+    writeUrlParams(
+      { site: next.id === DEFAULT_LAYOUT.id ? null : next.id, loc: null, sel: null, q: null },
+      { push: true },
+    );
+    setLayout(next);
+  }, []);
+
+  return [layout, selectSite];
+}
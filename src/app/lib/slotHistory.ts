@@ -0,0 +1,107 @@
+import * as React from "react";
+
+import {
+  addHistoryEntry,
+  addPhoto,
+  listHistory,
+  listPhotos,
+  removePhoto,
+  type SlotHistoryEntry,
+  type SlotPhoto,
+} from "./offlineStore";
+
+/** Photos are kept on the device, so very large camera files are refused. */
+export const MAX_PHOTO_BYTES = 8 * 1024 * 1024;
+
+const listeners = new Set<() => void>();
+
+/** Tell mounted history and photo lists to reload after a write. */
+export function notifyHistoryChanged() {
+  for (const listener of listeners) listener();
+}
+
+function useHistoryVersion() {
+  const [version, setVersion] = React.useState(0);
+  React.useEffect(() => {
+    const listener = () => setVersion((v) => v + 1);
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+  return version;
+}
+
+/** One spot's audit history, newest first. */
+export function useSlotHistory(layoutId: string, code: string) {
+  const version = useHistoryVersion();
+  const [entries, setEntries] = React.useState<SlotHistoryEntry[]>([]);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    listHistory(layoutId, code)
+      .then((list) => {
+        if (cancelled) return;
+        setEntries(list);
+        setError(null);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(`History is unavailable: ${err.message}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [layoutId, code, version]);
+
+  return { entries, error };
+}
+
+/** One spot's photos. Adding or removing one is recorded in the spot's history. */
+export function useSlotPhotos(layoutId: string, code: string) {
+  const version = useHistoryVersion();
+  const [photos, setPhotos] = React.useState<SlotPhoto[]>([]);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    listPhotos(layoutId, code)
+      .then((list) => {
+        if (!cancelled) setPhotos(list);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(`Photos are unavailable: ${err.message}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [layoutId, code, version]);
+
+  const record = async (author: string | null, summary: string) => {
+    await addHistoryEntry({ layoutId, code, at: new Date().toISOString(), author, summary });
+    notifyHistoryChanged();
+  };
+
+  const add = async (file: File, author: string | null) => {
+    if (!file.type.startsWith("image/")) return setError(`${file.name} is not an image.`);
+    if (file.size > MAX_PHOTO_BYTES) return setError(`${file.name} is larger than 8 MB.`);
+    try {
+      await addPhoto({ layoutId, code, name: file.name, blob: file, addedAt: new Date().toISOString(), author });
+      await record(author, `Photo added: ${file.name}`);
+      setError(null);
+    } catch (err) {
+      setError(`The photo could not be saved: ${(err as Error).message}`);
+    }
+  };
+
+  const remove = async (photo: SlotPhoto, author: string | null) => {
+    try {
+      await removePhoto(photo.id!);
+      await record(author, `Photo removed: ${photo.name}`);
+    } catch (err) {
+      setError(`The photo could not be removed: ${(err as Error).message}`);
+    }
+  };
+
+  return { photos, error, add, remove };
+}
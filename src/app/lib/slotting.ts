@@ -0,0 +1,162 @@
+import { distanceFromEntrance, shortestPaths, type AisleGraph } from "./aisleGraph";
+import { parseCsvRecords, toCsv } from "./csv";
+import type { SlotInventory } from "./inventory";
+import { buildCode, listLocations, type RowCode } from "./layout";
+import { walkSeconds, type TravelModel } from "./travelTime";
+
+/** Picks per day by SKU, from an imported velocity file. */
+export type SkuVelocity = Record<string, number>;
+
+export interface SlottingOptions {
+  maxMovesPerDay: number;
+  reservedRows: RowCode[];
+}
+
+/**
+ * One proposed relocation. A `move` takes a pallet to an empty spot; a `swap` trades places with
+ * a slower pallet and counts as two pallet moves against the daily cap.
+ */
+export interface SlottingMove {
+  rank: number;
+  kind: "move" | "swap";
+  sku: string;
+  description: string | null;
+  from: string;
+  to: string;
+  /** SKU of the pallet moved out of `to` in a swap. */
+  swapSku: string | null;
+  picksPerDay: number;
+  secondsSavedPerDay: number;
+}
+
+export interface SlottingPlan {
+  moves: SlottingMove[];
+  /** Worthwhile moves left for another day by the cap. */
+  deferred: number;
+  secondsSavedPerDay: number;
+}
+
+export class VelocityImportError extends Error {
+  constructor(
+    message: string,
+    readonly problems: string[] = [],
+  ) {
+    super(message);
+    this.name = "VelocityImportError";
+  }
+}
+
+/** Parse a SKU velocity CSV (header: sku,picksPerDay). Repeated SKUs add up. */
+export function parseVelocityFile(text: string, fileName: string): SkuVelocity {
+  const rows = parseCsvRecords(text);
+  if (!rows.length) throw new VelocityImportError(`${fileName} has no SKU rows.`);
+  if (!("sku" in rows[0]) || !("picksperday" in rows[0])) {
+    throw new VelocityImportError(`${fileName} needs "sku" and "picksPerDay" columns.`);
+  }
+  const velocity: SkuVelocity = {};
+  const problems: string[] = [];
+  rows.forEach((row, i) => {
+    const picks = Number(row.picksperday);
+    if (!row.sku) return void problems.push(`row ${i + 2}: sku is empty`);
+    if (!row.picksperday || !Number.isFinite(picks) || picks < 0) {
+      return void problems.push(`row ${i + 2}: picksPerDay must be a number >= 0`);
+    }
+    velocity[row.sku] = (velocity[row.sku] ?? 0) + picks;
+  });
+  if (problems.length) throw new VelocityImportError(`${problems.length} invalid row(s) in ${fileName}.`, problems);
+  return velocity;
+}
+
+/**
+ * Propose moves that bring fast movers closer to the entrance. Each pick is costed as a round trip
+ * from the entrance (handling time is the same wherever the pallet sits, so it drops out).
+ * Movers are placed greedily, fastest SKU first, in the target that saves the most; the list is
+ * then ranked by savings and cut at the daily cap. Blocked and reserved spots and reserved rows
+ * are never touched.
+ */
+export function planSlotting(
+  graph: AisleGraph,
+  model: TravelModel,
+  inventory: SlotInventory,
+  velocity: SkuVelocity,
+  options: SlottingOptions,
+): SlottingPlan {
+  const paths = shortestPaths(graph, graph.entrance);
+  const reserved = new Set(options.reservedRows);
+  const spots = listLocations(graph.layout)
+    .filter((l) => !reserved.has(l.row))
+    .map((l) => {
+      const code = buildCode(l.row, l.aisle, l.spot);
+      return { code, roundTrip: 2 * walkSeconds(model, distanceFromEntrance(graph, code, paths)) };
+    })
+    .filter((s) => Number.isFinite(s.roundTrip))
+    .sort((a, b) => a.roundTrip - b.roundTrip);
+  const speed = (code: string) => {
+    const slot = inventory[code];
+    return slot?.status === "occupied" && slot.sku ? (velocity[slot.sku] ?? 0) : 0;
+  };
+
+  const movers = spots.filter((s) => speed(s.code) > 0).sort((a, b) => speed(b.code) - speed(a.code));
+  const claimed = new Set<string>();
+  const candidates: Omit<SlottingMove, "rank">[] = [];
+
+  for (const from of movers) {
+    if (claimed.has(from.code)) continue;
+    const v = speed(from.code);
+    let best: { to: string; saved: number; swap: boolean } | null = null;
+    for (const to of spots) {
+      if (to.roundTrip >= from.roundTrip) break;
+      if (claimed.has(to.code)) continue;
+      const status = inventory[to.code]?.status ?? "empty";
+      if (status !== "empty" && status !== "occupied") continue;
+      const gain = v - (status === "occupied" ? speed(to.code) : 0);
+      const saved = gain * (from.roundTrip - to.roundTrip);
+      if (gain > 0 && (!best || saved > best.saved)) best = { to: to.code, saved, swap: status === "occupied" };
+    }
+    if (!best) continue;
+    claimed.add(from.code).add(best.to);
+    const slot = inventory[from.code];
+    candidates.push({
+      kind: best.swap ? "swap" : "move",
+      sku: slot.sku!,
+      description: slot.description,
+      from: from.code,
+      to: best.to,
+      swapSku: best.swap ? inventory[best.to].sku : null,
+      picksPerDay: v,
+      secondsSavedPerDay: best.saved,
+    });
+  }
+
+  candidates.sort((a, b) => b.secondsSavedPerDay - a.secondsSavedPerDay);
+  const moves: SlottingMove[] = [];
+  let budget = options.maxMovesPerDay;
+  let deferred = 0;
+  for (const c of candidates) {
+    const cost = c.kind === "swap" ? 2 : 1;
+    if (cost > budget) {
+      deferred++;
+      continue;
+    }
+    budget -= cost;
+    moves.push({ ...c, rank: moves.length + 1 });
+  }
+  return { moves, deferred, secondsSavedPerDay: moves.reduce((sum, m) => sum + m.secondsSavedPerDay, 0) };
+}
+
+export function slottingCsv(moves: SlottingMove[]): string {
+  return toCsv([
+    ["rank", "kind", "sku", "description", "from", "to", "swapSku", "picksPerDay", "secondsSavedPerDay"],
+    ...moves.map((m) => [
+      m.rank,
+      m.kind,
+      m.sku,
+      m.description,
+      m.from,
+      m.to,
+      m.swapSku,
+      m.picksPerDay,
+      Math.round(m.secondsSavedPerDay),
+    ]),
+  ]);
+}
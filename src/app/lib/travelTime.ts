@@ -0,0 +1,149 @@
+import * as React from "react";
+
+import { distanceFromEntrance, shortestPaths, type AisleGraph } from "./aisleGraph";
+import { buildCode, getLevel, parseLocationCode, type WarehouseLayout } from "./layout";
+
+/** Walk time = graph distance / walking speed, plus a fixed handling time at each spot. */
+export interface TravelModel {
+  walkSpeedMps: number;
+  handlingSeconds: number;
+}
+
+export interface TravelMeasurement {
+  code: string;
+  seconds: number;
+}
+
+export interface TravelErrorStats {
+  count: number;
+  meanAbsError: number;
+  rmse: number;
+  maxAbsError: number;
+  /** Mean of predicted minus measured; positive means the model runs slow. */
+  bias: number;
+}
+
+export interface TravelCalibration {
+  model: TravelModel;
+  measurements: TravelMeasurement[];
+}
+
+// Keep fitted speeds physical: a fit outside this range says more about the data than the floor.
+const MIN_SPEED_MPS = 0.3;
+const MAX_SPEED_MPS = 3;
+
+const STORAGE_PREFIX = "dtx-floor-plan.calibration.";
+
+export function layoutTravelModel(layout: WarehouseLayout): TravelModel {
+  return { ...layout.travel };
+}
+
+export function layoutMeasurements(layout: WarehouseLayout): TravelMeasurement[] {
+  return layout.walkTimeAnchors.map((a) => ({ code: buildCode(a.row, a.aisle, a.spot), seconds: a.seconds }));
+}
+
+export function walkSeconds(model: TravelModel, meters: number) {
+  return meters / model.walkSpeedMps;
+}
+
+/** Extra handling for a pick at a rack level, e.g. fetching a lift for the upper beams; 0 on the floor. */
+export function liftSeconds(layout: WarehouseLayout, level: string | null | undefined) {
+  return getLevel(layout, level)?.liftSeconds ?? 0;
+}
+
+/** Estimated seconds from the entrance to a spot, including handling there (add `liftSeconds` for a level). */
+export function estimateTravelSeconds(
+  graph: AisleGraph,
+  model: TravelModel,
+  code: string,
+  paths = shortestPaths(graph, graph.entrance),
+) {
+  return walkSeconds(model, distanceFromEntrance(graph, code, paths)) + model.handlingSeconds;
+}
+
+/**
+ * Least-squares fit of `seconds = meters / speed + handling` to measured entrance-to-spot times.
+ * With fewer than two distinct distances only the handling time is fitted.
+ */
+export function fitTravelModel(graph: AisleGraph, measurements: TravelMeasurement[], fallback: TravelModel): TravelModel {
+  const paths = shortestPaths(graph, graph.entrance);
+  const points = measurements
+    .map((m) => ({ d: distanceFromEntrance(graph, m.code, paths), t: m.seconds }))
+    .filter((p) => Number.isFinite(p.d) && Number.isFinite(p.t));
+  if (!points.length) return fallback;
+
+  const n = points.length;
+  const meanD = points.reduce((s, p) => s + p.d, 0) / n;
+  const meanT = points.reduce((s, p) => s + p.t, 0) / n;
+  const varD = points.reduce((s, p) => s + (p.d - meanD) ** 2, 0);
+  const cov = points.reduce((s, p) => s + (p.d - meanD) * (p.t - meanT), 0);
+
+  let secondsPerMeter = 1 / fallback.walkSpeedMps;
+  if (varD > 1e-9 && cov > 0) {
+    secondsPerMeter = Math.min(1 / MIN_SPEED_MPS, Math.max(1 / MAX_SPEED_MPS, cov / varD));
+  }
+  const handlingSeconds = Math.max(0, meanT - secondsPerMeter * meanD);
+  return { walkSpeedMps: 1 / secondsPerMeter, handlingSeconds };
+}
+
+export function travelErrorStats(
+  graph: AisleGraph,
+  model: TravelModel,
+  measurements: TravelMeasurement[],
+): TravelErrorStats {
+  const paths = shortestPaths(graph, graph.entrance);
+  const errors = measurements
+    .map((m) => estimateTravelSeconds(graph, model, m.code, paths) - m.seconds)
+    .filter((e) => Number.isFinite(e));
+  const count = errors.length;
+  if (!count) return { count: 0, meanAbsError: 0, rmse: 0, maxAbsError: 0, bias: 0 };
+  return {
+    count,
+    meanAbsError: errors.reduce((s, e) => s + Math.abs(e), 0) / count,
+    rmse: Math.sqrt(errors.reduce((s, e) => s + e * e, 0) / count),
+    maxAbsError: Math.max(...errors.map(Math.abs)),
+    bias: errors.reduce((s, e) => s + e, 0) / count,
+  };
+}
+
+function readStoredCalibration(layout: WarehouseLayout): TravelCalibration | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + layout.id);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as TravelCalibration;
+    const { walkSpeedMps, handlingSeconds } = parsed.model ?? {};
+    if (!(walkSpeedMps > 0) || !(handlingSeconds >= 0) || !Array.isArray(parsed.measurements)) return null;
+    const measurements = parsed.measurements.filter(
+      (m) => typeof m.seconds === "number" && !!parseLocationCode(layout, String(m.code)),
+    );
+    return { model: { walkSpeedMps, handlingSeconds }, measurements };
+  } catch {
+    return null;
+  }
+}
+
+/** Per-site calibration, persisted in localStorage; falls back to the layout's own model and measurements. */
+export function useTravelCalibration(layout: WarehouseLayout) {
+  const defaults = React.useMemo<TravelCalibration>(
+    () => ({ model: layoutTravelModel(layout), measurements: layoutMeasurements(layout) }),
+    [layout],
+  );
+  const [calibration, setCalibration] = React.useState<TravelCalibration>(
+    () => readStoredCalibration(layout) ?? defaults,
+  );
+
+  const save = React.useCallback(
+    (next: TravelCalibration | null) => {
+      setCalibration(next ?? defaults);
+      try {
+        if (next) window.localStorage.setItem(STORAGE_PREFIX + layout.id, JSON.stringify(next));
+        else window.localStorage.removeItem(STORAGE_PREFIX + layout.id);
+      } catch {
+        // Private mode or a full quota: keep the in-memory calibration for this session.
+      }
+    },
+    [layout, defaults],
+  );
+
+  return { calibration, saveCalibration: save, defaults };
+}
@@ -0,0 +1,40 @@
+import * as React from "react";
+
+/**
+ * Query parameters the floor plan keeps in the URL so views can be shared and restored, plus the
+ * ones the mock identity provider's login redirect uses.
+ */
+export type UrlParam = "site" | "loc" | "sel" | "q" | "view" | "embed" | "host" | "mock-idp" | "redirect_uri" | "state";
+
+export function readUrlParam(name: UrlParam): string | null {
+  if (typeof window === "undefined") return null;
+  const value = new URLSearchParams(window.location.search).get(name);
+  return value && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Update query parameters (`null` removes one). `push` adds a history entry so back/forward can
+ * step between states; otherwise the current entry is replaced. No-op when nothing changes.
+ */
+export function writeUrlParams(updates: Partial<Record<UrlParam, string | null>>, { push = false } = {}) {
+  const url = new URL(window.location.href);
+  for (const [key, value] of Object.entries(updates)) {
+    if (value) url.searchParams.set(key, value);
+    else url.searchParams.delete(key);
+  }
+  if (url.href === window.location.href) return;
+  if (push) window.history.pushState(null, "", url);
+  else window.history.replaceState(window.history.state, "", url);
+}
+
+/** Run `onChange` when the user moves through history with back/forward. */
+export function usePopState(onChange: () => void) {
+  const ref = React.useRef(onChange);
+  ref.current = onChange;
+
+  React.useEffect(() => {
+    const onPopState = () => ref.current();
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+}
@@ -0,0 +1,50 @@
+// Demo host for the embeddable floor plan (`/embed-demo.html`). A real host would set `origin`
+// to wherever the floor plan is deployed; here both pages share the dev server's origin.
+import { createMockToken, ROLE_LABEL, type Role } from "./app/lib/auth";
+import { connectFloorPlan } from "./app/lib/embed";
+
+const origin = window.location.origin;
+const iframe = document.getElementById("floor-plan") as HTMLIFrameElement;
+const log = document.getElementById("log")!;
+const codeInput = document.getElementById("code") as HTMLInputElement;
+
+const append = (line: string) => {
+  log.textContent = `${new Date().toLocaleTimeString()} ${line}\n${log.textContent}`;
+};
+
+const client = connectFloorPlan(iframe, {
+  origin,
+  onEvent: (event) => append(JSON.stringify(event)),
+});
+iframe.src = `${origin}/?embed=1&host=${encodeURIComponent(window.location.origin)}`;
+
+const codes = () =>
+  codeInput.value
+    .split(/[\s,]+/)
+    .map((c) => c.trim().toUpperCase())
+    .filter(Boolean);
+
+document.getElementById("select")!.addEventListener("click", () => {
+  const [code] = codes();
+  if (code) client.send({ type: "select", code });
+});
+document.getElementById("highlight")!.addEventListener("click", () => client.send({ type: "highlight", codes: codes() }));
+document.getElementById("clear")!.addEventListener("click", () => client.send({ type: "clearSelection" }));
+document.getElementById("inventory")!.addEventListener("click", () =>
+  client.send({
+    type: "setInventory",
+    records: [
+      { code: "A-1-1", sku: "LB-DEMO-1", description: "Demo throw", quantity: 12, status: "occupied" },
+      { code: "A-1-2", status: "reserved" },
+    ],
+  }),
+);
+document.getElementById("view")!.addEventListener("change", (e) =>
+  client.send({ type: "setEntranceView", view: (e.target as HTMLSelectElement).value as "bottom" | "left" | "top" }),
+);
+// Stands in for the JIM user's SSO token with one from the mock identity provider.
+document.getElementById("identity")!.addEventListener("change", (e) => {
+  const role = (e.target as HTMLSelectElement).value as Role | "";
+  const token = role ? createMockToken({ subject: `demo-${role}`, name: `Demo ${ROLE_LABEL[role]}`, role }) : null;
+  client.send({ type: "setIdentity", token });
+});
@@ -1,7 +1,19 @@
 
   import { createRoot } from "react-dom/client";
   import App from "./app/App";
+  import { EmbeddedFloorPlan } from "./app/components/EmbeddedFloorPlan";
+  import { MockIdentityProvider } from "./app/components/MockIdentityProvider";
+  import { MOCK_IDP_ENABLED } from "./app/lib/auth";
+  import { registerServiceWorker } from "./app/lib/pwa";
+  import { readUrlParam } from "./app/lib/urlState";
   import "./styles/index.css";
 
-  createRoot(document.getElementById("root")!).render(<App />);
+  registerServiceWorker();
+
+  function Root() {
+    if (MOCK_IDP_ENABLED && readUrlParam("mock-idp")) return <MockIdentityProvider />;
+    return readUrlParam("embed") ? <EmbeddedFloorPlan /> : <App />;
+  }
+
+  createRoot(document.getElementById("root")!).render(<Root />);
   
\ No newline at end of file
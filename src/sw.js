@@ -0,0 +1,57 @@
+/* Service worker template. The build (see `serviceWorker()` in vite.config.ts) fills in the
+ * cache name and the precache list, then emits it as /sw.js. */
+const CACHE_NAME = __CACHE_NAME__;
+const PRECACHE = __PRECACHE__;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+// Drop caches left by older builds.
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) => Promise.all(names.filter((n) => n !== CACHE_NAME).map((n) => caches.delete(n))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || new URL(request.url).origin !== self.location.origin) return;
+
+  // Pages: network first so a new deploy is picked up, falling back to the cached shell offline.
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          if (response.ok) caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+          return response;
+        })
+        .catch(() =>
+          caches.match(request, { ignoreSearch: true }).then((cached) => cached || caches.match("./index.html")),
+        ),
+    );
+    return;
+  }
+
+  // Hashed assets (scripts, styles, bundled layout and inventory data) never change under one URL.
+  event.respondWith(
+    caches.match(request).then(
+      (cached) =>
+        cached ||
+        fetch(request).then((response) => {
+          const copy = response.clone();
+          if (response.ok) caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+          return response;
+        }),
+    ),
+  );
+});
@@ -1,19 +1,61 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { defineConfig, type Plugin } from 'vite'
+import { createHash } from 'crypto'
+import fs from 'fs'
 import path from 'path'
 import tailwindcss from '@tailwindcss/vite'
 import react from '@vitejs/plugin-react'
 
+// Emits sw.js from src/sw.js, precaching everything the build produced plus public/, under a
+// cache name that changes whenever any of it does.
+function serviceWorker(): Plugin {
+  return {
+    name: 'dtx-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const publicFiles = fs.readdirSync(path.resolve(__dirname, 'public'))
+      const files = [...Object.keys(bundle), ...publicFiles].filter((f) => !f.endsWith('.map')).sort()
+      const hash = createHash('sha256')
+      for (const file of files) {
+        const item = bundle[file]
+        hash.update(file)
+        if (item?.type === 'asset') hash.update(item.source)
+      }
+      const source = fs
+        .readFileSync(path.resolve(__dirname, 'src/sw.js'), 'utf8')
+        .replace('__CACHE_NAME__', JSON.stringify(`dtx-floor-plan-${hash.digest('hex').slice(0, 12)}`))
+        .replace('__PRECACHE__', JSON.stringify(['./', ...files.map((f) => `./${f}`)]))
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
+
 export default defineConfig({
   plugins: [
     // The React and Tailwind plugins are both required for Make, even if
     // Tailwind is not being actively used – do not remove them
     react(),
     tailwindcss(),
+    serviceWorker(),
   ],
+  build: {
+    rollupOptions: {
+      // The embed demo host page ships next to the app so integrators can try the API.
+      input: {
+        main: path.resolve(__dirname, 'index.html'),
+        embedDemo: path.resolve(__dirname, 'embed-demo.html'),
+      },
+    },
+  },
   resolve: {
     alias: {
       // Alias @ to the src directory
       '@': path.resolve(__dirname, './src'),
     },
   },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+  },
 })